@@ -1,10 +1,18 @@
 
 import React, { useState, useReducer, useCallback, useEffect, useRef } from 'react';
-import { GameData, Player, GamePhase, Character, Asset, GameMode, ChatMessage, SavedSession } from './types';
-import { gameReducer, Action } from './state/reducer';
+import { GameData, Player, GamePhase, Character, Asset, GameMode, ChatMessage, SavedSession, PlayerId } from './types';
+import { Action } from './state/reducer';
+import { journalReducer, createJournal } from './state/journal';
+import { migrateGameData } from './state/migrations';
+import { authorizePlayerAction, authorizeEndTurn, AuthorizationResult } from './state/permissions';
+import { importGameArchive, downloadGameArchive } from './services/archiveService';
+import { resolveDiceRoll } from './services/diceService';
+import { resolveSkillCheck } from './services/skillCheckService';
 import { INITIAL_GAME_DATA } from './constants';
+import { ReadingSettings, DEFAULT_READING_SETTINGS } from './state/reading';
 import SetupView from './components/SetupView';
 import { GameView } from './components/GameView';
+import StoryReader from './components/StoryReader';
 import GMMenu from './components/GMMenu';
 import GmRulesModal from './components/GmRulesModal';
 import TutorialModal from './components/TutorialModal';
@@ -15,6 +23,8 @@ import { signInAnonymouslyIfNeeded } from './services/firebase';
 import ChangelogModal from './components/ChangelogModal';
 import { getLatestVersionFromChangelog } from './changelogData';
 
+const UNVERIFIED_SENDER: AuthorizationResult = { allowed: false, reason: 'it did not come from the account that player joined from' };
+
 interface ImagePreviewModalProps {
   asset: Asset | null;
   onClose: () => void;
@@ -70,7 +80,8 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ asset, onClose })
 
 
 const App: React.FC = () => {
-  const [gameData, dispatch] = useReducer(gameReducer, { ...INITIAL_GAME_DATA, players: [] });
+  const [journal, dispatch] = useReducer(journalReducer, { ...INITIAL_GAME_DATA, players: [] }, createJournal);
+  const gameData = journal.present;
   const [gamePhase, setGamePhase] = useState<GamePhase>('setup');
   const [currentPlayerIndex, setCurrentPlayerIndex] = useState(0);
   const [isGmMenuOpen, setIsGmMenuOpen] = useState(false);
@@ -95,6 +106,8 @@ const App: React.FC = () => {
   const [gameTypingUsers, setGameTypingUsers] = useState<Record<string, string>>({});
 
   const [savedSessions, setSavedSessions] = useLocalStorage<SavedSession[]>('vns-sessions', []);
+  const [readAloud, setReadAloud] = useLocalStorage<boolean>('vns-read-aloud', false);
+  const [readingSettingsByPlayer, setReadingSettingsByPlayer] = useLocalStorage<Record<PlayerId, ReadingSettings>>('vns-reading-settings-by-player', {});
 
   const [isChangelogModalOpen, setIsChangelogModalOpen] = useState(false);
   
@@ -153,65 +166,142 @@ const App: React.FC = () => {
       });
   }, []);
   
-  useEffect(() => {
-    if (gameMode !== 'online-gm' || !gameId) return;
-
-    network.onMessage((message) => {
-      if (message.type === 'PLAYER_JOIN_REQUEST') {
-          if (gameData.players.some(p => p.name.toLowerCase() === message.payload.name.toLowerCase())) {
-              const logAction: Action = { type: 'ADD_LOBBY_CHAT_MESSAGE', payload: {
-                  senderId: 'system',
-                  senderName: 'System',
-                  text: `'${message.payload.name}' tried to join, but the name is already in use. Join request rejected.`,
-                  timestamp: Date.now()
-              }};
-              dispatch(logAction);
-              return;
-          }
-          const newPlayer: Player = { id: message.payload.id, name: message.payload.name, lastSeenLogIndex: 0, coins: 0 };
-          dispatch({ type: 'ADD_PLAYER', payload: newPlayer });
-          if (gamePhase === 'play') {
-            dispatch({
-                type: 'ADD_LOG_ENTRY',
-                payload: {
-                    type: 'stat_change',
-                    text: `(${message.payload.name}) Has Joined the Game!`
-                }
+  // Applies an action on this device, which is the GM host or a local game. Intents that need
+  // host-side resolution, like dice rolls and skill checks, are resolved here before reaching the reducer.
+  // A remote player's actions are journaled as theirs, so the GM's undo only steps back the GM's own changes.
+  const applyAction = (action: Action, fromPlayer = false) => {
+    const apply = (resolved: Action) => dispatch(fromPlayer ? { type: 'JOURNAL_PLAYER_ACTION', action: resolved } : resolved);
+    if (action.type === 'REQUEST_DICE_ROLL') {
+        resolveDiceRoll(action.payload)
+            .then(entry => apply({ type: 'ADD_LOG_ENTRY', payload: entry }))
+            .catch(error => {
+                console.error("Dice roll failed:", error);
+                alert(`Dice roll failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
             });
-          }
-      } else if (message.type === 'LOBBY_CHAT_MESSAGE') {
-        dispatch({ type: 'ADD_LOBBY_CHAT_MESSAGE', payload: message.payload.message });
-      } else if (message.type === 'DISPATCH_ACTION') {
-        dispatch(message.payload.action);
-      } else if (message.type === 'END_TURN') {
-        handleEndTurn();
+        return;
+    }
+    if (action.type === 'REQUEST_SKILL_CHECK') {
+        const check = gameData.pendingSkillCheck;
+        const character = gameData.characters.find(c => c.id === action.payload.characterId);
+        if (!check || !character) return;
+        resolveSkillCheck(check, character, action.payload.playerId)
+            .then(entry => apply({ type: 'ADD_LOG_ENTRY', payload: entry }))
+            .catch(error => {
+                console.error("Skill check failed:", error);
+                alert(`Skill check failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            });
+        return;
+    }
+    apply(action);
+  };
+
+  const reportRejectedPlayerMessage = (playerId: string, attempted: string, result: AuthorizationResult) => {
+    const playerName = gameData.players.find(p => p.id === playerId)?.name || 'An unknown player';
+    console.warn(`Rejected attempt to ${attempted} from ${playerId}: ${result.reason}`);
+    dispatch({ type: 'ADD_CHAT_MESSAGE', payload: {
+        senderId: 'system',
+        senderName: 'System',
+        text: `${playerName} tried to ${attempted}, but it was rejected because ${result.reason}.`,
+        timestamp: Date.now()
+    }});
+  };
+
+  // A message is from whichever player joined from the account that wrote it. The player id the
+  // message names only picks between players who joined from the same account, such as two tabs.
+  const findSenderId = (claimedPlayerId: string, senderUid: string | null): string | null => {
+    const accountPlayers = gameData.players.filter(p => !!senderUid && p.authUid === senderUid);
+    return (accountPlayers.find(p => p.id === claimedPlayerId) || accountPlayers[0])?.id ?? null;
+  };
+
+  // The GM's network listeners live as long as the game, so they call whichever handlers the
+  // latest render made. Handlers from an earlier render would check players' actions against an
+  // old copy of the game, such as one from before a skill check was called.
+  const handlePlayerMessageRef = useRef<(message: network.NetworkMessage, senderUid: string | null) => void>(() => {});
+  handlePlayerMessageRef.current = (message, senderUid) => {
+    if (message.type === 'PLAYER_JOIN_REQUEST') {
+        // A player id is only ever claimed once, so no one can join as an existing player from another account.
+        if (!senderUid || gameData.players.some(p => p.id === message.payload.id)) return;
+        if (gameData.players.some(p => p.name.toLowerCase() === message.payload.name.toLowerCase())) {
+            const logAction: Action = { type: 'ADD_LOBBY_CHAT_MESSAGE', payload: {
+                senderId: 'system',
+                senderName: 'System',
+                text: `'${message.payload.name}' tried to join, but the name is already in use. Join request rejected.`,
+                timestamp: Date.now()
+            }};
+            dispatch(logAction);
+            return;
+        }
+        const newPlayer: Player = { id: message.payload.id, name: message.payload.name, lastSeenLogIndex: 0, coins: 0, authUid: senderUid };
+        dispatch({ type: 'ADD_PLAYER', payload: newPlayer });
+        if (gamePhase === 'play') {
+          dispatch({
+              type: 'ADD_LOG_ENTRY',
+              payload: {
+                  type: 'stat_change',
+                  text: `(${message.payload.name}) Has Joined the Game!`
+              }
+          });
+        }
+    } else if (message.type === 'LOBBY_CHAT_MESSAGE') {
+      dispatch({ type: 'ADD_LOBBY_CHAT_MESSAGE', payload: message.payload.message });
+    } else if (message.type === 'DISPATCH_ACTION') {
+      const { action, playerId } = message.payload;
+      const senderId = findSenderId(playerId, senderUid);
+      if (!senderId) {
+          reportRejectedPlayerMessage(playerId, `perform "${action?.type}"`, UNVERIFIED_SENDER);
+          return;
       }
-    });
-    
-    network.onPresenceChange(gameId, (leavingPlayerId, leavingPlayerName) => {
-        const playerExists = gameData.players.some(p => p.id === leavingPlayerId);
-        if (!playerExists) return;
+      const result = authorizePlayerAction(action, { senderId, gameData, currentPlayerId: gameData.players[currentPlayerIndex]?.id ?? null, gamePhase });
+      if (result.allowed) {
+          applyAction(action, true);
+      } else {
+          reportRejectedPlayerMessage(senderId, `perform "${action?.type}"`, result);
+      }
+    } else if (message.type === 'END_TURN') {
+      const { playerId } = message.payload;
+      const senderId = findSenderId(playerId, senderUid);
+      if (!senderId) {
+          reportRejectedPlayerMessage(playerId, 'end the turn', UNVERIFIED_SENDER);
+          return;
+      }
+      const result = authorizeEndTurn({ senderId, gameData, currentPlayerId: gameData.players[currentPlayerIndex]?.id ?? null, gamePhase });
+      if (result.allowed) {
+          handleEndTurn();
+      } else {
+          reportRejectedPlayerMessage(senderId, 'end the turn', result);
+      }
+    }
+  };
 
-        dispatch({
-            type: 'ADD_LOG_ENTRY',
-            payload: {
-                type: 'stat_change',
-                text: `(${leavingPlayerName}) Has Left the Game!`
-            }
-        });
+  const handlePlayerLeftRef = useRef<(leavingPlayerId: string, leavingPlayerName: string) => void>(() => {});
+  handlePlayerLeftRef.current = (leavingPlayerId, leavingPlayerName) => {
+      const playerExists = gameData.players.some(p => p.id === leavingPlayerId);
+      if (!playerExists) return;
 
-        const leavingPlayerIndex = gameData.players.findIndex(p => p.id === leavingPlayerId);
-        dispatch({ type: 'REMOVE_PLAYER', payload: { id: leavingPlayerId } });
-        
-        setCurrentPlayerIndex(prev => {
-            const newPlayerCount = gameData.players.length - 1;
-            if (newPlayerCount <= 0) return 0;
-            if (leavingPlayerIndex < prev) return prev - 1;
-            return prev % newPlayerCount;
-        });
-    });
+      dispatch({
+          type: 'ADD_LOG_ENTRY',
+          payload: {
+              type: 'stat_change',
+              text: `(${leavingPlayerName}) Has Left the Game!`
+          }
+      });
 
-  }, [gameMode, gameId, gameData.players, currentPlayerIndex, gamePhase]);
+      const leavingPlayerIndex = gameData.players.findIndex(p => p.id === leavingPlayerId);
+      dispatch({ type: 'REMOVE_PLAYER', payload: { id: leavingPlayerId } });
+      
+      setCurrentPlayerIndex(prev => {
+          const newPlayerCount = gameData.players.length - 1;
+          if (newPlayerCount <= 0) return 0;
+          if (leavingPlayerIndex < prev) return prev - 1;
+          return prev % newPlayerCount;
+      });
+  };
+
+  useEffect(() => {
+    if (gameMode !== 'online-gm' || !gameId) return;
+    network.onMessage((message, senderUid) => handlePlayerMessageRef.current(message, senderUid));
+    network.onPresenceChange(gameId, (leavingPlayerId, leavingPlayerName) => handlePlayerLeftRef.current(leavingPlayerId, leavingPlayerName));
+  }, [gameMode, gameId]);
 
   useEffect(() => {
     if (gameMode !== 'online-gm') return;
@@ -233,7 +323,17 @@ const App: React.FC = () => {
 
         setConnectionStatus('connected');
         
-        const { gameData: newGameData, currentPlayerIndex: newCurrentPlayerIndex, gamePhase: newGamePhase } = message.payload;
+        const { gameData: remoteGameData, currentPlayerIndex: newCurrentPlayerIndex, gamePhase: newGamePhase } = message.payload;
+        let newGameData: GameData;
+        try {
+            newGameData = migrateGameData(remoteGameData);
+        } catch (error) {
+            console.error("Could not load the synced game:", error);
+            alert(`Could not load this game: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            network.closeChannel();
+            window.location.reload();
+            return;
+        }
         
         if (myPlayerId && !newGameData.players.some(p => p.id === myPlayerId)) {
             setIsKicked(true);
@@ -303,9 +403,10 @@ const App: React.FC = () => {
 
   const onlineDispatch = (action: Action) => {
     if (gameMode === 'online-player') {
-      network.sendMessage({ type: 'DISPATCH_ACTION', payload: { action } });
+      if (!myPlayerId) return;
+      network.sendMessage({ type: 'DISPATCH_ACTION', payload: { action, playerId: myPlayerId } });
     } else {
-      dispatch(action);
+      applyAction(action);
     }
   };
 
@@ -345,6 +446,15 @@ const App: React.FC = () => {
     await startGame();
   };
 
+  // Reading an authored story is a local game with one reader and no GM. It starts from an empty log.
+  const startReading = async () => {
+    const reader: Player = { id: 'reader', name: 'Reader', lastSeenLogIndex: 0, coins: 0 };
+    setGameMode('reader');
+    dispatch({ type: 'SET_PLAYERS', payload: [reader] });
+    dispatch({ type: 'RESET_STORY_LOG' });
+    await preloadAssetsAndPlay();
+  };
+
   const hostOnlineGame = (options: { asPlayer: boolean, playerName: string }) => {
     const { asPlayer, playerName } = options;
     const newGameId = String(Math.floor(100000 + Math.random() * 900000));
@@ -415,7 +525,10 @@ const App: React.FC = () => {
     if (gameData.characters.length <= 1) {
       return;
     }
+    await preloadAssetsAndPlay();
+  };
 
+  const preloadAssetsAndPlay = async () => {
     setIsLoading(true);
     
     const publishedAssets = gameData.assets.filter(a => a.isPublished);
@@ -444,7 +557,7 @@ const App: React.FC = () => {
   
   const handleEndTurn = () => {
     if (gameMode === 'online-player') {
-      network.sendMessage({ type: 'END_TURN', payload: {} });
+      if (myPlayerId) network.sendMessage({ type: 'END_TURN', payload: { playerId: myPlayerId } });
       return;
     }
     
@@ -520,7 +633,7 @@ const App: React.FC = () => {
                 
                 const { gameData: remoteGameData, currentPlayerIndex: remotePlayerIndex, gamePhase: remoteGamePhase } = remoteState.state;
                 
-                const finalGameData = { ...remoteGameData, lobbyMusicUrl: remoteState.music?.lobbyMusicUrl || null };
+                const finalGameData = migrateGameData({ ...remoteGameData, lobbyMusicUrl: remoteState.music?.lobbyMusicUrl || null });
                 
                 dispatch({ type: 'SET_GAME_DATA', payload: finalGameData });
                 setCurrentPlayerIndex(remotePlayerIndex || 0);
@@ -600,7 +713,31 @@ const App: React.FC = () => {
         });
     };
 
-  const returnToSetup = () => {
+  const handleImportArchive = async (file: File): Promise<boolean> => {
+    try {
+        const importedGameData = await importGameArchive(file);
+        // An online host's players are the people connected to the lobby, so they stay. A local
+        // game resumes with the archive's players.
+        const players = gameMode === 'online-gm' ? gameData.players : importedGameData.players;
+        dispatch({ type: 'SET_GAME_DATA', payload: { ...importedGameData, players } });
+        return true;
+    } catch (error) {
+        console.error("Archive import failed:", error);
+        alert(`Archive import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return false;
+    }
+  };
+
+  const returnToSetup = async () => {
+    // Local games only live in memory, so offer a backup before the reload throws them away.
+    if ((gameMode === 'local' || gameMode === 'reader') && window.confirm('Local games are lost when you return to the menu. Download a game archive first so you can resume later?')) {
+        try {
+            await downloadGameArchive(gameData);
+        } catch (error) {
+            console.error("Archive export failed:", error);
+            if (!window.confirm(`The archive could not be saved (${error instanceof Error ? error.message : 'Unknown error'}). Return to the menu anyway?`)) return;
+        }
+    }
     window.location.reload();
   }
 
@@ -655,12 +792,14 @@ const App: React.FC = () => {
             gameData={gameData} 
             dispatch={dispatch} 
             onStartLocalGame={startLocalGame}
+            onStartReading={startReading}
             onHostOnlineGame={hostOnlineGame}
             onJoinOnlineGame={joinOnlineGameAsPlayer}
             gameId={gameId}
             onStartGameForEveryone={startGame}
             onSendLobbyMessage={handleSendLobbyChatMessage}
             onPreviewAsset={(asset) => setPreviewAsset(asset)}
+            onImportArchive={handleImportArchive}
             savedSessions={savedSessions}
             onRejoinSession={handleRejoinSession}
             onLeaveSession={handleLeaveSession}
@@ -671,6 +810,11 @@ const App: React.FC = () => {
          />;
       case 'play':
         const currentPlayer = players[currentPlayerIndex];
+        if (gameMode === 'reader' && currentPlayer) {
+            return <StoryReader gameData={gameData} dispatch={dispatch} reader={currentPlayer} />;
+        }
+        // Each player reads at their own pace: online, the one on this device; locally, whoever's turn it is.
+        const readerId = (gameMode === 'local' ? currentPlayer?.id : myPlayerId) || '';
         return (
             <GameView
                 gameData={gameData}
@@ -682,6 +826,10 @@ const App: React.FC = () => {
                 myPlayerId={myPlayerId}
                 typingUsers={gameTypingUsers}
                 onTypingChange={handleTypingChange('in-game')}
+                readAloud={readAloud}
+                onReadAloudChange={setReadAloud}
+                readingSettings={readingSettingsByPlayer[readerId] || DEFAULT_READING_SETTINGS}
+                onReadingSettingsChange={settings => setReadingSettingsByPlayer({ ...readingSettingsByPlayer, [readerId]: settings })}
             />
         );
       default:
@@ -760,6 +908,10 @@ const App: React.FC = () => {
                 gameId={gameId}
                 onPreviewAsset={(asset) => setPreviewAsset(asset)}
                 onKickPlayer={handleKickPlayer}
+                journal={journal}
+                onUndo={() => dispatch({ type: 'JOURNAL_UNDO' })}
+                onRedo={() => dispatch({ type: 'JOURNAL_REDO' })}
+                onImportArchive={handleImportArchive}
              />
         )}
         <audio ref={audioRef} />
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Asset, AssetType } from '../types';
+
+export const ASSET_TYPE_LABELS: Record<AssetType, string> = {
+    background: 'Background',
+    characterSprite: 'Character Sprite',
+    cg: 'CG',
+    music: 'Music',
+    sfx: 'Sound Effect',
+    voice: 'Voice Clip',
+};
+
+export const isAudioAsset = (asset: Pick<Asset, 'type'>) => asset.type === 'music' || asset.type === 'sfx' || asset.type === 'voice';
+
+const AUDIO_ICONS: Partial<Record<AssetType, string>> = { music: '🎵', sfx: '🔊', voice: '🎙️' };
+
+interface AssetThumbnailProps {
+    asset: Asset;
+    className: string; // Sizes the image, or the box standing in for an audio file.
+    onPreview: (asset: Asset) => void;
+}
+
+// An image asset's picture, or a player for an audio asset. Only images open the preview.
+const AssetThumbnail: React.FC<AssetThumbnailProps> = ({ asset, className, onPreview }) => {
+    if (!isAudioAsset(asset)) {
+        return <img src={asset.url} alt={asset.name} className={`${className} object-cover cursor-pointer`} onClick={() => onPreview(asset)} />;
+    }
+    return (
+        <div className={`${className} bg-primary flex flex-col items-center justify-center gap-2 p-1`}>
+            <span className="text-3xl" aria-hidden="true">{AUDIO_ICONS[asset.type]}</span>
+            <audio src={asset.url} controls preload="none" className="w-full h-8" aria-label={asset.name} />
+        </div>
+    );
+};
+
+export default AssetThumbnail;
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Character, Asset } from '../types';
 import { PREMADE_BIOS } from '../premadeData';
+import CharacterVoicePicker from './CharacterVoicePicker';
 
 interface CharacterEditorProps {
     char: Character;
@@ -82,6 +83,11 @@ const CharacterEditor: React.FC<CharacterEditorProps> = ({ char, allSprites, upd
                 </div>
             </div>
             
+            <div>
+                <h4 className="text-sm font-semibold mb-1">Read-Aloud Voice</h4>
+                <CharacterVoicePicker voice={char.ttsVoice} onChange={ttsVoice => updateCharacter({ ...char, ttsVoice })} sampleText={`Hello, I'm ${char.name || 'a new character'}.`} />
+            </div>
+
             <div className="grid grid-cols-2 gap-4">
                 <div>
                     <h4 className="text-sm font-semibold mb-1">Assigned Sprites</h4>
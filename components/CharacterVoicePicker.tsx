@@ -0,0 +1,69 @@
+import React, { useState, useEffect } from 'react';
+import { CharacterVoice } from '../types';
+import { getSpeechVoices, isSpeechSupported, speakLine, stopSpeaking, DEFAULT_CHARACTER_VOICE } from '../services/speechService';
+
+interface CharacterVoicePickerProps {
+    voice: CharacterVoice | undefined;
+    onChange: (voice: CharacterVoice) => void;
+    sampleText: string; // Read by the Test button.
+}
+
+// Picks the text-to-speech voice, speed and pitch a character's lines are read with.
+const CharacterVoicePicker: React.FC<CharacterVoicePickerProps> = ({ voice, onChange, sampleText }) => {
+    const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+    // The speed and pitch while a slider is being dragged. The character is only updated once it is let go.
+    const [draft, setDraft] = useState<CharacterVoice | null>(null);
+    const current = draft || voice || DEFAULT_CHARACTER_VOICE;
+
+    useEffect(() => {
+        let isMounted = true;
+        getSpeechVoices().then(loaded => { if (isMounted) setVoices(loaded); });
+        return () => {
+            isMounted = false;
+            stopSpeaking();
+        };
+    }, []);
+
+    if (!isSpeechSupported()) {
+        return <p className="text-xs text-gray-400 italic">This browser cannot read lines aloud.</p>;
+    }
+
+    const commitDraft = () => {
+        if (!draft) return;
+        onChange(draft);
+        setDraft(null);
+    };
+    const sliderProps = { onPointerUp: commitDraft, onKeyUp: commitDraft, onBlur: commitDraft, className: 'w-full' };
+
+    const handleVoiceChange = (voiceName: string) => {
+        const { voiceName: _, ...rest } = current;
+        onChange(voiceName ? { ...rest, voiceName } : rest);
+        setDraft(null);
+    };
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_auto_auto] gap-2 items-end text-sm">
+            <label className="block">
+                <span className="text-xs text-gray-400">Voice</span>
+                <select value={current.voiceName || ''} onChange={e => handleVoiceChange(e.target.value)} className="w-full p-1 bg-primary rounded-md">
+                    <option value="">Browser default</option>
+                    {current.voiceName && !voices.some(v => v.name === current.voiceName) && (
+                        <option value={current.voiceName}>{current.voiceName} (not on this device)</option>
+                    )}
+                    {voices.map(v => <option key={v.voiceURI} value={v.name}>{v.name} ({v.lang})</option>)}
+                </select>
+            </label>
+            <label className="block">
+                <span className="text-xs text-gray-400">Speed {current.rate.toFixed(1)}×</span>
+                <input type="range" min={0.5} max={2} step={0.1} value={current.rate} onChange={e => setDraft({ ...current, rate: parseFloat(e.target.value) })} {...sliderProps} />
+            </label>
+            <label className="block">
+                <span className="text-xs text-gray-400">Pitch {current.pitch.toFixed(1)}</span>
+                <input type="range" min={0} max={2} step={0.1} value={current.pitch} onChange={e => setDraft({ ...current, pitch: parseFloat(e.target.value) })} {...sliderProps} />
+            </label>
+            <button onClick={() => speakLine(sampleText, current, () => {})} className="px-3 py-1 bg-secondary hover:bg-opacity-75 rounded-md">🔊 Test</button>
+        </div>
+    );
+};
+
+export default CharacterVoicePicker;
@@ -0,0 +1,79 @@
+import React, { useState, useEffect } from 'react';
+import { parseDialogueMarkup, getTextEffectOffset, getTypedCharacterCount, getTypingDurationMs, TextStyle } from '../services/dialogueMarkup';
+
+// A line typing out one character at a time from when it was shown.
+export interface Typewriter {
+    startedAt: number; // performance.now() time.
+    charactersPerSecond: number;
+}
+
+interface DialogueTextProps {
+    text: string;
+    showEffects?: boolean; // Moving text stays still without it.
+    typewriter?: Typewriter | null; // The whole line shows at once without it.
+}
+
+const toCss = (style: TextStyle): React.CSSProperties => ({
+    ...(style.bold ? { fontWeight: 700 } : {}),
+    ...(style.italic ? { fontStyle: 'italic' } : {}),
+    ...(style.color ? { color: style.color } : {}),
+    ...(style.size !== 1 ? { fontSize: `${style.size}em` } : {}),
+});
+
+// Characters not typed yet keep their space, so the line does not reflow as it types out.
+const HIDDEN: React.CSSProperties = { visibility: 'hidden' };
+
+// A line of dialogue with its markup applied.
+const DialogueText: React.FC<DialogueTextProps> = ({ text, showEffects, typewriter }) => {
+    const nodes = parseDialogueMarkup(text);
+    const isMoving = !!showEffects && nodes.some(node => node.type === 'text' && node.style.effect);
+    const typingEndsAt = typewriter ? typewriter.startedAt + getTypingDurationMs(nodes, typewriter.charactersPerSecond) : 0;
+    const [timeMs, setTimeMs] = useState(() => performance.now());
+    const isTyping = timeMs < typingEndsAt;
+
+    useEffect(() => {
+        if (!isMoving && !typingEndsAt) return;
+        let frame = requestAnimationFrame(function tick(time) {
+            setTimeMs(time);
+            if (isMoving || time < typingEndsAt) frame = requestAnimationFrame(tick);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [isMoving, typingEndsAt]);
+
+    const typedCount = typewriter && isTyping
+        ? getTypedCharacterCount(nodes, timeMs - typewriter.startedAt, typewriter.charactersPerSecond)
+        : Infinity;
+
+    let characterIndex = 0;
+    return <>
+        {nodes.map((node, index) => {
+            if (node.type === 'wait') return null;
+            const characters = Array.from(node.text);
+            const start = characterIndex;
+            characterIndex += characters.length;
+            const { effect } = node.style;
+            if (!isMoving || !effect) {
+                if (typedCount >= characterIndex) return <span key={index} style={toCss(node.style)}>{node.text}</span>;
+                const typed = Math.max(0, typedCount - start);
+                return (
+                    <span key={index} style={toCss(node.style)}>
+                        {characters.slice(0, typed).join('')}
+                        <span style={HIDDEN}>{characters.slice(typed).join('')}</span>
+                    </span>
+                );
+            }
+            return (
+                <span key={index} style={toCss(node.style)}>
+                    {characters.map((character, i) => {
+                        const style: React.CSSProperties = start + i < typedCount ? {} : HIDDEN;
+                        if (/\s/.test(character)) return <span key={i} style={style}>{character}</span>;
+                        const { x, y } = getTextEffectOffset(effect, start + i, timeMs);
+                        return <span key={i} className="inline-block" style={{ ...style, transform: `translate(${x}em, ${y}em)` }}>{character}</span>;
+                    })}
+                </span>
+            );
+        })}
+    </>;
+};
+
+export default DialogueText;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { GameData, QuestStatus, StatName, StoryEffect, VariableEffect } from '../types';
+import { EFFECT_KIND_LABELS, describeEffect } from '../state/effects';
+import { parseVariableValue } from '../state/variables';
+import { STAT_LABELS, STAT_NAMES } from '../services/skillCheckService';
+
+interface EffectListEditorProps {
+    effects: StoryEffect[];
+    onChange: (effects: StoryEffect[]) => void;
+    gameData: GameData;
+}
+
+const createEffect = (kind: StoryEffect['kind'], gameData: GameData): StoryEffect => {
+    switch (kind) {
+        case 'coins': return { kind, amount: 10 };
+        case 'hp': return { kind, characterIds: [], amount: -10 };
+        case 'stat': return { kind, characterIds: [], stat: 'strength', amount: 1 };
+        case 'item': return { kind, name: '', quantity: 1 };
+        case 'quest': return { kind, questId: gameData.quests.find(q => q.status === 'active')?.id || '', status: 'completed' };
+        case 'background': return { kind, assetId: null };
+        case 'variable': return { kind, change: { op: 'set', name: '', value: true } };
+    }
+};
+
+// Edits a list of typed story effects. Used for choice effects and for skill check outcomes.
+const EffectListEditor: React.FC<EffectListEditorProps> = ({ effects, onChange, gameData }) => {
+    const [newKind, setNewKind] = useState<StoryEffect['kind']>('coins');
+    const characters = gameData.characters.filter(c => c.id !== 'narrator');
+    const variables = gameData.variables || [];
+
+    const updateEffect = (index: number, effect: StoryEffect) => onChange(effects.map((e, i) => i === index ? effect : e));
+    const removeEffect = (index: number) => onChange(effects.filter((_, i) => i !== index));
+
+    const renderTargets = (effect: Extract<StoryEffect, { characterIds: string[] }>, index: number) => (
+        <div className="flex flex-wrap gap-x-3 gap-y-1 w-full">
+            {characters.map(c => (
+                <label key={c.id} className={`flex items-center gap-1 text-xs ${c.status === 'defeated' ? 'opacity-50' : ''}`}>
+                    <input
+                        type="checkbox"
+                        checked={(effect.characterIds || []).includes(c.id)}
+                        onChange={e => updateEffect(index, { ...effect, characterIds: e.target.checked ? [...(effect.characterIds || []), c.id] : (effect.characterIds || []).filter(id => id !== c.id) })}
+                    />
+                    {c.name}
+                </label>
+            ))}
+        </div>
+    );
+
+    const changeVariableOp = (index: number, change: VariableEffect, op: VariableEffect['op']) => {
+        const type = variables.find(v => v.name === change.name)?.type;
+        updateEffect(index, { kind: 'variable', change: op === 'toggle' ? { op, name: change.name }
+            : op === 'increment' ? { op, name: change.name, amount: 1 }
+            : { op, name: change.name, value: type === 'number' ? 0 : type === 'text' ? '' : true } });
+    };
+
+    const renderFields = (effect: StoryEffect, index: number) => {
+        switch (effect.kind) {
+            case 'coins':
+                return <input type="number" value={effect.amount} onChange={e => updateEffect(index, { ...effect, amount: parseInt(e.target.value) || 0 })} className="w-24 p-1 bg-accent rounded-md text-sm" placeholder="+10, -5..." />;
+            case 'hp':
+                return <>
+                    <input type="number" value={effect.amount} onChange={e => updateEffect(index, { ...effect, amount: parseInt(e.target.value) || 0 })} className="w-20 p-1 bg-accent rounded-md text-sm" title="Positive heals, negative damages" />
+                    {renderTargets(effect, index)}
+                </>;
+            case 'stat':
+                return <>
+                    <select value={effect.stat} onChange={e => updateEffect(index, { ...effect, stat: e.target.value as StatName })} className="flex-1 p-1 bg-accent rounded-md text-sm">
+                        {STAT_NAMES.map(stat => <option key={stat} value={stat}>{STAT_LABELS[stat]}</option>)}
+                    </select>
+                    <input type="number" value={effect.amount} onChange={e => updateEffect(index, { ...effect, amount: parseInt(e.target.value) || 0 })} className="w-16 p-1 bg-accent rounded-md text-sm" />
+                    {renderTargets(effect, index)}
+                </>;
+            case 'item':
+                return <>
+                    <input type="text" value={effect.name} onChange={e => updateEffect(index, { ...effect, name: e.target.value })} placeholder="Item name" className="flex-1 min-w-0 p-1 bg-accent rounded-md text-sm" />
+                    <input type="number" value={effect.quantity} onChange={e => updateEffect(index, { ...effect, quantity: parseInt(e.target.value) || 0 })} className="w-16 p-1 bg-accent rounded-md text-sm" title="Negative removes the item" />
+                </>;
+            case 'quest':
+                return <>
+                    <select value={effect.questId} onChange={e => updateEffect(index, { ...effect, questId: e.target.value })} className="flex-1 min-w-0 p-1 bg-accent rounded-md text-sm">
+                        <option value="">-- Quest --</option>
+                        {gameData.quests.map(q => <option key={q.id} value={q.id}>{q.title}</option>)}
+                    </select>
+                    <select value={effect.status} onChange={e => updateEffect(index, { ...effect, status: e.target.value as QuestStatus })} className="p-1 bg-accent rounded-md text-sm">
+                        <option value="completed">complete</option>
+                        <option value="failed">fail</option>
+                        <option value="active">reopen</option>
+                    </select>
+                </>;
+            case 'background':
+                return (
+                    <select value={effect.assetId || ''} onChange={e => updateEffect(index, { ...effect, assetId: e.target.value || null })} className="flex-1 min-w-0 p-1 bg-accent rounded-md text-sm">
+                        <option value="">- Clear BG -</option>
+                        {gameData.assets.filter(a => a.type === 'background' && a.isPublished).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                    </select>
+                );
+            case 'variable': {
+                const { change } = effect;
+                return <>
+                    <input type="text" list="effect-variable-names" value={change.name} onChange={e => updateEffect(index, { ...effect, change: { ...change, name: e.target.value.trim() } })} placeholder="variable" className="flex-1 min-w-0 p-1 bg-accent rounded-md text-sm" />
+                    <select value={change.op} onChange={e => changeVariableOp(index, change, e.target.value as VariableEffect['op'])} className="p-1 bg-accent rounded-md text-sm">
+                        <option value="set">set to</option>
+                        <option value="increment">add</option>
+                        <option value="toggle">toggle</option>
+                    </select>
+                    {change.op === 'set' && <input type="text" key={`${index}-${String(change.value)}`} defaultValue={String(change.value)} onBlur={e => updateEffect(index, { ...effect, change: { ...change, value: parseVariableValue(e.target.value, variables.find(v => v.name === change.name)?.type) } })} className="w-20 p-1 bg-accent rounded-md text-sm" />}
+                    {change.op === 'increment' && <input type="number" value={change.amount} onChange={e => updateEffect(index, { ...effect, change: { ...change, amount: parseInt(e.target.value) || 0 } })} className="w-16 p-1 bg-accent rounded-md text-sm" />}
+                </>;
+            }
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            {effects.length === 0 && <p className="text-xs text-gray-400 italic">No effects.</p>}
+            {effects.map((effect, index) => (
+                <div key={index} className="bg-primary p-2 rounded-md" title={describeEffect(effect, gameData)}>
+                    <div className="flex justify-between items-center mb-1">
+                        <span className="text-xs font-bold text-gray-300">{EFFECT_KIND_LABELS[effect.kind]}</span>
+                        <button onClick={() => removeEffect(index)} className="text-red-500 hover:text-red-400 px-1 font-bold">X</button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                        {renderFields(effect, index)}
+                    </div>
+                </div>
+            ))}
+            <datalist id="effect-variable-names">
+                {variables.map(v => <option key={v.name} value={v.name} />)}
+            </datalist>
+            <div className="flex gap-2">
+                <select value={newKind} onChange={e => setNewKind(e.target.value as StoryEffect['kind'])} className="flex-1 p-1 bg-primary rounded-md text-sm">
+                    {Object.entries(EFFECT_KIND_LABELS).map(([kind, label]) => <option key={kind} value={kind}>{label}</option>)}
+                </select>
+                <button onClick={() => onChange([...effects, createEffect(newKind, gameData)])} className="text-xs px-2 py-1 bg-accent rounded-md hover:bg-opacity-75">+ Add Effect</button>
+            </div>
+        </div>
+    );
+};
+
+export default EffectListEditor;
@@ -1,9 +1,27 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { GameData, Player, AssetType, Asset, Character, StoryLogEntry, Quest } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { GameData, Player, AssetType, Asset, Character, Quest, QuestStatus, StatName, StoryEffect, StoryVariable } from '../types';
 import { Action } from '../state/reducer';
-import { MAX_PLAYERS } from '../constants';
+import { JournalState, describeAction } from '../state/journal';
+import { downloadGameArchiveWithAlerts, ARCHIVE_EXTENSION } from '../services/archiveService';
+import { downloadRenpyProject } from '../services/renpyExportService';
+import { downloadHtmlPlayer } from '../services/htmlPlayerExportService';
+import { downloadEpub, downloadMarkdownTranscript } from '../services/transcriptExportService';
+import { downloadFountainScript } from '../services/fountainExportService';
+import { buildVideoTimeline } from '../services/videoTimeline';
+import { downloadSubtitles } from '../services/subtitleService';
+import { loadAudioAssets, getStoryAudioAssets, getAudioDurationsMs } from '../services/audioMixService';
+import { renderVideo, getVideoSize, VIDEO_ASPECT_RATIOS, VIDEO_RESOLUTIONS } from '../services/videoRenderService';
+import { downloadBlob } from '../services/downloadService';
+import { STAT_LABELS, STAT_NAMES } from '../services/skillCheckService';
+import { VARIABLE_TYPE_LABELS } from '../state/variables';
+import { describeEffect, isCompleteEffect } from '../state/effects';
+import { stripDialogueMarkup } from '../services/dialogueMarkup';
+import { MAX_PLAYERS, MAX_AUDIO_UPLOAD_BYTES, NARRATOR_CHARACTER } from '../constants';
 import PremadeAssetBrowser from './PremadeAssetBrowser';
+import AssetThumbnail, { ASSET_TYPE_LABELS, isAudioAsset } from './AssetThumbnail';
 import CharacterEditor from './CharacterEditor';
+import CharacterVoicePicker from './CharacterVoicePicker';
+import EffectListEditor from './EffectListEditor';
 
 interface GMMenuProps {
   isOpen: boolean;
@@ -13,142 +31,43 @@ interface GMMenuProps {
   gameId: string | null;
   onPreviewAsset: (asset: Asset) => void;
   onKickPlayer: (playerId: string) => void;
+  journal: JournalState;
+  onUndo: () => void;
+  onRedo: () => void;
+  onImportArchive: (file: File) => Promise<boolean>;
 }
 
-// --- Types for Scene State for video export ---
-interface SceneState {
-  backgroundUrl: string | null;
-  cgUrl: string | null;
-  sprites: { [characterId: string]: { assetId: string | null, url: string | null } };
-  dialogue: { characterName: string; text: string } | null;
-}
-
-const VIDEO_QUALITY_BITRATES: Record<string, number> = {
-    low: 1_000_000, // 1 Mbps
-    medium: 2_500_000, // 2.5 Mbps
-    high: 5_000_000, // 5 Mbps
-    ultra: 8_000_000, // 8 Mbps
-};
-
-function wrapText(context: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, lineHeight: number) {
-    const words = text.split(' ');
-    let line = '';
-    const lines = [];
-
-    for (let n = 0; n < words.length; n++) {
-        const testLine = line + words[n] + ' ';
-        const metrics = context.measureText(testLine);
-        const testWidth = metrics.width;
-        if (testWidth > maxWidth && n > 0) {
-            lines.push(line);
-            line = words[n] + ' ';
-        } else {
-            line = testLine;
-        }
-    }
-    lines.push(line);
-
-    const initialY = y;
-    for (const l of lines) {
-        context.fillText(l.trim(), x, y);
-        y += lineHeight;
-    }
-    return y - initialY; // Return the total height of the wrapped text
-}
-
-
-async function drawSceneOnCanvas(
-    ctx: CanvasRenderingContext2D,
-    canvas: HTMLCanvasElement,
-    scene: SceneState,
-    loadedImages: Map<string, HTMLImageElement>
-) {
-    ctx.fillStyle = '#000000';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    if (scene.backgroundUrl) {
-        const bgImg = loadedImages.get(scene.backgroundUrl);
-        if (bgImg) ctx.drawImage(bgImg, 0, 0, canvas.width, canvas.height);
-    }
-
-    const activeSprites = Object.values(scene.sprites)
-        .map(spriteInfo => loadedImages.get(spriteInfo.url || ''))
-        .filter((img): img is HTMLImageElement => !!img);
-    
-    if (activeSprites.length > 0) {
-        const spriteContainerHeight = canvas.height * 0.8;
-        const scaledSprites = activeSprites.map(img => {
-            const scale = spriteContainerHeight / img.naturalHeight;
-            return { img, width: img.naturalWidth * scale, height: spriteContainerHeight };
-        });
-
-        const totalWidth = scaledSprites.reduce((sum, s) => sum + s.width, 0);
-        let currentX = (canvas.width - totalWidth) / 2;
-        const yPos = canvas.height - spriteContainerHeight;
-        
-        for (const sprite of scaledSprites) {
-            ctx.drawImage(sprite.img, currentX, yPos, sprite.width, sprite.height);
-            currentX += sprite.width;
-        }
-    }
-
-    if (scene.cgUrl) {
-        const cgImg = loadedImages.get(scene.cgUrl);
-        if (cgImg) {
-            ctx.fillStyle = 'rgba(0,0,0,0.75)';
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
-            const canvasAspect = canvas.width / canvas.height;
-            const imgAspect = cgImg.naturalWidth / cgImg.naturalHeight;
-            let drawWidth = canvas.width;
-            let drawHeight = canvas.height;
-            if (imgAspect > canvasAspect) {
-                drawHeight = canvas.width / imgAspect;
-            } else {
-                drawWidth = canvas.height * imgAspect;
-            }
-            const drawX = (canvas.width - drawWidth) / 2;
-            const drawY = (canvas.height - drawHeight) / 2;
-            ctx.drawImage(cgImg, drawX, drawY, drawWidth, drawHeight);
-        }
-    }
-
-    if (scene.dialogue) {
-        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-        ctx.fillRect(0, canvas.height * 0.7, canvas.width, canvas.height * 0.3);
-        
-        const padding = 20;
-        const x = padding;
-        const yName = canvas.height * 0.7 + padding + 24;
-        const yText = yName + 40;
-        
-        ctx.fillStyle = '#e94560';
-        ctx.font = 'bold 28px Inter, sans-serif';
-        ctx.textAlign = 'left';
-        ctx.textBaseline = 'top';
-        ctx.fillText(scene.dialogue.characterName, x, yName);
-
-        ctx.fillStyle = '#dcdcdc';
-        ctx.font = '24px Inter, sans-serif';
-        wrapText(ctx, scene.dialogue.text, x, yText, canvas.width - (padding * 2), 30);
-    }
-}
-
-
-const GMMenu: React.FC<GMMenuProps> = ({ isOpen, onClose, gameData, dispatch, gameId, onPreviewAsset, onKickPlayer }) => {
+const GMMenu: React.FC<GMMenuProps> = ({ isOpen, onClose, gameData, dispatch, gameId, onPreviewAsset, onKickPlayer, journal, onUndo, onRedo, onImportArchive }) => {
     const [activeTab, setActiveTab] = useState('game');
     const [assetUrl, setAssetUrl] = useState('');
     const [assetName, setAssetName] = useState('');
     const [assetType, setAssetType] = useState<AssetType>('background');
     const [isExporting, setIsExporting] = useState(false);
-    const [exportProgress, setExportProgress] = useState(0);
-    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [exportFrames, setExportFrames] = useState<{ encoded: number; total: number } | null>(null);
+    const exportAbortRef = useRef<AbortController | null>(null);
     const [timingBaseSeconds, setTimingBaseSeconds] = useState(2.5);
     const [timingSecondsPerWord, setTimingSecondsPerWord] = useState(0.25);
     const [videoQuality, setVideoQuality] = useState('high');
+    const [videoAspectRatio, setVideoAspectRatio] = useState('16:9');
+    const [videoResolution, setVideoResolution] = useState(720);
+    const [includeSubtitles, setIncludeSubtitles] = useState(true);
     const [newQuestTitle, setNewQuestTitle] = useState('');
     const [newQuestDesc, setNewQuestDesc] = useState('');
     const [newQuestAssignee, setNewQuestAssignee] = useState<string>('null');
     const [newQuestCoins, setNewQuestCoins] = useState(0);
+    const [isArchiving, setIsArchiving] = useState(false);
+    const [isExportingRenpy, setIsExportingRenpy] = useState(false);
+    const [isExportingHtml, setIsExportingHtml] = useState(false);
+    const [isExportingEpub, setIsExportingEpub] = useState(false);
+    const [isDownloadingSubtitles, setIsDownloadingSubtitles] = useState(false);
+    const [checkStat, setCheckStat] = useState<StatName>('strength');
+    const [checkDc, setCheckDc] = useState(10);
+    const [checkDescription, setCheckDescription] = useState('');
+    const [checkSuccess, setCheckSuccess] = useState<StoryEffect[]>([]);
+    const [checkFailure, setCheckFailure] = useState<StoryEffect[]>([]);
+    const [newVariableName, setNewVariableName] = useState('');
+    const [newVariableType, setNewVariableType] = useState<StoryVariable['type']>('flag');
+    const [newVariableHidden, setNewVariableHidden] = useState(false);
     const { players } = gameData;
     
     const handlePlayerUpdate = (id: string, key: keyof Player, value: string | number) => {
@@ -171,7 +90,9 @@ const GMMenu: React.FC<GMMenuProps> = ({ isOpen, onClose, gameData, dispatch, ga
 
     const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>, type: AssetType) => {
         const file = event.target.files?.[0];
-        if (file) {
+        if (file && isAudioAsset({ type }) && file.size > MAX_AUDIO_UPLOAD_BYTES) {
+            alert('Audio file is too large. Please choose a file smaller than 11MB.');
+        } else if (file) {
             const reader = new FileReader();
             reader.onload = (e) => {
                 const url = e.target?.result as string;
@@ -207,6 +128,8 @@ const GMMenu: React.FC<GMMenuProps> = ({ isOpen, onClose, gameData, dispatch, ga
         dispatch({ type: 'ADD_CHARACTER', payload: { name: 'New Character', bio: '', spriteAssetIds: [] } });
     }
 
+    const narrator = gameData.characters.find(c => c.id === NARRATOR_CHARACTER.id);
+
     const updateCharacter = (character: Character) => {
         dispatch({ type: 'UPDATE_CHARACTER', payload: character });
     }
@@ -218,6 +141,56 @@ const GMMenu: React.FC<GMMenuProps> = ({ isOpen, onClose, gameData, dispatch, ga
         }
     };
     
+    const handleCallSkillCheck = () => {
+        if (checkDc < 1) {
+            alert("The DC must be at least 1.");
+            return;
+        }
+        dispatch({ type: 'SET_PENDING_SKILL_CHECK', payload: {
+            id: `check-${Date.now()}`,
+            stat: checkStat,
+            dc: checkDc,
+            description: checkDescription.trim(),
+            successEffects: checkSuccess.filter(isCompleteEffect),
+            failureEffects: checkFailure.filter(isCompleteEffect),
+        }});
+        setCheckDescription('');
+        setCheckSuccess([]);
+        setCheckFailure([]);
+    };
+
+    const handleDefineVariable = () => {
+        const name = newVariableName.trim();
+        if (!name) return;
+        if ((gameData.variables || []).some(v => v.name === name)) {
+            alert(`A variable named "${name}" already exists.`);
+            return;
+        }
+        const hidden = newVariableHidden;
+        const variable: StoryVariable = newVariableType === 'flag' ? { name, type: 'flag', value: false, hidden }
+            : newVariableType === 'number' ? { name, type: 'number', value: 0, hidden }
+            : { name, type: 'text', value: '', hidden };
+        dispatch({ type: 'DEFINE_VARIABLE', payload: variable });
+        setNewVariableName('');
+    };
+
+    const renderVariableValueControl = (variable: StoryVariable) => {
+        switch (variable.type) {
+            case 'flag':
+                return <button onClick={() => dispatch({ type: 'TOGGLE_VARIABLE', payload: { name: variable.name } })} className={`w-20 px-2 py-1 rounded-md text-sm font-bold ${variable.value ? 'bg-green-600 hover:bg-green-700' : 'bg-gray-600 hover:bg-gray-700'}`}>{variable.value ? 'true' : 'false'}</button>;
+            case 'number':
+                return (
+                    <div className="flex items-center gap-1">
+                        <button onClick={() => dispatch({ type: 'INCREMENT_VARIABLE', payload: { name: variable.name, amount: -1 } })} className="px-2 py-1 bg-accent rounded-md text-sm font-bold">−</button>
+                        <input type="number" key={`${variable.name}-${variable.value}`} defaultValue={variable.value} onBlur={e => dispatch({ type: 'SET_VARIABLE', payload: { name: variable.name, value: parseInt(e.target.value) || 0 } })} className="w-16 p-1 bg-accent rounded-md text-center"/>
+                        <button onClick={() => dispatch({ type: 'INCREMENT_VARIABLE', payload: { name: variable.name, amount: 1 } })} className="px-2 py-1 bg-accent rounded-md text-sm font-bold">+</button>
+                    </div>
+                );
+            case 'text':
+                return <input type="text" key={`${variable.name}-${variable.value}`} defaultValue={variable.value} onBlur={e => dispatch({ type: 'SET_VARIABLE', payload: { name: variable.name, value: e.target.value } })} className="w-40 p-1 bg-accent rounded-md"/>;
+        }
+    };
+
     const handleAddQuest = () => {
         if (!newQuestTitle.trim()) {
             alert("Quest title cannot be empty.");
@@ -240,222 +213,119 @@ const GMMenu: React.FC<GMMenuProps> = ({ isOpen, onClose, gameData, dispatch, ga
         setNewQuestCoins(0);
     };
     
-    const handleUpdateQuestStatus = (id: string, status: 'completed' | 'active') => {
+    const handleUpdateQuestStatus = (id: string, status: QuestStatus) => {
         dispatch({type: 'UPDATE_QUEST', payload: {id, status}});
     }
 
-    const findAssetUrl = useCallback((id: string | null) => gameData.assets.find(a => a.id === id)?.url || null, [gameData.assets]);
-
-    const reduceScene = useCallback((log: StoryLogEntry, currentScene: SceneState): SceneState => {
-        const newScene: SceneState = { ...currentScene, sprites: { ...currentScene.sprites } };
-        switch (log.type) {
-            case 'background_change': 
-                newScene.backgroundUrl = findAssetUrl(log.assetId); 
-                break;
-            case 'sprite_change': 
-                 newScene.sprites[log.characterId] = { assetId: log.assetId, url: findAssetUrl(log.assetId) };
-                 break;
-            case 'cg_show': 
-                newScene.cgUrl = findAssetUrl(log.assetId); 
-                break;
-        }
-        return newScene;
-    }, [findAssetUrl]);
-    
-    const handleExportVideo = async () => {
-        setIsExporting(true);
-        setExportProgress(0);
+    const handleExportArchive = async () => {
+        setIsArchiving(true);
+        await downloadGameArchiveWithAlerts(gameData);
+        setIsArchiving(false);
+    };
 
-        const canvas = canvasRef.current;
-        if (!canvas) {
-            alert('Canvas element not found.');
-            setIsExporting(false);
-            return;
-        }
-        canvas.width = 1280;
-        canvas.height = 720;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-            alert('Could not get canvas context.');
-            setIsExporting(false);
-            return;
+    const handleExportRenpy = async () => {
+        setIsExportingRenpy(true);
+        try {
+            const missingAssets = await downloadRenpyProject(gameData);
+            if (missingAssets.length > 0) {
+                alert(`The project was saved, but these images could not be downloaded and are shown as placeholders:\n\n${missingAssets.map(a => a.name).join('\n')}`);
+            }
+        } catch (error) {
+            console.error("Ren'Py export failed:", error);
+            alert(`Ren'Py export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            setIsExportingRenpy(false);
         }
+    };
 
+    const handleExportHtml = async () => {
+        setIsExportingHtml(true);
         try {
-            setExportProgress(5);
-            const imageUrls = new Set(gameData.assets.map(a => a.url));
-            const loadedImages = new Map<string, HTMLImageElement>();
-            const promises = Array.from(imageUrls).map(url => new Promise<void>((resolve, reject) => {
-                const img = new Image();
-                img.crossOrigin = "anonymous";
-                if (url.startsWith('data:')) {
-                    img.src = url;
-                } else {
-                    const cleanUrl = url.replace(/^https?:\/\//, '');
-                    img.src = `https://images.weserv.nl/?url=${encodeURIComponent(cleanUrl)}`;
-                }
-                img.onload = () => { loadedImages.set(url, img); resolve(); };
-                img.onerror = () => reject(new Error(`Failed to load image: ${url}`));
-            }));
-            await Promise.all(promises);
-            setExportProgress(10);
-            
-            const stream = canvas.captureStream(24);
-            const bitrate = VIDEO_QUALITY_BITRATES[videoQuality];
-            const recorder = new MediaRecorder(stream, { 
-                mimeType: 'video/webm',
-                videoBitsPerSecond: bitrate,
-            });
-            const chunks: Blob[] = [];
-            recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
-            recorder.onstop = () => {
-                const videoBlob = new Blob(chunks, { type: 'video/webm' });
-                const videoUrl = URL.createObjectURL(videoBlob);
-                const a = document.createElement('a');
-                a.href = videoUrl;
-                a.download = `${gameData.title.replace(/[^a-z0-9]/gi, '_')}.webm`;
-                document.body.appendChild(a);
-                a.click();
-                window.URL.revokeObjectURL(videoUrl);
-                document.body.removeChild(a);
-                setIsExporting(false);
-                setExportProgress(100);
-            };
-            recorder.start();
-
-            let currentScene: SceneState = { backgroundUrl: null, cgUrl: null, sprites: {}, dialogue: null };
-            let sceneChangesSinceLastPause = false;
-
-            for (let i = 0; i < gameData.storyLog.length; i++) {
-                const log = gameData.storyLog[i];
-
-                if (log.type === 'background_change' || log.type === 'sprite_change' || log.type === 'cg_show') {
-                    currentScene = reduceScene(log, currentScene);
-                    sceneChangesSinceLastPause = true;
-                } else if (log.type === 'dialogue' || log.type === 'choice_selection') {
-                    if (sceneChangesSinceLastPause) {
-                        await drawSceneOnCanvas(ctx, canvas, { ...currentScene, dialogue: null }, loadedImages);
-                        await new Promise(res => setTimeout(res, 500));
-                        sceneChangesSinceLastPause = false;
-                    }
-
-                    let dialogueText = "";
-                    let dialogueToShow = null;
-                    if (log.type === 'dialogue') {
-                        const char = gameData.characters.find(c => c.id === log.characterId);
-                        dialogueToShow = { characterName: char?.name || 'Narrator', text: log.text };
-                        dialogueText = log.text;
-                    } else if (log.type === 'choice_selection') {
-                        const player = gameData.players.find(p => p.id === log.playerId);
-                        const fullText = `${player?.name || 'A player'} chose: "${log.choice.text}"`;
-                        dialogueToShow = { characterName: 'Narrator', text: fullText };
-                        dialogueText = fullText;
-                    }
-                    
-                    await drawSceneOnCanvas(ctx, canvas, { ...currentScene, dialogue: dialogueToShow }, loadedImages);
-                    
-                    const wordCount = dialogueText.split(/\s+/).filter(Boolean).length;
-                    const durationMs = (timingBaseSeconds + wordCount * timingSecondsPerWord) * 1000;
-                    await new Promise(res => setTimeout(res, Math.max(500, durationMs)));
-                }
-                
-                setExportProgress(10 + (i / gameData.storyLog.length) * 80);
+            const unbundledAssets = await downloadHtmlPlayer(gameData);
+            if (unbundledAssets.length > 0) {
+                alert(`The player was saved, but these files could not be downloaded and will only load while online:\n\n${unbundledAssets.map(a => a.name).join('\n')}`);
             }
+        } catch (error) {
+            console.error("HTML player export failed:", error);
+            alert(`HTML player export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            setIsExportingHtml(false);
+        }
+    };
 
-            if (sceneChangesSinceLastPause || gameData.storyLog.length > 0) {
-                await drawSceneOnCanvas(ctx, canvas, { ...currentScene, dialogue: null }, loadedImages);
-                await new Promise(res => setTimeout(res, 2000));
+    const handleExportEpub = async () => {
+        setIsExportingEpub(true);
+        try {
+            const missingAssets = await downloadEpub(gameData);
+            if (missingAssets.length > 0) {
+                alert(`The book was saved, but these images could not be downloaded and are only named in it:\n\n${missingAssets.map(a => a.name).join('\n')}`);
             }
-            
-            setExportProgress(90);
-            
-            // --- Credits Sequence ---
-            const credits = [
-                { type: 'spacer', size: 60 },
-                { type: 'header', text: 'Game Master' },
-                { type: 'item', text: 'The Host' },
-                { type: 'spacer', size: 40 },
-                { type: 'header', text: 'Players' },
-                ...(gameData.players.length > 0 ? gameData.players.map(p => ({ type: 'item', text: p.name })) : [{ type: 'item', text: 'No players'}]),
-                { type: 'spacer', size: 40 },
-                { type: 'header', text: 'Characters' },
-                ...gameData.characters.filter(c => c.id !== 'narrator' && c.status === 'active').map(c => ({ type: 'item', text: c.name })),
-                { type: 'spacer', size: 80 },
-                { type: 'footer', text: 'This video was brought to you by a multiplayer roleplaying visual novel game called "Visual Novel Forge".' },
-                { type: 'spacer', size: 40 },
-                { type: 'ender', text: 'Thanks for watching!' },
+        } catch (error) {
+            console.error("EPUB export failed:", error);
+            alert(`EPUB export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            setIsExportingEpub(false);
+        }
+    };
+
+    const handleDownloadSubtitles = async () => {
+        setIsDownloadingSubtitles(true);
+        try {
+            // Voiced lines are held as long as their clips, so the clips are measured to match the video.
+            const voiceClips = await loadAudioAssets(getStoryAudioAssets(gameData).filter(a => a.type === 'voice'));
+            const cards = buildVideoTimeline(gameData, { baseSeconds: timingBaseSeconds, secondsPerWord: timingSecondsPerWord }, getAudioDurationsMs(voiceClips));
+            downloadSubtitles(cards, gameData.title.replace(/[^a-z0-9]/gi, '_'));
+        } catch (error) {
+            console.error("Subtitle export failed:", error);
+            alert(`Subtitle export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            setIsDownloadingSubtitles(false);
+        }
+    };
+
+    const handleExportVideo = async () => {
+        const controller = new AbortController();
+        exportAbortRef.current = controller;
+        setIsExporting(true);
+        setExportFrames(null);
+        try {
+            const result = await renderVideo(
+                gameData,
+                {
+                    timing: { baseSeconds: timingBaseSeconds, secondsPerWord: timingSecondsPerWord },
+                    quality: videoQuality,
+                    aspectRatio: videoAspectRatio,
+                    resolution: videoResolution,
+                },
+                (encoded, total) => setExportFrames({ encoded, total }),
+                controller.signal,
+            );
+            if (!result) return; // Cancelled.
+
+            const baseName = gameData.title.replace(/[^a-z0-9]/gi, '_');
+            downloadBlob(result.blob, `${baseName}.webm`);
+            if (includeSubtitles) downloadSubtitles(result.cards, baseName);
+            const problems = [
+                ...(result.missingImages.length > 0 ? [`These images could not be loaded and are left out of it:\n${result.missingImages.map(a => a.name).join('\n')}`] : []),
+                ...(result.missingAudio.length > 0 ? [`These sounds could not be loaded or encoded and are silent in it:\n${result.missingAudio.map(a => a.name).join('\n')}`] : []),
             ];
-            
-            let totalHeight = 0;
-            credits.forEach(c => {
-                 switch (c.type) {
-                    case 'spacer': totalHeight += c.size; break;
-                    case 'header': totalHeight += 40; break;
-                    case 'item': totalHeight += 30; break;
-                    case 'footer': totalHeight += 50; break;
-                    case 'ender': totalHeight += 80; break;
-                }
-            });
-
-            const scrollDuration = (totalHeight + canvas.height) / 80; // pixels per second
-            const frames = Math.floor(scrollDuration * 24);
-            const startY = canvas.height;
-            const endY = -totalHeight;
-
-            for (let i = 0; i <= frames; i++) {
-                const progress = i / frames;
-                const currentY = startY + (endY - startY) * progress;
-
-                ctx.fillStyle = '#1a1a2e';
-                ctx.fillRect(0, 0, canvas.width, canvas.height);
-                
-                let y = currentY;
-                ctx.textAlign = 'center';
-                ctx.textBaseline = 'top';
-
-                for (const credit of credits) {
-                    if (credit.type === 'spacer') {
-                        y += credit.size;
-                    } else {
-                        if (credit.type === 'header') {
-                            ctx.font = 'bold 32px Inter, sans-serif';
-                            ctx.fillStyle = '#e94560'; // highlight
-                            ctx.fillText(credit.text, canvas.width / 2, y);
-                            y += 40;
-                        } else if (credit.type === 'item') {
-                            ctx.font = '24px Inter, sans-serif';
-                            ctx.fillStyle = '#dcdcdc'; // light
-                            ctx.fillText(credit.text, canvas.width / 2, y);
-                            y += 30;
-                        } else if (credit.type === 'footer') {
-                            ctx.font = 'italic 18px Inter, sans-serif';
-                            ctx.fillStyle = '#dcdcdc'; // light
-                            const height = wrapText(ctx, credit.text, canvas.width / 2, y, canvas.width * 0.8, 24);
-                            y += height + 20;
-                        } else if (credit.type === 'ender') {
-                            ctx.font = 'bold 40px Inter, sans-serif';
-                            ctx.fillStyle = '#e94560'; // highlight
-                            ctx.fillText(credit.text, canvas.width / 2, y);
-                            y += 80;
-                        }
-                    }
-                }
-                setExportProgress(90 + (progress * 10));
-                await new Promise(res => setTimeout(res, 1000 / 24));
+            if (problems.length > 0) {
+                alert(`The video was saved, but some assets are missing from it.\n\n${problems.join('\n\n')}`);
             }
-
-            recorder.stop();
         } catch(error) {
             console.error("Video export failed:", error);
             alert(`Video export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            exportAbortRef.current = null;
             setIsExporting(false);
+            setExportFrames(null);
         }
     };
 
-
     if (!isOpen) return null;
 
     const approvals = gameData.pendingAssetApprovals || [];
+    const recentJournalEntries = journal.entries.filter(e => e.kind === 'action').slice(-15).reverse();
 
     return (
         <div className="fixed inset-0 bg-primary bg-opacity-90 z-50 flex items-center justify-center p-4">
@@ -499,6 +369,96 @@ const GMMenu: React.FC<GMMenuProps> = ({ isOpen, onClose, gameData, dispatch, ga
                                     <p className="text-xs text-gray-400 mt-1">Share this ID with players so they can join.</p>
                                 </div>
                             )}
+                            <div>
+                                <div className="flex justify-between items-center mb-2">
+                                    <h3 className="text-xl font-semibold text-highlight">Action History</h3>
+                                    <div className="flex gap-2">
+                                        <button onClick={onUndo} disabled={journal.undoStack.length === 0} className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded-md text-sm font-bold disabled:bg-gray-500">Undo</button>
+                                        <button onClick={onRedo} disabled={journal.redoStack.length === 0} className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded-md text-sm font-bold disabled:bg-gray-500">Redo</button>
+                                    </div>
+                                </div>
+                                <div className="bg-accent p-2 rounded-lg max-h-48 overflow-y-auto space-y-1 text-sm">
+                                    {recentJournalEntries.length === 0 && <p className="text-gray-400 italic">No actions recorded yet.</p>}
+                                    {recentJournalEntries.map(entry => entry.kind === 'action' && (
+                                        <div key={entry.seq} className={`flex justify-between bg-primary p-1 px-2 rounded ${journal.redoStack.includes(entry.seq) ? 'opacity-50 line-through' : ''}`}>
+                                            <span className="truncate">{describeAction(entry.action, entry.snapshot)}</span>
+                                            <span className="text-xs text-gray-400 ml-2 flex-shrink-0">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-gray-400 mt-1">Undo reverts your last change and re-syncs every player. What players post, chat and players joining or leaving are never undone.</p>
+                            </div>
+                            <div>
+                                <h3 className="text-xl font-semibold text-highlight mb-2">Skill Check</h3>
+                                {gameData.pendingSkillCheck ? (
+                                    <div className="bg-accent p-4 rounded-lg flex justify-between items-center gap-4">
+                                        <div>
+                                            <p className="font-bold">DC {gameData.pendingSkillCheck.dc} {STAT_LABELS[gameData.pendingSkillCheck.stat]} check</p>
+                                            {gameData.pendingSkillCheck.description && <p className="text-sm text-gray-300">{gameData.pendingSkillCheck.description}</p>}
+                                            <p className="text-xs text-green-300">Success: {gameData.pendingSkillCheck.successEffects.map(e => describeEffect(e, gameData)).join('; ') || 'no effects'}</p>
+                                            <p className="text-xs text-red-300">Failure: {gameData.pendingSkillCheck.failureEffects.map(e => describeEffect(e, gameData)).join('; ') || 'no effects'}</p>
+                                            <p className="text-xs text-gray-400">Waiting for the current player to roll.</p>
+                                        </div>
+                                        <button onClick={() => dispatch({ type: 'SET_PENDING_SKILL_CHECK', payload: null })} className="px-3 py-1 bg-red-600 hover:bg-red-700 rounded-md text-sm font-bold">Cancel</button>
+                                    </div>
+                                ) : (
+                                    <div className="bg-accent p-4 rounded-lg space-y-3">
+                                        <h4 className="font-bold">Call for a Skill Check</h4>
+                                        <div className="flex gap-2">
+                                            <select value={checkStat} onChange={e => setCheckStat(e.target.value as StatName)} className="flex-1 p-2 bg-primary rounded-md">
+                                                {STAT_NAMES.map(stat => <option key={stat} value={stat}>{STAT_LABELS[stat]}</option>)}
+                                            </select>
+                                            <label className="flex items-center gap-2 text-sm">DC
+                                                <input type="number" min={1} value={checkDc} onChange={e => setCheckDc(parseInt(e.target.value) || 0)} className="w-20 p-2 bg-primary rounded-md"/>
+                                            </label>
+                                        </div>
+                                        <input type="text" placeholder="What is being attempted? (Optional)" value={checkDescription} onChange={e => setCheckDescription(e.target.value)} className="w-full p-2 bg-primary rounded-md"/>
+                                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                                            <div>
+                                                <h5 className="text-sm font-bold mb-1">On Success</h5>
+                                                <EffectListEditor effects={checkSuccess} onChange={setCheckSuccess} gameData={gameData} />
+                                            </div>
+                                            <div>
+                                                <h5 className="text-sm font-bold mb-1">On Failure</h5>
+                                                <EffectListEditor effects={checkFailure} onChange={setCheckFailure} gameData={gameData} />
+                                            </div>
+                                        </div>
+                                        <button onClick={handleCallSkillCheck} className="w-full p-2 bg-highlight text-white font-bold rounded-lg hover:bg-opacity-80">Call Check</button>
+                                        <p className="text-xs text-gray-400">The current player rolls a d20 plus their character's {STAT_LABELS[checkStat]} modifier. Coins and items go to that player.</p>
+                                    </div>
+                                )}
+                            </div>
+                            <div>
+                                <h3 className="text-xl font-semibold text-highlight mb-2">Story Variables</h3>
+                                <div className="bg-accent p-4 rounded-lg space-y-3">
+                                    <div className="space-y-1">
+                                        {(gameData.variables || []).length === 0 && <p className="text-sm text-gray-400 italic">No variables yet.</p>}
+                                        {(gameData.variables || []).map(variable => (
+                                            <div key={variable.name} className="flex items-center gap-2 bg-primary p-2 rounded-md">
+                                                <span className="flex-1 font-mono truncate" title={VARIABLE_TYPE_LABELS[variable.type]}>{variable.name}</span>
+                                                {renderVariableValueControl(variable)}
+                                                <label className="flex items-center gap-1 text-xs text-gray-400" title="Hidden variables are only shown to the GM">
+                                                    <input type="checkbox" checked={variable.hidden} onChange={e => dispatch({ type: 'DEFINE_VARIABLE', payload: { ...variable, hidden: e.target.checked } })}/>
+                                                    Hidden
+                                                </label>
+                                                <button onClick={() => dispatch({ type: 'DELETE_VARIABLE', payload: { name: variable.name } })} className="text-red-500 hover:text-red-400 font-bold px-1" title="Delete variable">×</button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <div className="flex gap-2 items-center">
+                                        <input type="text" placeholder="e.g. met_the_king" value={newVariableName} onChange={e => setNewVariableName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleDefineVariable()} className="flex-1 min-w-0 p-2 bg-primary rounded-md"/>
+                                        <select value={newVariableType} onChange={e => setNewVariableType(e.target.value as StoryVariable['type'])} className="p-2 bg-primary rounded-md">
+                                            {Object.entries(VARIABLE_TYPE_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+                                        </select>
+                                        <label className="flex items-center gap-1 text-sm">
+                                            <input type="checkbox" checked={newVariableHidden} onChange={e => setNewVariableHidden(e.target.checked)}/>
+                                            Hidden
+                                        </label>
+                                        <button onClick={handleDefineVariable} className="px-4 py-2 bg-highlight text-white font-bold rounded-lg hover:bg-opacity-80">Add</button>
+                                    </div>
+                                    <p className="text-xs text-gray-400">Variables remember story facts. Choices can require a flag and can change variables; every change is written to the story log.</p>
+                                </div>
+                            </div>
                             <div>
                                 <h3 className="text-xl font-semibold text-highlight mb-2">Quests</h3>
                                 <div className="bg-accent p-4 rounded-lg space-y-3 mb-4">
@@ -520,7 +480,10 @@ const GMMenu: React.FC<GMMenuProps> = ({ isOpen, onClose, gameData, dispatch, ga
                                     {gameData.quests.filter(q => q.status === 'active').map(quest => (
                                         <div key={quest.id} className="bg-accent p-2 rounded flex justify-between items-center mb-1">
                                             <span>{quest.title}</span>
-                                            <button onClick={() => handleUpdateQuestStatus(quest.id, 'completed')} className="px-2 py-1 text-xs bg-green-600 hover:bg-green-700 rounded">Complete</button>
+                                            <div className="flex gap-1">
+                                                <button onClick={() => handleUpdateQuestStatus(quest.id, 'completed')} className="px-2 py-1 text-xs bg-green-600 hover:bg-green-700 rounded">Complete</button>
+                                                <button onClick={() => handleUpdateQuestStatus(quest.id, 'failed')} className="px-2 py-1 text-xs bg-red-600 hover:bg-red-700 rounded">Fail</button>
+                                            </div>
                                         </div>
                                     ))}
                                 </div>
@@ -535,6 +498,8 @@ const GMMenu: React.FC<GMMenuProps> = ({ isOpen, onClose, gameData, dispatch, ga
                                     <label className="px-4 py-2 bg-accent hover:bg-opacity-75 rounded-md cursor-pointer">Upload Background <input type="file" className="hidden" accept="image/*" onChange={e => handleFileChange(e, 'background')} /></label>
                                     <label className="px-4 py-2 bg-accent hover:bg-opacity-75 rounded-md cursor-pointer">Upload Sprite <input type="file" className="hidden" accept="image/*,.webp" onChange={e => handleFileChange(e, 'characterSprite')} /></label>
                                     <label className="px-4 py-2 bg-accent hover:bg-opacity-75 rounded-md cursor-pointer">Upload CG <input type="file" className="hidden" accept="image/*" onChange={e => handleFileChange(e, 'cg')} /></label>
+                                    <label className="px-4 py-2 bg-accent hover:bg-opacity-75 rounded-md cursor-pointer">Upload Music <input type="file" className="hidden" accept="audio/*" onChange={e => handleFileChange(e, 'music')} /></label>
+                                    <label className="px-4 py-2 bg-accent hover:bg-opacity-75 rounded-md cursor-pointer">Upload Sound Effect <input type="file" className="hidden" accept="audio/*" onChange={e => handleFileChange(e, 'sfx')} /></label>
                                 </div>
                             </div>
                             <div>
@@ -543,7 +508,7 @@ const GMMenu: React.FC<GMMenuProps> = ({ isOpen, onClose, gameData, dispatch, ga
                                     <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
                                         <div className="md:col-span-2 grid grid-cols-2 gap-2">
                                         <div>
-                                            <label htmlFor="asset-url-gm" className="text-xs text-gray-400 block mb-1">Image URL</label>
+                                            <label htmlFor="asset-url-gm" className="text-xs text-gray-400 block mb-1">File URL</label>
                                             <input
                                             id="asset-url-gm"
                                             type="url"
@@ -577,6 +542,8 @@ const GMMenu: React.FC<GMMenuProps> = ({ isOpen, onClose, gameData, dispatch, ga
                                                     <option value="background">Background</option>
                                                     <option value="characterSprite">Sprite</option>
                                                     <option value="cg">CG</option>
+                                                    <option value="music">Music</option>
+                                                    <option value="sfx">Sound Effect</option>
                                                 </select>
                                             </div>
                                             <button
@@ -611,9 +578,9 @@ const GMMenu: React.FC<GMMenuProps> = ({ isOpen, onClose, gameData, dispatch, ga
                                         >
                                             &times;
                                         </button>
-                                        <img src={asset.url} alt={asset.name} className="w-full h-32 object-cover rounded-md mb-2 cursor-pointer" onClick={() => onPreviewAsset(asset)} />
+                                        <AssetThumbnail asset={asset} className="w-full h-32 rounded-md mb-2" onPreview={onPreviewAsset} />
                                         <p className="text-sm truncate" title={asset.name}>{asset.name}</p>
-                                        <p className="text-xs text-gray-400 capitalize">{asset.type.replace('Sprite', ' Sprite')}</p>
+                                        <p className="text-xs text-gray-400">{ASSET_TYPE_LABELS[asset.type]}</p>
                                     </div>
                                 ))}
                             </div>
@@ -621,6 +588,12 @@ const GMMenu: React.FC<GMMenuProps> = ({ isOpen, onClose, gameData, dispatch, ga
                     )}
                     {activeTab === 'characters' && (
                         <div className="space-y-4">
+                            {narrator && (
+                                <div className="bg-accent p-4 rounded-lg">
+                                    <h4 className="text-sm font-semibold mb-1">Narrator Voice</h4>
+                                    <CharacterVoicePicker voice={narrator.ttsVoice} onChange={ttsVoice => updateCharacter({ ...narrator, ttsVoice })} sampleText="The story begins." />
+                                </div>
+                            )}
                             {gameData.characters.filter(c => c.id !== 'narrator').map(char => (
                                 <CharacterEditor 
                                     key={char.id}
@@ -659,18 +632,27 @@ const GMMenu: React.FC<GMMenuProps> = ({ isOpen, onClose, gameData, dispatch, ga
                                     const asset = gameData.assets.find(a => a.id === approval.assetId);
                                     const player = gameData.players.find(p => p.id === approval.submittingPlayerId);
                                     const character = gameData.characters.find(c => c.id === approval.characterIdToAssign);
+                                    const line = gameData.storyLog.find(e => e.type === 'dialogue' && e.pendingVoiceAssetId === approval.assetId);
                                     if (!asset) return null;
                                     return (
                                         <div key={asset.id} className="bg-accent p-3 rounded-lg flex items-center gap-4">
-                                            <img src={asset.url} alt={asset.name} className="w-16 h-16 object-cover rounded-md cursor-pointer" onClick={() => onPreviewAsset(asset)} />
+                                            {asset.type === 'voice'
+                                                ? <audio src={asset.url} controls className="w-48 h-10" aria-label={asset.name} />
+                                                : <img src={asset.url} alt={asset.name} className="w-16 h-16 object-cover rounded-md cursor-pointer" onClick={() => onPreviewAsset(asset)} />}
                                             <div className="flex-1">
                                                 <p className="font-bold">{asset.name}</p>
                                                 <p className="text-xs text-gray-300">
                                                     Submitted by: <span className="font-semibold">{player?.name || 'Unknown'}</span>
                                                 </p>
-                                                 <p className="text-xs text-gray-300">
-                                                    For Character: <span className="font-semibold">{character?.name || 'Unknown'}</span>
-                                                </p>
+                                                {asset.type === 'voice' ? (
+                                                    <p className="text-xs text-gray-300">
+                                                        Voice for: <span className="italic">{line?.type === 'dialogue' ? `${character?.name || 'Unknown'}: "${stripDialogueMarkup(line.text)}"` : 'a line that no longer exists'}</span>
+                                                    </p>
+                                                ) : (
+                                                    <p className="text-xs text-gray-300">
+                                                        For Character: <span className="font-semibold">{character?.name || 'Unknown'}</span>
+                                                    </p>
+                                                )}
                                             </div>
                                             <div className="flex flex-col gap-2">
                                                 <button onClick={() => dispatch({type: 'APPROVE_ASSET', payload: approval})} className="px-3 py-1 bg-green-600 hover:bg-green-700 rounded-md text-sm">Approve</button>
@@ -685,8 +667,55 @@ const GMMenu: React.FC<GMMenuProps> = ({ isOpen, onClose, gameData, dispatch, ga
                     )}
                     {activeTab === 'export' && (
                         <div>
+                            <h3 className="text-lg font-semibold text-highlight mb-2">Game Archive</h3>
+                            <p className="mb-4 text-gray-400">Save the whole game, including every asset, as a <span className="font-mono">{ARCHIVE_EXTENSION}</span> file. You can load it again later to back up a campaign, hand it to another GM or keep playing offline.</p>
+                            <div className="flex flex-wrap gap-4 mb-8">
+                                <button onClick={handleExportArchive} disabled={isArchiving} className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-md transition-colors disabled:bg-gray-600">
+                                    {isArchiving ? 'Saving Archive...' : 'Download Game Archive'}
+                                </button>
+                                <label className="px-6 py-3 bg-accent hover:bg-opacity-75 text-white font-bold rounded-md cursor-pointer">
+                                    Import Game Archive
+                                    <input type="file" className="hidden" accept={ARCHIVE_EXTENSION} onChange={(e) => {
+                                        const file = e.target.files?.[0];
+                                        e.target.value = '';
+                                        if (file && window.confirm('Importing an archive will replace the current game. Continue?')) {
+                                            onImportArchive(file);
+                                        }
+                                    }} />
+                                </label>
+                            </div>
+
+                            <h3 className="text-lg font-semibold text-highlight mb-2">Ren'Py Project</h3>
+                            <p className="mb-4 text-gray-400">Turn the story so far into a Ren'Py script, with the images it shows in an <span className="font-mono">images/</span> folder. Unzip it into your Ren'Py projects folder to open it in the Ren'Py launcher.</p>
+                            <button onClick={handleExportRenpy} disabled={isExportingRenpy} className="mb-8 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-md transition-colors disabled:bg-gray-600">
+                                {isExportingRenpy ? 'Exporting...' : "Download Ren'Py Project"}
+                            </button>
+
+                            <h3 className="text-lg font-semibold text-highlight mb-2">HTML Story Player</h3>
+                            <p className="mb-4 text-gray-400">Save the story so far as a single web page with its images inside. It opens in any browser without a connection: click or press Space to advance, and open the backlog or the choice history at any time.</p>
+                            <button onClick={handleExportHtml} disabled={isExportingHtml} className="mb-8 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-md transition-colors disabled:bg-gray-600">
+                                {isExportingHtml ? 'Exporting...' : 'Download HTML Player'}
+                            </button>
+
+                            <h3 className="text-lg font-semibold text-highlight mb-2">Story Book</h3>
+                            <p className="mb-4 text-gray-400">Write the story so far as a book, with a chapter for each new location. Dialogue is credited to each character, choices stand out as callouts, and rolls, checks and quest updates appear as side notes. The EPUB holds its images; the Markdown file links to them.</p>
+                            <div className="flex flex-wrap gap-4 mb-8">
+                                <button onClick={handleExportEpub} disabled={isExportingEpub} className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-md transition-colors disabled:bg-gray-600">
+                                    {isExportingEpub ? 'Exporting...' : 'Download EPUB'}
+                                </button>
+                                <button onClick={() => downloadMarkdownTranscript(gameData)} className="px-6 py-3 bg-accent hover:bg-opacity-75 text-white font-bold rounded-md transition-colors">
+                                    Download Markdown
+                                </button>
+                            </div>
+
+                            <h3 className="text-lg font-semibold text-highlight mb-2">Fountain Screenplay</h3>
+                            <p className="mb-4 text-gray-400">Write the story so far as a <span className="font-mono">.fountain</span> screenplay. Each background starts a scene, the narrator's lines become action, and choices and rolls become notes. Open it in any Fountain editor, such as Highland, Slugline or Fade In.</p>
+                            <button onClick={() => downloadFountainScript(gameData)} className="mb-8 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-md transition-colors">
+                                Download Fountain Script
+                            </button>
+
                             <h3 className="text-lg font-semibold text-highlight mb-2">Game Export</h3>
-                            <p className="mb-4 text-gray-400">This will render the entire game story into a video file and download it to your computer. This may take a few moments.</p>
+                            <p className="mb-4 text-gray-400">This will render the entire game story into a video file and download it to your computer. Frames are encoded as fast as your device allows, so you can keep using other tabs meanwhile.</p>
                             
                             <div className="bg-accent p-4 rounded-lg mb-4 space-y-3">
                                 <h4 className="font-bold text-lg">Video Settings</h4>
@@ -705,6 +734,33 @@ const GMMenu: React.FC<GMMenuProps> = ({ isOpen, onClose, gameData, dispatch, ga
                                     </select>
                                     <p className="text-xs text-gray-400 mt-1">Higher quality results in a larger file size.</p>
                                 </div>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    <div>
+                                        <label htmlFor="video-aspect-ratio" className="block text-sm font-medium text-gray-300">Aspect Ratio</label>
+                                        <select
+                                            id="video-aspect-ratio"
+                                            value={videoAspectRatio}
+                                            onChange={e => setVideoAspectRatio(e.target.value)}
+                                            className="mt-1 w-full p-2 bg-primary rounded-md"
+                                        >
+                                            {Object.entries(VIDEO_ASPECT_RATIOS).map(([key, ratio]) => <option key={key} value={key}>{ratio.label}</option>)}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label htmlFor="video-resolution" className="block text-sm font-medium text-gray-300">Resolution</label>
+                                        <select
+                                            id="video-resolution"
+                                            value={videoResolution}
+                                            onChange={e => setVideoResolution(parseInt(e.target.value, 10))}
+                                            className="mt-1 w-full p-2 bg-primary rounded-md"
+                                        >
+                                            {VIDEO_RESOLUTIONS.map(resolution => {
+                                                const size = getVideoSize(videoAspectRatio, resolution);
+                                                return <option key={resolution} value={resolution}>{resolution}p ({size.width}×{size.height})</option>;
+                                            })}
+                                        </select>
+                                    </div>
+                                </div>
                             </div>
                             
                             <div className="bg-accent p-4 rounded-lg mb-4 space-y-3">
@@ -738,20 +794,41 @@ const GMMenu: React.FC<GMMenuProps> = ({ isOpen, onClose, gameData, dispatch, ga
                                 </div>
                             </div>
                             
-                            <button onClick={handleExportVideo} disabled={isExporting} className="px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white font-bold rounded-md transition-colors disabled:bg-gray-600">
-                                {isExporting ? `Exporting... ${Math.round(exportProgress)}%` : 'Export Game as Video'}
-                            </button>
+                            <div className="bg-accent p-4 rounded-lg mb-4 space-y-3">
+                                <h4 className="font-bold text-lg">Subtitles</h4>
+                                <label className="flex items-center gap-2 text-sm text-gray-300">
+                                    <input type="checkbox" checked={includeSubtitles} onChange={e => setIncludeSubtitles(e.target.checked)} />
+                                    Also download captions (.srt and .vtt) timed to the video
+                                </label>
+                                <p className="text-xs text-gray-400">Each line is labelled with its speaker. Upload them with the video for closed captions or translation.</p>
+                            </div>
+                            
+                            <div className="flex flex-wrap gap-4">
+                                <button onClick={handleExportVideo} disabled={isExporting} className="px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white font-bold rounded-md transition-colors disabled:bg-gray-600">
+                                    {isExporting ? 'Exporting...' : 'Export Game as Video'}
+                                </button>
+                                {isExporting && (
+                                    <button onClick={() => exportAbortRef.current?.abort()} className="px-6 py-3 bg-red-600 hover:bg-red-700 text-white font-bold rounded-md transition-colors">
+                                        Cancel
+                                    </button>
+                                )}
+                                <button onClick={handleDownloadSubtitles} disabled={isDownloadingSubtitles} className="px-6 py-3 bg-accent hover:bg-opacity-75 text-white font-bold rounded-md transition-colors disabled:bg-gray-600">
+                                    {isDownloadingSubtitles ? 'Preparing...' : 'Download Subtitles Only'}
+                                </button>
+                            </div>
                              {isExporting && (
                                 <div className="mt-4">
                                     <div className="w-full bg-accent rounded-full h-2.5">
-                                        <div className="bg-purple-600 h-2.5 rounded-full" style={{width: `${exportProgress}%`}}></div>
+                                        <div className="bg-purple-600 h-2.5 rounded-full" style={{width: `${exportFrames ? (exportFrames.encoded / exportFrames.total) * 100 : 0}%`}}></div>
                                     </div>
+                                    <p className="text-xs text-gray-400 mt-1">
+                                        {exportFrames ? `Encoded frame ${exportFrames.encoded} of ${exportFrames.total}` : 'Loading images...'}
+                                    </p>
                                 </div>
                             )}
                         </div>
                     )}
                 </div>
-                <canvas ref={canvasRef} style={{ display: 'none' }}></canvas>
             </div>
         </div>
     );
@@ -1,50 +1,132 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GameData, Player, Character, DialogueLogEntry, ChoiceLogEntry, StoryLogEntry, Asset, AssetType, Quest, GameMode, ChatMessage, Choice } from '../types';
+import { GameData, Player, Character, DialogueLogEntry, ChoiceLogEntry, DiceRollLogEntry, SkillCheckLogEntry, StoryLogEntry, Asset, AssetType, Quest, GameMode, ChatMessage, Choice, ChoiceRequirement, QuestStatus, StatName, SpriteStaging, StagePosition, SceneTransition, ScreenEffect } from '../types';
 import { Action } from '../state/reducer';
 import { NARRATOR_CHARACTER } from '../constants';
 import ChatView from './ChatView';
+import { verifyDiceRoll, MAX_DICE_SIDES } from '../services/diceService';
+import { parseDiceExpression, formatDiceTerms } from '../services/diceNotation';
+import { verifySkillCheck, formatSkillCheck, getStatModifier, formatModifier, STAT_LABELS, STAT_NAMES } from '../services/skillCheckService';
+import { getLockReason, isCompleteRequirement } from '../state/choiceRequirements';
+import { formatVariableValue } from '../state/variables';
+import { isCompleteEffect } from '../state/effects';
+import EffectListEditor from './EffectListEditor';
+import VoiceClipInput, { VoiceClip } from './VoiceClipInput';
+import DialogueText, { Typewriter } from './DialogueText';
+import { TRANSITION_MS, SCREEN_EFFECT_MS, TRANSITION_LABELS, SCREEN_EFFECT_LABELS, getTransitionFrame, getScreenEffectFrame, NO_SCREEN_EFFECT, TransitionFrame } from '../state/transitions';
+import { SceneState, EMPTY_SCENE, reduceScene, layoutSprites, SpriteLayout, getStageX, DEFAULT_SPRITE_STAGING, SPRITE_SCALE_RANGE, MAX_SPRITE_LAYER } from '../state/scene';
+import { createStoryAudio, StoryAudio } from '../services/storyAudio';
+import { isSpeechSupported, speakLine, stopSpeaking } from '../services/speechService';
+import { stripDialogueMarkup, parseDialogueMarkup, getTypingDurationMs, MARKUP_HELP } from '../services/dialogueMarkup';
+import { ReadingSettings, TEXT_SPEEDS, SKIP_LINE_MS, getAutoAdvanceDelayMs } from '../state/reading';
 
-// --- Types for Scene State ---
-interface SceneState {
-  backgroundAssetId: string | null;
-  cgAssetId: string | null;
-  sprites: { [characterId: string]: string | null }; // Value is assetId
-  dialogue: { characterName: string; text: string } | null;
-}
+const DICE_PRESETS = ['1d20', '1d20 adv', '1d20 dis', '2d6', '4d6kh3', '1d100'];
 
 const findAssetUrl = (assets: Asset[], id: string | null): string | null => {
     if (!id) return null;
     return assets.find(a => a.id === id)?.url || null;
 }
 
-const Visuals: React.FC<{ scene: SceneState; characters: Character[]; assets: Asset[]; onClick?: () => void; isPlayingBack?: boolean }> = ({ scene, characters, assets, onClick, isPlayingBack }) => {
-    const bgUrl = findAssetUrl(assets, scene.backgroundAssetId);
-    const cgUrl = findAssetUrl(assets, scene.cgAssetId);
+// Screen effects set off together, timed from performance.now().
+export interface ScreenEffectCue {
+    effects: ScreenEffect[];
+    startedAt: number;
+}
+
+// Where catch-up playback has stopped to wait for the viewer, timed from performance.now().
+interface PlaybackStop {
+    logIndex: number; // In the entries being played.
+    text: string | null; // The line shown, if any.
+    startedAt: number;
+    isRevealed: boolean; // Shown in full by a click before it finished typing out.
+    wasSeen: boolean; // Already shown on this screen, so skipping passes over it.
+}
+
+// An image layer swapping to a new image, timed from performance.now().
+interface LayerSwap {
+    from: string | null;
+    to: string | null;
+    transition: SceneTransition;
+    startedAt: number;
+}
+
+// Tracks the image a layer shows, remembering the one it replaced for as long as the transition runs.
+const useLayerSwap = (url: string | null, transition: SceneTransition): LayerSwap => {
+    const [swap, setSwap] = useState<LayerSwap>({ from: url, to: url, transition: 'cut', startedAt: 0 });
+    if (swap.to === url) return swap;
+    const next = { from: swap.to, to: url, transition, startedAt: performance.now() };
+    setSwap(next);
+    return next;
+};
+
+// Re-renders every animation frame while running.
+const useAnimationFrames = (isRunning: boolean) => {
+    const [, setFrameTime] = useState(0);
+    useEffect(() => {
+        if (!isRunning) return;
+        let frame = requestAnimationFrame(function tick(time) {
+            setFrameTime(time);
+            frame = requestAnimationFrame(tick);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [isRunning]);
+};
+
+const LayerImages: React.FC<{ swap: LayerSwap; frame: TransitionFrame | null; alt: string; className: string }> = ({ swap, frame, alt, className }) => {
+    if (!frame) return swap.to ? <img src={swap.to} alt={alt} className={className} /> : null;
+    return <>
+        {swap.from && <img src={swap.from} alt="" className={className} style={{ opacity: frame.outgoingOpacity }} />}
+        {swap.to && <img src={swap.to} alt={alt} className={className} style={{ opacity: frame.incomingOpacity, clipPath: `inset(0 ${(1 - frame.incomingReveal) * 100}% 0 0)` }} />}
+    </>;
+};
 
-    const activeSprites = Object.entries(scene.sprites)
-      .map(([charId, assetId]) => {
-        const url = findAssetUrl(assets, assetId);
-        const character = characters.find(c => c.id === charId);
-        return url && character ? { url, name: character.name } : null;
+export const Visuals: React.FC<{ scene: SceneState; characters: Character[]; assets: Asset[]; onClick?: () => void; isPlayingBack?: boolean; screenEffects?: ScreenEffectCue | null; typewriter?: Typewriter | null }> = ({ scene, characters, assets, onClick, isPlayingBack, screenEffects, typewriter }) => {
+    const bgSwap = useLayerSwap(findAssetUrl(assets, scene.backgroundAssetId), scene.backgroundTransition);
+    const cgSwap = useLayerSwap(findAssetUrl(assets, scene.cgAssetId), scene.cgTransition);
+    const now = performance.now();
+    useAnimationFrames(
+        now - bgSwap.startedAt < (TRANSITION_MS[bgSwap.transition] || 0)
+        || now - cgSwap.startedAt < (TRANSITION_MS[cgSwap.transition] || 0)
+        || (!!screenEffects && now - screenEffects.startedAt < Math.max(0, ...screenEffects.effects.map(e => SCREEN_EFFECT_MS[e] || 0)))
+    );
+    const bgFrame = getTransitionFrame(bgSwap.transition, now - bgSwap.startedAt);
+    const cgFrame = getTransitionFrame(cgSwap.transition, now - cgSwap.startedAt);
+    const camera = (screenEffects && getScreenEffectFrame(screenEffects.effects, now - screenEffects.startedAt)) || NO_SCREEN_EFFECT;
+    const blackOpacity = Math.max(bgFrame?.blackOpacity || 0, cgFrame?.blackOpacity || 0);
+
+    const activeSprites = layoutSprites(scene.sprites)
+      .map(layout => {
+        const url = findAssetUrl(assets, layout.assetId);
+        const character = characters.find(c => c.id === layout.characterId);
+        return url && character ? { ...layout, url, name: character.name } : null;
       })
-      .filter((s): s is { url: string; name: string } => s !== null);
+      .filter((s): s is SpriteLayout & { url: string; name: string } => s !== null);
 
     return (
         <div onClick={onClick} className={`aspect-video bg-black rounded-lg shadow-2xl overflow-hidden relative flex-1 transition-all duration-500 ${isPlayingBack ? 'cursor-pointer' : ''}`}>
-             {bgUrl && <img src={bgUrl} alt="background" className="absolute top-0 left-0 w-full h-full object-cover transition-opacity duration-1000" style={{opacity: bgUrl ? 1 : 0}} />}
+             <div className="absolute inset-0" style={{ transform: `translate(${camera.offsetX * 100}%, ${camera.offsetY * 100}%) scale(${camera.zoom})` }}>
+                 <LayerImages swap={bgSwap} frame={bgFrame} alt="background" className="absolute top-0 left-0 w-full h-full object-cover" />
              
-             <div className="absolute bottom-0 left-0 w-full h-4/5 flex justify-center items-end">
-                {activeSprites.map((sprite, index) => (
-                    <img key={index} src={sprite.url} alt={sprite.name} className="h-full object-contain transition-all duration-500 mx-4" />
-                ))}
-             </div>
+                 <div className="absolute inset-0">
+                    {activeSprites.map(sprite => (
+                        <img
+                            key={sprite.characterId}
+                            src={sprite.url}
+                            alt={sprite.name}
+                            className="absolute bottom-0 max-w-none object-contain transition-all duration-500"
+                            style={{ left: `${sprite.x * 100}%`, height: `${sprite.height * 100}%`, transform: `translateX(-50%)${sprite.flipped ? ' scaleX(-1)' : ''}` }}
+                        />
+                    ))}
+                 </div>
              
-             {cgUrl && <img src={cgUrl} alt="cg" className="absolute top-0 left-0 w-full h-full object-contain bg-black bg-opacity-75 transition-opacity duration-500" style={{opacity: cgUrl ? 1 : 0}} />}
+                 <LayerImages swap={cgSwap} frame={cgFrame} alt="cg" className="absolute top-0 left-0 w-full h-full object-contain bg-black bg-opacity-75" />
+             </div>
+             {blackOpacity > 0 && <div className="absolute inset-0 bg-black" style={{ opacity: blackOpacity }} />}
+             {camera.flashOpacity > 0 && <div className="absolute inset-0 bg-white" style={{ opacity: camera.flashOpacity }} />}
 
              {scene.dialogue && (
                 <div className="absolute bottom-0 left-0 w-full bg-black bg-opacity-70 p-4 border-t-2 border-accent">
                     <p className="font-bold text-highlight mb-1">{scene.dialogue.characterName}</p>
-                    <p className="text-lg text-light leading-snug">{scene.dialogue.text}</p>
+                    <p className="text-lg text-light leading-snug"><DialogueText text={scene.dialogue.text} showEffects typewriter={typewriter} /></p>
                 </div>
              )}
              {isPlayingBack && (
@@ -58,21 +140,46 @@ const Visuals: React.FC<{ scene: SceneState; characters: Character[]; assets: As
     );
 };
 
-const HistoryLogContent: React.FC<{ gameData: GameData }> = ({ gameData }) => {
+// onEditVoice lets the viewer attach or replace the voice clips of lines.
+export const HistoryLogContent: React.FC<{ gameData: GameData, showHiddenVariables: boolean, onEditVoice?: (logIndex: number) => void }> = ({ gameData, showHiddenVariables, onEditVoice }) => {
     const logEndRef = useRef<HTMLDivElement>(null);
+    const voiceRef = useRef<HTMLAudioElement | null>(null);
+    const [rollAudits, setRollAudits] = useState<Record<number, boolean | null>>({});
     useEffect(() => {
         logEndRef.current?.scrollIntoView({ behavior: "smooth" });
     }, [gameData.storyLog]);
 
     const getCharacter = (id: string) => gameData.characters.find(c => c.id === id);
 
+    const handlePlayVoice = (assetId: string) => {
+        const url = findAssetUrl(gameData.assets, assetId);
+        if (!url) return;
+        voiceRef.current?.pause();
+        voiceRef.current = new Audio(url);
+        voiceRef.current.play().catch(error => console.warn("Voice clip playback was blocked by the browser.", error));
+    };
+
+    useEffect(() => () => voiceRef.current?.pause(), []);
+
+    const handleVerifyRoll = async (index: number, entry: DiceRollLogEntry | SkillCheckLogEntry) => {
+        const verified = entry.type === 'skill_check' ? await verifySkillCheck(entry) : await verifyDiceRoll(entry);
+        setRollAudits(prev => ({ ...prev, [index]: verified }));
+    };
+
     return (
         <div className="flex-1 overflow-y-auto space-y-3 pr-2">
             {gameData.storyLog.map((log, index) => {
                 let content;
                 switch (log.type) {
                     case 'dialogue':
-                        content = <p><span className="font-bold text-blue-400">{getCharacter(log.characterId)?.name || 'Unknown'}:</span> {log.text}</p>;
+                        content = (
+                            <p>
+                                <span className="font-bold text-blue-400">{getCharacter(log.characterId)?.name || 'Unknown'}:</span> <DialogueText text={log.text} />
+                                {log.voiceAssetId && <button onClick={() => handlePlayVoice(log.voiceAssetId!)} className="ml-2 text-xs text-blue-400 hover:text-blue-300" title="Play voice clip">🔈</button>}
+                                {log.pendingVoiceAssetId && <span className="ml-2 text-xs text-gray-500" title="Voice clip waiting for the GM's approval">⏳</span>}
+                                {onEditVoice && <button onClick={() => onEditVoice(index)} className="ml-2 text-xs text-gray-400 hover:text-white" title={log.voiceAssetId ? 'Change voice clip' : 'Add voice clip'}>🎙️</button>}
+                            </p>
+                        );
                         break;
                     case 'choice':
                         content = (
@@ -93,12 +200,35 @@ const HistoryLogContent: React.FC<{ gameData: GameData }> = ({ gameData }) => {
                         );
                         break;
                     case 'dice_roll':
-                        content = <p className="text-gray-400 italic">{getCharacter(log.characterId)?.name} rolled a d{log.sides} and got: <span className="font-bold text-white">{log.result}</span></p>;
+                        const audit = rollAudits[index];
+                        content = (
+                            <p className="text-gray-400 italic">
+                                {getCharacter(log.characterId)?.name} rolled <span className="font-mono not-italic">{log.expression}</span>: {formatDiceTerms(log)} = <span className="font-bold text-white">{log.result}</span>
+                                {log.seed && audit === undefined && <button onClick={() => handleVerifyRoll(index, log)} className="ml-2 text-xs not-italic text-blue-400 hover:text-blue-300" title={`Seed: ${log.seed}`}>verify</button>}
+                                {audit === true && <span className="ml-2 text-xs not-italic text-green-400" title={`Seed: ${log.seed}`}>✓ verified</span>}
+                                {audit === false && <span className="ml-2 text-xs not-italic text-red-400" title={`Seed: ${log.seed}`}>✗ does not match its seed</span>}
+                            </p>
+                        );
+                        break;
+                    case 'skill_check':
+                        const checkAudit = rollAudits[index];
+                        content = (
+                            <p className={`italic ${log.success ? 'text-green-300' : 'text-red-300'}`}>
+                                {getCharacter(log.characterId)?.name} attempted a {formatSkillCheck(log)}
+                                {checkAudit === undefined && <button onClick={() => handleVerifyRoll(index, log)} className="ml-2 text-xs not-italic text-blue-400 hover:text-blue-300" title={`Seed: ${log.seed}`}>verify</button>}
+                                {checkAudit === true && <span className="ml-2 text-xs not-italic text-green-400" title={`Seed: ${log.seed}`}>✓ verified</span>}
+                                {checkAudit === false && <span className="ml-2 text-xs not-italic text-red-400" title={`Seed: ${log.seed}`}>✗ does not match its seed</span>}
+                            </p>
+                        );
                         break;
                     case 'quest_status':
                         content = <p className="text-green-400 font-semibold">{log.text}</p>;
                         break;
                     case 'stat_change':
+                        if (log.variableChange?.hidden && !showHiddenVariables) {
+                            content = null;
+                            break;
+                        }
                         content = <p className="text-teal-400 italic">{log.text}</p>;
                         break;
                     default:
@@ -111,16 +241,22 @@ const HistoryLogContent: React.FC<{ gameData: GameData }> = ({ gameData }) => {
     );
 };
 
-const StatusContent: React.FC<{gameData: GameData}> = ({gameData}) => {
+export const StatusContent: React.FC<{gameData: GameData, showHiddenVariables: boolean}> = ({gameData, showHiddenVariables}) => {
+    const variables = (gameData.variables || []).filter(v => showHiddenVariables || !v.hidden);
     return (
         <div className="flex-1 overflow-y-auto pr-2">
             <div className="mb-4">
                 <h3 className="font-bold text-purple-400 mb-2">Player Coins</h3>
                 <div className="space-y-1 text-sm">
                     {gameData.players.map(player => (
-                        <div key={player.id} className="flex justify-between bg-accent p-2 rounded-md">
-                            <span className="font-semibold">{player.name}</span>
-                            <span className="text-yellow-400 font-mono">{player.coins || 0} 💰</span>
+                        <div key={player.id} className="bg-accent p-2 rounded-md">
+                            <div className="flex justify-between">
+                                <span className="font-semibold">{player.name}</span>
+                                <span className="text-yellow-400 font-mono">{player.coins || 0} 💰</span>
+                            </div>
+                            {(player.inventory || []).length > 0 && (
+                                <p className="text-xs text-gray-300 mt-1">🎒 {(player.inventory || []).map(item => item.quantity > 1 ? `${item.name} ×${item.quantity}` : item.name).join(', ')}</p>
+                            )}
                         </div>
                     ))}
                 </div>
@@ -159,13 +295,27 @@ const StatusContent: React.FC<{gameData: GameData}> = ({gameData}) => {
                 </div>
             </div>
 
+            {variables.length > 0 && (
+                <div className="mb-4">
+                    <h3 className="font-bold text-purple-400 mb-2">Story Variables</h3>
+                    <div className="space-y-1 text-sm">
+                        {variables.map(variable => (
+                            <div key={variable.name} className={`flex justify-between bg-accent p-2 rounded-md ${variable.hidden ? 'opacity-60' : ''}`}>
+                                <span className="font-mono truncate">{variable.name}{variable.hidden && <span className="ml-2 text-xs text-gray-400">(hidden)</span>}</span>
+                                <span className="font-mono text-teal-400 ml-2">{formatVariableValue(variable.value)}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             <div>
                 <h3 className="font-bold text-purple-400 mb-2">Quest Log</h3>
                 <div className="space-y-2">
                     {gameData.quests.map(quest => (
                         <details key={quest.id} className="bg-accent p-2 rounded-lg text-sm">
                             <summary className="cursor-pointer font-semibold">
-                                {quest.title} <span className={`text-xs ${quest.status === 'completed' ? 'text-green-400' : 'text-yellow-400'}`}>({quest.status})</span>
+                                {quest.title} <span className={`text-xs ${quest.status === 'completed' ? 'text-green-400' : quest.status === 'failed' ? 'text-red-400' : 'text-yellow-400'}`}>({quest.status})</span>
                             </summary>
                             <p className="text-xs text-gray-300 mt-1">{quest.description}</p>
                         </details>
@@ -177,44 +327,97 @@ const StatusContent: React.FC<{gameData: GameData}> = ({gameData}) => {
     );
 }
 
-const ChoiceEffectsPopover: React.FC<{ choice: Choice, onUpdate: (choice: Choice) => void, characters: Character[], onClose: () => void }> = ({ choice, onUpdate, characters, onClose }) => {
-    const effects = choice.effects || {};
-    const handleEffectChange = (type: 'coins' | 'hp', value: string) => {
-        const numValue = parseInt(value) || 0;
-        onUpdate({
-            ...choice,
-            effects: { ...effects, [type]: numValue }
-        });
+export const ChoiceEffectsPopover: React.FC<{ choice: Choice, onUpdate: (choice: Choice) => void, gameData: GameData, onClose: () => void }> = ({ choice, onUpdate, gameData, onClose }) => {
+    const { quests } = gameData;
+    const variables = gameData.variables || [];
+    const requirements = choice.requirements || [];
+    const [newRequirementKind, setNewRequirementKind] = useState<ChoiceRequirement['kind']>('coins');
+
+    const handleAddRequirement = () => {
+        const requirement: ChoiceRequirement =
+            newRequirementKind === 'coins' ? { kind: 'coins', min: 10 }
+            : newRequirementKind === 'stat' ? { kind: 'stat', stat: 'strength', min: 12 }
+            : newRequirementKind === 'quest' ? { kind: 'quest', questId: quests[0]?.id || '', status: 'completed' }
+            : { kind: 'flag', flag: variables.find(v => v.type === 'flag')?.name || '', isSet: true };
+        onUpdate({ ...choice, requirements: [...requirements, requirement] });
+    };
+    const handleRequirementChange = (index: number, requirement: ChoiceRequirement) => {
+        onUpdate({ ...choice, requirements: requirements.map((r, i) => i === index ? requirement : r) });
+    };
+    const handleRemoveRequirement = (index: number) => {
+        onUpdate({ ...choice, requirements: requirements.filter((_, i) => i !== index) });
+    };
+
+    const renderRequirementFields = (requirement: ChoiceRequirement, index: number) => {
+        switch (requirement.kind) {
+            case 'coins':
+                return <>
+                    <span className="text-sm">At least</span>
+                    <input type="number" min={0} value={requirement.min} onChange={e => handleRequirementChange(index, { ...requirement, min: parseInt(e.target.value) || 0 })} className="w-20 p-1 bg-accent rounded-md" />
+                    <span className="text-sm">coins</span>
+                </>;
+            case 'stat':
+                return <>
+                    <select value={requirement.stat} onChange={e => handleRequirementChange(index, { ...requirement, stat: e.target.value as StatName })} className="flex-1 p-1 bg-accent rounded-md text-sm">
+                        {STAT_NAMES.map(stat => <option key={stat} value={stat}>{STAT_LABELS[stat]}</option>)}
+                    </select>
+                    <span className="text-sm">≥</span>
+                    <input type="number" value={requirement.min} onChange={e => handleRequirementChange(index, { ...requirement, min: parseInt(e.target.value) || 0 })} className="w-16 p-1 bg-accent rounded-md" />
+                </>;
+            case 'quest':
+                return <>
+                    <select value={requirement.questId} onChange={e => handleRequirementChange(index, { ...requirement, questId: e.target.value })} className="flex-1 min-w-0 p-1 bg-accent rounded-md text-sm">
+                        <option value="">-- Quest --</option>
+                        {quests.map(q => <option key={q.id} value={q.id}>{q.title}</option>)}
+                    </select>
+                    <select value={requirement.status} onChange={e => handleRequirementChange(index, { ...requirement, status: e.target.value as QuestStatus })} className="p-1 bg-accent rounded-md text-sm">
+                        <option value="completed">completed</option>
+                        <option value="failed">failed</option>
+                        <option value="active">active</option>
+                    </select>
+                </>;
+            case 'flag':
+                return <>
+                    <input type="text" list="story-variable-names" value={requirement.flag} onChange={e => handleRequirementChange(index, { ...requirement, flag: e.target.value.trim() })} placeholder="flag name" className="flex-1 min-w-0 p-1 bg-accent rounded-md text-sm" />
+                    <select value={requirement.isSet ? 'set' : 'unset'} onChange={e => handleRequirementChange(index, { ...requirement, isSet: e.target.value === 'set' })} className="p-1 bg-accent rounded-md text-sm">
+                        <option value="set">is set</option>
+                        <option value="unset">is not set</option>
+                    </select>
+                </>;
+        }
     };
-    const handleTargetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-        onUpdate({
-            ...choice,
-            effects: { ...effects, targetCharacterId: e.target.value }
-        });
-    }
 
     return (
         <div className="fixed inset-0 bg-primary bg-opacity-70 z-50 flex items-center justify-center" onClick={onClose}>
-            <div className="bg-secondary p-4 rounded-lg border-2 border-accent w-full max-w-sm space-y-3" onClick={e => e.stopPropagation()}>
+            <div className="bg-secondary p-4 rounded-lg border-2 border-accent w-full max-w-sm max-h-[90vh] overflow-y-auto space-y-3" onClick={e => e.stopPropagation()}>
                 <h4 className="text-lg font-bold text-highlight">Set Choice Effects</h4>
-                <p className="text-xs text-gray-400">These effects will be hidden from the next player.</p>
+                <p className="text-xs text-gray-400">These effects will be hidden from the next player. Coins and items go to whoever picks the choice.</p>
                 
-                <div>
-                    <label className="text-sm">Coin Change (for next player)</label>
-                    <input type="number" value={effects.coins || 0} onChange={e => handleEffectChange('coins', e.target.value)} className="w-full p-2 mt-1 bg-primary rounded-md" placeholder="+10, -5..." />
-                </div>
+                <EffectListEditor effects={choice.effects || []} onChange={effects => onUpdate({ ...choice, effects })} gameData={gameData} />
 
-                <div>
-                    <label className="text-sm">Target Character for HP</label>
-                    <select value={effects.targetCharacterId || ''} onChange={handleTargetChange} className="w-full p-2 mt-1 bg-primary rounded-md">
-                        <option value="">-- Select Character --</option>
-                        {characters.filter(c => c.id !== 'narrator' && c.status === 'active').map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
-                    </select>
-                </div>
-                
-                <div>
-                    <label className="text-sm">HP Change</label>
-                    <input type="number" value={effects.hp || 0} onChange={e => handleEffectChange('hp', e.target.value)} className="w-full p-2 mt-1 bg-primary rounded-md" disabled={!effects.targetCharacterId} />
+                <div className="border-t border-accent pt-3">
+                    <h4 className="text-lg font-bold text-highlight">Requirements</h4>
+                    <p className="text-xs text-gray-400 mb-2">The choice stays locked until all of these are met. Stats are checked on the character the next player chooses as.</p>
+                    <div className="space-y-1">
+                        {requirements.map((requirement, index) => (
+                            <div key={index} className="flex items-center gap-2">
+                                {renderRequirementFields(requirement, index)}
+                                <button onClick={() => handleRemoveRequirement(index)} className="text-red-500 hover:text-red-400 px-1 font-bold">X</button>
+                            </div>
+                        ))}
+                    </div>
+                    <datalist id="story-variable-names">
+                        {variables.map(v => <option key={v.name} value={v.name} />)}
+                    </datalist>
+                    <div className="flex gap-2 mt-2">
+                        <select value={newRequirementKind} onChange={e => setNewRequirementKind(e.target.value as ChoiceRequirement['kind'])} className="flex-1 p-1 bg-primary rounded-md text-sm">
+                            <option value="coins">Coins</option>
+                            <option value="stat">Stat</option>
+                            <option value="quest">Quest</option>
+                            <option value="flag">Flag</option>
+                        </select>
+                        <button onClick={handleAddRequirement} className="text-xs px-2 py-1 bg-accent rounded-md hover:bg-opacity-75">+ Add Requirement</button>
+                    </div>
                 </div>
 
                 <button onClick={onClose} className="w-full p-2 mt-2 bg-highlight text-white font-bold rounded-lg hover:bg-opacity-80">Done</button>
@@ -223,13 +426,38 @@ const ChoiceEffectsPopover: React.FC<{ choice: Choice, onUpdate: (choice: Choice
     )
 }
 
-const InputController: React.FC<{ dispatch: React.Dispatch<Action>, gameData: GameData, onEndTurn: () => void, isMyTurn: boolean, currentPlayer: Player, currentPlayerIndex: number, onSceneChange: (change: Partial<SceneState>) => void, isPlayingBack: boolean }> = ({ dispatch, gameData, onEndTurn, isMyTurn, currentPlayer, currentPlayerIndex, onSceneChange, isPlayingBack }) => {
+const VoiceClipPopover: React.FC<{ logIndex: number, gameData: GameData, dispatch: React.Dispatch<Action>, onClose: () => void }> = ({ logIndex, gameData, dispatch, onClose }) => {
+    const line = gameData.storyLog[logIndex];
+    if (line?.type !== 'dialogue') return null;
+    const asset = gameData.assets.find(a => a.id === line.voiceAssetId);
+    return (
+        <div className="fixed inset-0 bg-primary bg-opacity-70 z-50 flex items-center justify-center" onClick={onClose}>
+            <div className="bg-secondary p-4 rounded-lg border-2 border-accent w-full max-w-md space-y-3" onClick={e => e.stopPropagation()}>
+                <h4 className="text-lg font-bold text-highlight">Voice Clip</h4>
+                <p className="text-sm italic text-gray-300">
+                    <span className="font-bold not-italic text-blue-400">{gameData.characters.find(c => c.id === line.characterId)?.name || 'Unknown'}:</span> <DialogueText text={line.text} />
+                </p>
+                <VoiceClipInput
+                    clip={asset ? { url: asset.url, name: asset.name } : null}
+                    onChange={clip => dispatch({ type: 'SET_VOICE_CLIP', payload: { logIndex, clip } })}
+                />
+                <button onClick={onClose} className="w-full p-2 mt-2 bg-highlight text-white font-bold rounded-lg hover:bg-opacity-80">Done</button>
+            </div>
+        </div>
+    );
+};
+
+const InputController: React.FC<{ dispatch: React.Dispatch<Action>, gameData: GameData, onEndTurn: () => void, isMyTurn: boolean, currentPlayer: Player, currentPlayerIndex: number, onSceneChange: (change: Partial<SceneState>) => void, sprites: SceneState['sprites'], onPreviewSoundEffect: (assetId: string) => void, onPreviewScreenEffect: (effect: ScreenEffect) => void, isPlayingBack: boolean, voiceNeedsApproval: boolean, canSetChoiceEffects: boolean }> = ({ dispatch, gameData, onEndTurn, isMyTurn, currentPlayer, currentPlayerIndex, onSceneChange, sprites, onPreviewSoundEffect, onPreviewScreenEffect, isPlayingBack, voiceNeedsApproval, canSetChoiceEffects }) => {
     const [dialogue, setDialogue] = useState('');
+    const [voiceClip, setVoiceClip] = useState<VoiceClip | null>(null);
     const [choices, setChoices] = useState<Choice[]>([]);
     const [stagedSceneChanges, setStagedSceneChanges] = useState<StoryLogEntry[]>([]);
     const [speakingCharacterId, setSpeakingCharacterId] = useState(NARRATOR_CHARACTER.id);
-    const [diceSides, setDiceSides] = useState(20);
+    const [transition, setTransition] = useState<SceneTransition>('cut'); // For this turn's background and CG changes.
+    const [diceExpression, setDiceExpression] = useState('1d20');
+    const [diceError, setDiceError] = useState<string | null>(null);
     const [editingChoiceIndex, setEditingChoiceIndex] = useState<number | null>(null);
+    const [passedChoiceLogIndex, setPassedChoiceLogIndex] = useState<number | null>(null); // A choice nobody could take, passed over.
 
     // Player Asset Submission State
     const [isSubmittingSprite, setIsSubmittingSprite] = useState(false);
@@ -251,11 +479,15 @@ const InputController: React.FC<{ dispatch: React.Dispatch<Action>, gameData: Ga
     
     const activeCharacters = gameData.characters.filter(c => c.status !== 'defeated');
     const speakingCharacter = activeCharacters.find(c => c.id === speakingCharacterId);
+    // The speaking character's sprite as it stands with this turn's changes. Staging controls move it.
+    const speakingSprite = sprites[speakingCharacterId] || null;
+    const speakingStaging = speakingSprite?.staging || DEFAULT_SPRITE_STAGING;
     
     const lastLog = gameData.storyLog[gameData.storyLog.length - 1];
-    const choicesToShow = lastLog?.type === 'choice' ? lastLog.choices : null;
+    const choicesToShow = lastLog?.type === 'choice' && passedChoiceLogIndex !== gameData.storyLog.length - 1 ? lastLog.choices : null;
+    const pendingCheck = gameData.pendingSkillCheck;
 
-    const handleAddChoice = () => setChoices([...choices, {text: '', effects: {}}]);
+    const handleAddChoice = () => setChoices([...choices, {text: '', effects: []}]);
     const handleRemoveChoice = (index: number) => setChoices(choices.filter((_, i) => i !== index));
     const handleChoiceChange = (index: number, updatedChoice: Choice) => {
         const newChoices = [...choices];
@@ -267,45 +499,106 @@ const InputController: React.FC<{ dispatch: React.Dispatch<Action>, gameData: Ga
         const logsToDispatch = [...stagedSceneChanges];
 
         if (dialogue.trim()) {
-            logsToDispatch.push({ type: 'dialogue', characterId: speakingCharacterId, text: dialogue.trim() });
+            logsToDispatch.push({ type: 'dialogue', characterId: speakingCharacterId, text: dialogue.trim(), playerId: currentPlayer.id });
         }
+        const lineIndex = gameData.storyLog.length + logsToDispatch.findIndex(log => log.type === 'dialogue');
 
-        const validChoices = choices.filter(c => c.text.trim());
+        // Requirements and effects left half-filled in the editor are dropped rather than locking
+        // the choice forever or doing something unintended.
+        const validChoices = choices.filter(c => c.text.trim()).map((c: Choice): Choice => {
+            const { requirements, ...choice } = c;
+            const complete = (requirements || []).filter(isCompleteRequirement);
+            const effects = (choice.effects || []).filter(isCompleteEffect);
+            return {
+                ...choice,
+                ...(effects.length > 0 ? { effects } : {}),
+                ...(complete.length > 0 ? { requirements: complete } : {}),
+            };
+        });
         if (validChoices.length > 0) {
             logsToDispatch.push({ type: 'choice', choices: validChoices });
         }
 
-        logsToDispatch.forEach(log => dispatch({ type: 'ADD_LOG_ENTRY', payload: log }));
+        logsToDispatch.forEach(log => {
+            if (log.type === 'dialogue' && voiceClip && voiceNeedsApproval) {
+                // The line goes with its clip, so the host attaches the clip to the line however far
+                // this copy of the log is behind.
+                dispatch({
+                    type: 'SUBMIT_ASSET_FOR_APPROVAL',
+                    payload: {
+                        asset: { type: 'voice', url: voiceClip.url, name: voiceClip.name, ownerId: currentPlayer.id },
+                        characterIdToAssign: speakingCharacterId,
+                        submittingPlayerId: currentPlayer.id,
+                        line: log,
+                    }
+                });
+            } else {
+                dispatch({ type: 'ADD_LOG_ENTRY', payload: log });
+            }
+        });
+
+        if (voiceClip && dialogue.trim() && !voiceNeedsApproval) {
+            // Only the GM attaches clips directly, and the GM's log is the one the line is added to.
+            dispatch({ type: 'SET_VOICE_CLIP', payload: { logIndex: lineIndex, clip: voiceClip } });
+        }
         
         setDialogue('');
+        setVoiceClip(null);
         setChoices([]);
         setStagedSceneChanges([]);
+        setTransition('cut');
         onEndTurn();
     }
     
-    const handleChoiceSelection = (choice: Choice) => {
-        dispatch({ type: 'ADD_LOG_ENTRY', payload: { type: 'choice_selection', playerId: currentPlayer.id, characterId: speakingCharacterId, choice } });
+    const handleChoiceSelection = (choice: Choice, choiceIndex: number) => {
+        dispatch({ type: 'ADD_LOG_ENTRY', payload: { type: 'choice_selection', playerId: currentPlayer.id, characterId: speakingCharacterId, choice, choiceIndex } });
         onEndTurn();
     }
 
-    const handleSceneChange = (type: 'background' | 'cg' | 'sprite', assetId: string | null) => {
+    const handleSceneChange = (type: 'background' | 'cg' | 'sprite' | 'music' | 'sfx' | 'effect', assetId: string | null) => {
         if (!speakingCharacter) return;
 
         let newLogEntry: StoryLogEntry | null = null;
         let sceneUpdate: Partial<SceneState> = {};
+        const transitionField = transition !== 'cut' ? { transition } : {};
 
         switch(type) {
             case 'background':
-                newLogEntry = { type: 'background_change', assetId: assetId };
-                sceneUpdate = { backgroundAssetId: assetId };
+                newLogEntry = { type: 'background_change', assetId: assetId, ...transitionField };
+                sceneUpdate = { backgroundAssetId: assetId, backgroundTransition: transition };
                 break;
             case 'cg':
-                newLogEntry = { type: 'cg_show', assetId: assetId };
-                sceneUpdate = { cgAssetId: assetId };
+                newLogEntry = { type: 'cg_show', assetId: assetId, ...transitionField };
+                sceneUpdate = { cgAssetId: assetId, cgTransition: transition };
                 break;
             case 'sprite':
-                newLogEntry = { type: 'sprite_change', characterId: speakingCharacterId, assetId: assetId };
-                sceneUpdate = { sprites: { [speakingCharacterId]: assetId } };
+                // A new pose keeps the character where it stands.
+                newLogEntry = assetId
+                    ? { type: 'sprite_change', characterId: speakingCharacterId, assetId, staging: speakingStaging }
+                    : { type: 'sprite_change', characterId: speakingCharacterId, assetId: null };
+                sceneUpdate = { sprites: { [speakingCharacterId]: assetId ? { assetId, staging: speakingStaging } : null } };
+                break;
+            case 'music':
+                newLogEntry = { type: 'music_change', assetId: assetId || null };
+                sceneUpdate = { musicAssetId: assetId || null };
+                break;
+            case 'sfx':
+                // Sound effects are not part of the scene; the pick is heard once as a preview.
+                if (!assetId) {
+                    setStagedSceneChanges(prev => prev.filter(c => c.type !== 'sound_effect'));
+                    return;
+                }
+                newLogEntry = { type: 'sound_effect', assetId };
+                onPreviewSoundEffect(assetId);
+                break;
+            case 'effect':
+                // Likewise screen effects, which are seen once as a preview.
+                if (!assetId) {
+                    setStagedSceneChanges(prev => prev.filter(c => c.type !== 'screen_effect'));
+                    return;
+                }
+                newLogEntry = { type: 'screen_effect', effect: assetId as ScreenEffect };
+                onPreviewScreenEffect(assetId as ScreenEffect);
                 break;
         }
 
@@ -326,15 +619,45 @@ const InputController: React.FC<{ dispatch: React.Dispatch<Action>, gameData: Ga
         }
     };
     
-    const handleDiceRoll = () => {
-        const validSides = Math.max(1, diceSides);
-        const result = Math.floor(Math.random() * validSides) + 1;
-        dispatch({ type: 'ADD_LOG_ENTRY', payload: {
-            type: 'dice_roll',
-            characterId: speakingCharacterId,
-            sides: validSides,
-            result: result,
-        }});
+    // Also applies to the background and CG changes already picked this turn.
+    const handleTransitionChange = (newTransition: SceneTransition) => {
+        setTransition(newTransition);
+        const staged = stagedSceneChanges.filter(c => c.type === 'background_change' || c.type === 'cg_show');
+        if (staged.length === 0) return;
+        onSceneChange({
+            ...(staged.some(c => c.type === 'background_change') ? { backgroundTransition: newTransition } : {}),
+            ...(staged.some(c => c.type === 'cg_show') ? { cgTransition: newTransition } : {}),
+        });
+        setStagedSceneChanges(prev => prev.map(c => {
+            if (c.type !== 'background_change' && c.type !== 'cg_show') return c;
+            const { transition: _, ...change } = c;
+            return newTransition !== 'cut' ? { ...change, transition: newTransition } : change;
+        }));
+    };
+
+    const handleStagingChange = (change: Partial<SpriteStaging>) => {
+        if (!speakingSprite) return;
+        const staging = { ...speakingStaging, ...change };
+        const newLogEntry: StoryLogEntry = { type: 'sprite_change', characterId: speakingCharacterId, assetId: speakingSprite.assetId, staging };
+        onSceneChange({ sprites: { [speakingCharacterId]: { assetId: speakingSprite.assetId, staging } } });
+        setStagedSceneChanges(prev => [...prev.filter(c => !(c.type === 'sprite_change' && c.characterId === speakingCharacterId)), newLogEntry]);
+    };
+
+    const handleDiceRoll = (expression: string) => {
+        // Check the notation here for instant feedback; the roll itself happens on the GM host,
+        // which logs the result with its seed.
+        try {
+            parseDiceExpression(expression, MAX_DICE_SIDES);
+        } catch (error) {
+            setDiceError(error instanceof Error ? error.message : 'Invalid dice notation.');
+            return;
+        }
+        setDiceError(null);
+        dispatch({ type: 'REQUEST_DICE_ROLL', payload: { characterId: speakingCharacterId, expression } });
+    };
+
+    const handleSkillCheckRoll = () => {
+        dispatch({ type: 'REQUEST_SKILL_CHECK', payload: { characterId: speakingCharacterId, playerId: currentPlayer.id } });
     };
     
     const handleSubmitSprite = () => {
@@ -397,6 +720,23 @@ const InputController: React.FC<{ dispatch: React.Dispatch<Action>, gameData: Ga
 
 
     const publishedAssets = gameData.assets.filter(a => a.isPublished);
+    const renderSpeakAsSelect = (label: string) => (
+        <div className="mb-4">
+            <label htmlFor="speak-as-select" className="block text-sm font-semibold text-gray-400 mb-1">{label}</label>
+            <select
+                id="speak-as-select"
+                value={speakingCharacterId}
+                onChange={(e) => setSpeakingCharacterId(e.target.value)}
+                className="w-full p-2 bg-accent rounded-md focus:ring-2 focus:ring-highlight outline-none"
+            >
+                {activeCharacters.map((char) => (
+                    <option key={char.id} value={char.id}>
+                        {char.name}
+                    </option>
+                ))}
+            </select>
+        </div>
+    );
     const charSprites = publishedAssets.filter(a => (speakingCharacter.spriteAssetIds || []).includes(a.id));
 
     return (
@@ -405,21 +745,47 @@ const InputController: React.FC<{ dispatch: React.Dispatch<Action>, gameData: Ga
                 <ChoiceEffectsPopover 
                     choice={choices[editingChoiceIndex]}
                     onUpdate={(updatedChoice) => handleChoiceChange(editingChoiceIndex, updatedChoice)}
-                    characters={activeCharacters}
+                    gameData={gameData}
                     onClose={() => setEditingChoiceIndex(null)}
                 />
             )}
              <p className="font-bold text-xl mb-2">Your Turn! (<span className="text-highlight">{currentPlayer.name}</span>)</p>
+             {pendingCheck && (
+                <div className="bg-primary border border-highlight p-3 rounded-md mb-4 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                    <div>
+                        <p className="font-bold">The GM calls for a DC {pendingCheck.dc} {STAT_LABELS[pendingCheck.stat]} check!</p>
+                        {pendingCheck.description && <p className="text-sm text-gray-300">{pendingCheck.description}</p>}
+                        <p className="text-xs text-gray-400">
+                            {speakingCharacter.id === 'narrator'
+                                ? 'Speak as a character to roll it.'
+                                : `${speakingCharacter.name} rolls 1d20 ${formatModifier(getStatModifier(speakingCharacter.stats?.[pendingCheck.stat] ?? 10))}.`}
+                        </p>
+                    </div>
+                    <button onClick={handleSkillCheckRoll} disabled={speakingCharacter.id === 'narrator'} className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-md font-bold disabled:bg-gray-500">Roll Check</button>
+                </div>
+             )}
              {choicesToShow ? (
                 <div>
                     <p className="text-lg mb-2">You must make a choice:</p>
+                    {renderSpeakAsSelect('Choose As')}
                     <div className="flex flex-col space-y-2">
-                        {choicesToShow.map((choice, index) => (
-                            <button key={index} onClick={() => handleChoiceSelection(choice)} className="w-full p-3 bg-accent rounded-md text-lg text-left hover:bg-highlight">
-                                {choice.text}
-                            </button>
-                        ))}
+                        {choicesToShow.map((choice, index) => {
+                            const lockReason = getLockReason(choice, { gameData, playerId: currentPlayer.id, characterId: speakingCharacterId });
+                            return (
+                                <button key={index} onClick={() => handleChoiceSelection(choice, index)} disabled={!!lockReason} className="w-full p-3 bg-accent rounded-md text-lg text-left hover:bg-highlight disabled:opacity-50 disabled:hover:bg-accent disabled:cursor-not-allowed">
+                                    {lockReason && <span className="mr-2">🔒</span>}
+                                    {choice.text}
+                                    {lockReason && <span className="block text-sm text-gray-400">{lockReason}</span>}
+                                </button>
+                            );
+                        })}
                     </div>
+                    {choicesToShow.every(choice => getLockReason(choice, { gameData, playerId: currentPlayer.id, characterId: speakingCharacterId })) && (
+                        <div className="mt-3 p-3 bg-primary rounded-md flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                            <p className="text-sm text-gray-300">None of these choices are open to {speakingCharacter.name}. Choose as someone else, or carry on without choosing.</p>
+                            <button onClick={() => setPassedChoiceLogIndex(gameData.storyLog.length - 1)} className="px-4 py-2 bg-highlight text-white font-bold rounded-md hover:bg-opacity-80 whitespace-nowrap">Continue Without Choosing</button>
+                        </div>
+                    )}
                 </div>
              ) : (
                 <>
@@ -430,14 +796,54 @@ const InputController: React.FC<{ dispatch: React.Dispatch<Action>, gameData: Ga
                                 <select onChange={e => handleSceneChange('background', e.target.value)} className="p-2 bg-accent rounded-md"><option value="">- Clear BG -</option>{publishedAssets.filter(a => a.type === 'background').map(a => <option key={a.id} value={a.id}>{a.name}</option>)}</select>
                                 <select onChange={e => handleSceneChange('sprite', e.target.value)} className="p-2 bg-accent rounded-md" disabled={speakingCharacter.id === 'narrator'}><option value="">- Clear Sprite -</option>{charSprites.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}</select>
                                 <select onChange={e => handleSceneChange('cg', e.target.value)} className="p-2 bg-accent rounded-md"><option value="">- Clear CG -</option>{publishedAssets.filter(a => a.type === 'cg').map(a => <option key={a.id} value={a.id}>{a.name}</option>)}</select>
+                                <select onChange={e => handleSceneChange('music', e.target.value)} className="p-2 bg-accent rounded-md" title="Background music"><option value="">- Stop Music -</option>{publishedAssets.filter(a => a.type === 'music').map(a => <option key={a.id} value={a.id}>{a.name}</option>)}</select>
+                                <select onChange={e => handleSceneChange('sfx', e.target.value)} className="p-2 bg-accent rounded-md" title="Sound effect"><option value="">- No Sound Effect -</option>{publishedAssets.filter(a => a.type === 'sfx').map(a => <option key={a.id} value={a.id}>{a.name}</option>)}</select>
+                                <select value={transition} onChange={e => handleTransitionChange(e.target.value as SceneTransition)} className="p-2 bg-accent rounded-md" title="Transition for background and CG changes">{(Object.keys(TRANSITION_LABELS) as SceneTransition[]).map(t => <option key={t} value={t}>{TRANSITION_LABELS[t]}</option>)}</select>
+                                <select onChange={e => handleSceneChange('effect', e.target.value)} className="p-2 bg-accent rounded-md" title="Screen effect"><option value="">- No Screen Effect -</option>{(Object.keys(SCREEN_EFFECT_LABELS) as ScreenEffect[]).map(effect => <option key={effect} value={effect}>{SCREEN_EFFECT_LABELS[effect]}</option>)}</select>
+                                <fieldset disabled={!speakingSprite} className="sm:col-span-3 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm disabled:opacity-50" title={speakingSprite ? `Where ${speakingCharacter.name} stands` : 'Show a sprite for this character to stage it'}>
+                                    <select
+                                        value={typeof speakingStaging.position === 'number' ? 'custom' : speakingStaging.position}
+                                        onChange={e => handleStagingChange({ position: e.target.value === 'custom' ? getStageX(speakingStaging.position) : e.target.value as StagePosition })}
+                                        className="p-1 bg-accent rounded-md"
+                                        aria-label="Stage position"
+                                    >
+                                        <option value="left">Left</option>
+                                        <option value="center">Center</option>
+                                        <option value="right">Right</option>
+                                        <option value="custom">Custom</option>
+                                    </select>
+                                    {typeof speakingStaging.position === 'number' && (
+                                        <input type="range" min={0} max={1} step={0.01} value={speakingStaging.position} onChange={e => handleStagingChange({ position: parseFloat(e.target.value) })} className="w-24" aria-label="Stage x position" />
+                                    )}
+                                    <label className="flex items-center gap-1">
+                                        <input type="checkbox" checked={speakingStaging.flipped} onChange={e => handleStagingChange({ flipped: e.target.checked })} />
+                                        Flip
+                                    </label>
+                                    <label className="flex items-center gap-1">
+                                        Scale
+                                        <input type="range" min={SPRITE_SCALE_RANGE.min} max={SPRITE_SCALE_RANGE.max} step={0.05} value={speakingStaging.scale} onChange={e => handleStagingChange({ scale: parseFloat(e.target.value) })} className="w-20" />
+                                    </label>
+                                    <label className="flex items-center gap-1">
+                                        Layer
+                                        <input type="number" min={0} max={MAX_SPRITE_LAYER} value={speakingStaging.layer} onChange={e => handleStagingChange({ layer: Math.min(MAX_SPRITE_LAYER, Math.max(0, parseInt(e.target.value) || 0)) })} className="w-12 p-1 bg-accent rounded-md" />
+                                    </label>
+                                </fieldset>
                             </div>
                         </details>
                         <details className="flex-1">
                             <summary className="cursor-pointer text-gray-400 hover:text-white">Dice Roller</summary>
-                            <div className="flex items-center gap-2 mt-2 p-2 bg-primary rounded-md">
-                                <span className="font-bold">d</span>
-                                <input type="number" value={diceSides} onChange={e => setDiceSides(parseInt(e.target.value) || 1)} className="w-20 p-1 bg-accent rounded-md" />
-                                <button onClick={handleDiceRoll} className="px-4 py-1 bg-purple-600 hover:bg-purple-700 rounded-md">Roll</button>
+                            <div className="mt-2 p-2 bg-primary rounded-md space-y-2">
+                                <div className="flex items-center gap-2">
+                                    <input type="text" value={diceExpression} onChange={e => setDiceExpression(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleDiceRoll(diceExpression)} placeholder="2d6+3" className="flex-1 min-w-0 p-1 bg-accent rounded-md font-mono" />
+                                    <button onClick={() => handleDiceRoll(diceExpression)} className="px-4 py-1 bg-purple-600 hover:bg-purple-700 rounded-md">Roll</button>
+                                </div>
+                                <div className="flex flex-wrap gap-1">
+                                    {DICE_PRESETS.map(preset => (
+                                        <button key={preset} onClick={() => { setDiceExpression(preset); handleDiceRoll(preset); }} className="text-xs px-2 py-0.5 bg-accent rounded-md hover:bg-opacity-75 font-mono">{preset}</button>
+                                    ))}
+                                </div>
+                                {diceError && <p className="text-xs text-red-400">{diceError}</p>}
+                                <p className="text-xs text-gray-500">Supports 2d6+3, 4d6kh3, 1d20 adv, 3d6! (exploding) and 6d10&gt;=8 (pools).</p>
                             </div>
                         </details>
                          <details className="flex-1" open={isSubmittingSprite} onToggle={(e) => setIsSubmittingSprite(e.currentTarget.open)}>
@@ -453,30 +859,20 @@ const InputController: React.FC<{ dispatch: React.Dispatch<Action>, gameData: Ga
                         </details>
                     </div>
                     
-                    <div className="mb-4">
-                        <label htmlFor="speak-as-select" className="block text-sm font-semibold text-gray-400 mb-1">Speak As</label>
-                        <select
-                            id="speak-as-select"
-                            value={speakingCharacterId}
-                            onChange={(e) => setSpeakingCharacterId(e.target.value)}
-                            className="w-full p-2 bg-accent rounded-md focus:ring-2 focus:ring-highlight outline-none"
-                        >
-                            {activeCharacters.map((char) => (
-                                <option key={char.id} value={char.id}>
-                                    {char.name}
-                                </option>
-                            ))}
-                        </select>
-                    </div>
+                    {renderSpeakAsSelect('Speak As')}
 
-                    <input type="text" value={dialogue} onChange={e => setDialogue(e.target.value)} placeholder={`What does ${speakingCharacter.name} say or do?`} className="w-full p-2 bg-accent rounded-md focus:ring-2 focus:ring-highlight outline-none" />
+                    <input type="text" value={dialogue} onChange={e => setDialogue(e.target.value)} placeholder={`What does ${speakingCharacter.name} say or do?`} title={MARKUP_HELP} className="w-full p-2 bg-accent rounded-md focus:ring-2 focus:ring-highlight outline-none" />
+                    <div className="mt-2">
+                        <VoiceClipInput clip={voiceClip} onChange={setVoiceClip} />
+                        {voiceClip && voiceNeedsApproval && <p className="text-xs text-gray-400 mt-1">The clip is sent to the GM for approval and plays with your line once approved.</p>}
+                    </div>
 
                     <div className="mt-4">
                         <p className="text-sm text-gray-400">Optionally, add choices for the next player:</p>
                         {choices.map((choice, index) => (
                             <div key={index} className="flex items-center space-x-2 mt-1">
                                 <input type="text" value={choice.text} onChange={e => handleChoiceChange(index, {...choice, text: e.target.value})} placeholder={`Choice ${index + 1}`} className="w-full p-2 bg-accent rounded-md"/>
-                                <button onClick={() => setEditingChoiceIndex(index)} className="p-2 bg-accent rounded-md hover:bg-opacity-75" title="Set Choice Effects">✨</button>
+                                {canSetChoiceEffects && <button onClick={() => setEditingChoiceIndex(index)} className="p-2 bg-accent rounded-md hover:bg-opacity-75" title="Set Choice Effects">✨</button>}
                                 <button onClick={() => handleRemoveChoice(index)} className="text-red-500 hover:text-red-400 p-2 rounded-full font-bold">X</button>
                             </div>
                         ))}
@@ -500,6 +896,10 @@ interface GameViewProps {
   myPlayerId: string | null;
   typingUsers: Record<string, string>;
   onTypingChange: (isTyping: boolean) => void;
+  readAloud: boolean; // Reads lines without a voice clip aloud during playback.
+  onReadAloudChange: (readAloud: boolean) => void;
+  readingSettings: ReadingSettings;
+  onReadingSettingsChange: (settings: ReadingSettings) => void;
 }
 
 export const GameView: React.FC<GameViewProps> = ({
@@ -512,19 +912,41 @@ export const GameView: React.FC<GameViewProps> = ({
   myPlayerId,
   typingUsers,
   onTypingChange,
+  readAloud,
+  onReadAloudChange,
+  readingSettings,
+  onReadingSettingsChange,
 }) => {
-    const [baseScene, setBaseScene] = useState<SceneState>({ backgroundAssetId: null, cgAssetId: null, sprites: {}, dialogue: null });
+    const [baseScene, setBaseScene] = useState<SceneState>(EMPTY_SCENE);
     const [stagedScene, setStagedScene] = useState<Partial<SceneState>>({});
     const [activeSideTab, setActiveSideTab] = useState<'history' | 'status'>('history');
+    const [editingVoiceIndex, setEditingVoiceIndex] = useState<number | null>(null);
     
     const isOnlineGame = gameMode === 'online-player' || gameMode === 'online-gm';
     const isMyTurn = (gameMode === 'local' && !!currentPlayer) || (isOnlineGame && !!myPlayerId && currentPlayer?.id === myPlayerId);
     const isSpectatingGm = gameMode === 'online-gm' && !myPlayerId;
+    // Hidden story variables are kept from players' screens. In a local game everyone shares one.
+    const canSeeHiddenVariables = gameMode === 'online-gm';
+    // Whose catch-up is played: the player on this device online, or whoever's turn it is otherwise.
+    // Only a viewer at this screen is marked as having seen it.
+    const viewer = gameMode === 'online-player' ? gameData.players.find(p => p.id === myPlayerId) : currentPlayer;
+    const isViewerHere = gameMode === 'local' || (!!viewer && viewer.id === myPlayerId);
     
     const [playbackState, setPlaybackState] = useState<'idle' | 'playing'>('idle');
     const [playbackLogIndex, setPlaybackLogIndex] = useState(0); 
     const [logsToPlay, setLogsToPlay] = useState<StoryLogEntry[]>([]);
     const turnStarted = useRef(false);
+    // Playback re-walks entries as the scene updates, so this marks how far sound and screen effects have been played.
+    const cuesPlayedUpTo = useRef(0);
+    const voicedLineIndex = useRef(-1); // The line whose clip or reading was last started, so it is not restarted.
+    const [playbackStop, setPlaybackStop] = useState<PlaybackStop | null>(null);
+    const stoppedAtIndex = useRef(-1);
+    const [isSkipping, setIsSkipping] = useState(false);
+    const playbackStartIndex = useRef(0); // The story log index of the first entry being played.
+    const seenLogCount = useRef(0); // The viewer's seenLogCount, moved on as lines are shown.
+    const [screenEffects, setScreenEffects] = useState<ScreenEffectCue | null>(null);
+    const storyAudioRef = useRef<StoryAudio | null>(null);
+    const getStoryAudio = () => storyAudioRef.current ??= createStoryAudio();
 
     const handleSceneChange = useCallback((change: Partial<SceneState>) => {
         setStagedScene(prev => {
@@ -534,15 +956,28 @@ export const GameView: React.FC<GameViewProps> = ({
     }, []);
 
     const combinedScene = { ...baseScene, ...stagedScene, sprites: {...baseScene.sprites, ...stagedScene.sprites} };
+    const musicUrl = findAssetUrl(gameData.assets, combinedScene.musicAssetId);
 
-    const reduceScene = useCallback((log: StoryLogEntry, currentScene: SceneState): SceneState => {
-        const newScene: SceneState = { ...currentScene, sprites: {...currentScene.sprites} };
-        switch (log.type) {
-            case 'background_change': newScene.backgroundAssetId = log.assetId; break;
-            case 'sprite_change': newScene.sprites[log.characterId] = log.assetId; break;
-            case 'cg_show': newScene.cgAssetId = log.assetId; break;
-        }
-        return newScene;
+    useEffect(() => {
+        getStoryAudio().setMusic(musicUrl);
+    }, [musicUrl]);
+
+    useEffect(() => () => {
+        storyAudioRef.current?.stop();
+        stopSpeaking();
+    }, []);
+
+    useEffect(() => {
+        if (!readAloud) stopSpeaking();
+    }, [readAloud]);
+
+    const handlePreviewSoundEffect = useCallback((assetId: string) => {
+        const url = findAssetUrl(gameData.assets, assetId);
+        if (url) getStoryAudio().playSoundEffect(url);
+    }, [gameData.assets]);
+
+    const handlePreviewScreenEffect = useCallback((effect: ScreenEffect) => {
+        setScreenEffects({ effects: [effect], startedAt: performance.now() });
     }, []);
 
     useEffect(() => {
@@ -554,13 +989,10 @@ export const GameView: React.FC<GameViewProps> = ({
         if (turnStarted.current) return;
         turnStarted.current = true;
         
-        const playerForLog = (gameMode === 'online-player') 
-            ? gameData.players.find(p => p.id === myPlayerId) || { lastSeenLogIndex: 0 }
-            : currentPlayer;
-        
-        const lastSeenIndex = playerForLog?.lastSeenLogIndex || 0;
+        const lastSeenIndex = viewer?.lastSeenLogIndex || 0;
+        seenLogCount.current = viewer?.seenLogCount || 0;
 
-        let initialSceneState: SceneState = { backgroundAssetId: null, cgAssetId: null, sprites: {}, dialogue: null };
+        let initialSceneState: SceneState = EMPTY_SCENE;
         for(const log of gameData.storyLog.slice(0, lastSeenIndex)) {
             initialSceneState = reduceScene(log, initialSceneState);
         }
@@ -568,6 +1000,11 @@ export const GameView: React.FC<GameViewProps> = ({
 
         const logsForCatchUp = gameData.storyLog.slice(lastSeenIndex);
         if (logsForCatchUp.length > 0) {
+            cuesPlayedUpTo.current = 0;
+            voicedLineIndex.current = -1;
+            stoppedAtIndex.current = -1;
+            playbackStartIndex.current = lastSeenIndex;
+            setPlaybackStop(null);
             setLogsToPlay(logsForCatchUp);
             setPlaybackLogIndex(0);
             setPlaybackState('playing');
@@ -575,7 +1012,7 @@ export const GameView: React.FC<GameViewProps> = ({
             setPlaybackState('idle');
             setLogsToPlay([]);
         }
-    }, [gameData.storyLog, currentPlayer, reduceScene, gameMode, myPlayerId, gameData.players]);
+    }, [gameData.storyLog, currentPlayer, gameMode, myPlayerId, gameData.players]);
     
     useEffect(() => {
         if (playbackState !== 'playing') return;
@@ -586,36 +1023,82 @@ export const GameView: React.FC<GameViewProps> = ({
                 logsToPlay.forEach(log => finalScene = reduceScene(log, finalScene));
                 return {...finalScene, dialogue: null};
             });
+            seenLogCount.current = Math.max(seenLogCount.current, playbackStartIndex.current + logsToPlay.length);
+            if (viewer && isViewerHere && seenLogCount.current > (viewer.seenLogCount || 0)) {
+                dispatch({ type: 'MARK_LOG_SEEN', payload: { playerId: viewer.id, count: seenLogCount.current } });
+            }
             setPlaybackState('idle');
             setLogsToPlay([]);
+            setPlaybackStop(null);
+            setIsSkipping(false);
             return;
         }
         
         let sceneUpdate = { ...baseScene };
         let dialogueToShow = null;
+        const effectsToPlay: ScreenEffect[] = [];
+        let stopIndex = logsToPlay.length - 1;
+        // Seen lines pass by silently while skipping.
+        const isSkippingEntry = (i: number) => isSkipping && playbackStartIndex.current + i < seenLogCount.current;
 
         for (let i = playbackLogIndex; i < logsToPlay.length; i++) {
             const log = logsToPlay[i];
+
+            if (log.type === 'sound_effect' && i >= cuesPlayedUpTo.current) {
+                cuesPlayedUpTo.current = i + 1;
+                const url = findAssetUrl(gameData.assets, log.assetId);
+                if (url && !isSkippingEntry(i)) getStoryAudio().playSoundEffect(url);
+            } else if (log.type === 'screen_effect' && i >= cuesPlayedUpTo.current) {
+                cuesPlayedUpTo.current = i + 1;
+                if (!isSkippingEntry(i)) effectsToPlay.push(log.effect);
+            }
             
             if (log.type === 'dialogue') {
                 const char = gameData.characters.find(c => c.id === log.characterId);
                 dialogueToShow = { characterName: char?.name || 'Unknown', text: log.text };
+                // A voiced line moves on by itself once its clip, or its reading, has finished.
+                const voiceUrl = findAssetUrl(gameData.assets, log.voiceAssetId || null);
+                if ((voiceUrl || readAloud) && voicedLineIndex.current !== i && !isSkippingEntry(i)) {
+                    voicedLineIndex.current = i;
+                    if (voiceUrl) {
+                        getStoryAudio().playVoice(voiceUrl, () => advancePlaybackRef.current());
+                    } else {
+                        speakLine(stripDialogueMarkup(log.text), char?.ttsVoice, () => advancePlaybackRef.current());
+                    }
+                }
+                stopIndex = i;
                 break;
             } else if (log.type === 'choice_selection') {
                 const player = gameData.players.find(p => p.id === log.playerId);
                 dialogueToShow = { characterName: player?.name || 'A player', text: `Chose: "${log.choice.text}"` };
+                if (readAloud && voicedLineIndex.current !== i && !isSkippingEntry(i)) {
+                    voicedLineIndex.current = i;
+                    const narrator = gameData.characters.find(c => c.id === NARRATOR_CHARACTER.id);
+                    speakLine(`${dialogueToShow.characterName} chose: ${log.choice.text}`, narrator?.ttsVoice, () => advancePlaybackRef.current());
+                }
+                stopIndex = i;
                 break;
             } else if (log.type === 'choice') {
+                stopIndex = i;
                 break;
             }
             sceneUpdate = reduceScene(log, sceneUpdate);
         }
         setBaseScene({ ...sceneUpdate, dialogue: dialogueToShow });
+        if (effectsToPlay.length > 0) setScreenEffects({ effects: effectsToPlay, startedAt: performance.now() });
+        if (stoppedAtIndex.current !== stopIndex) {
+            stoppedAtIndex.current = stopIndex;
+            const storyLogIndex = playbackStartIndex.current + stopIndex;
+            setPlaybackStop({ logIndex: stopIndex, text: dialogueToShow?.text ?? null, startedAt: performance.now(), isRevealed: false, wasSeen: storyLogIndex < seenLogCount.current });
+            seenLogCount.current = Math.max(seenLogCount.current, storyLogIndex + 1);
+        }
 
-    }, [playbackState, playbackLogIndex, logsToPlay, gameData.characters, gameData.players, reduceScene, baseScene]);
+    }, [playbackState, playbackLogIndex, logsToPlay, gameData.characters, gameData.players, gameData.assets, baseScene, readAloud, isSkipping]);
 
     const handlePlaybackAdvance = () => {
         if (playbackState !== 'playing' || playbackLogIndex >= logsToPlay.length) return;
+        storyAudioRef.current?.stopVoice();
+        stopSpeaking();
         
         let nextIndex = playbackLogIndex;
         for (let i = playbackLogIndex; i < logsToPlay.length; i++) {
@@ -627,6 +1110,47 @@ export const GameView: React.FC<GameViewProps> = ({
         }
         setPlaybackLogIndex(nextIndex + 1);
     };
+    const advancePlaybackRef = useRef(handlePlaybackAdvance);
+    advancePlaybackRef.current = handlePlaybackAdvance;
+
+    const typewriter: Typewriter | null = playbackState === 'playing' && playbackStop?.text && !playbackStop.isRevealed && !isSkipping && readingSettings.textSpeed > 0
+        ? { startedAt: playbackStop.startedAt, charactersPerSecond: readingSettings.textSpeed }
+        : null;
+    const typingEndsAt = typewriter && playbackStop?.text
+        ? typewriter.startedAt + getTypingDurationMs(parseDialogueMarkup(playbackStop.text), typewriter.charactersPerSecond)
+        : 0;
+
+    // A click while a line is typing out shows the rest of it; the next click moves on.
+    const handlePlaybackClick = () => {
+        if (playbackStop && performance.now() < typingEndsAt) {
+            setPlaybackStop({ ...playbackStop, isRevealed: true });
+            return;
+        }
+        handlePlaybackAdvance();
+    };
+
+    // Leaves the catch-up, showing the scene as it stands after the latest entry.
+    const handleSkipToEnd = () => {
+        storyAudioRef.current?.stopVoice();
+        stopSpeaking();
+        setPlaybackLogIndex(logsToPlay.length);
+    };
+
+    useEffect(() => {
+        if (playbackState !== 'playing' || !playbackStop) return;
+        if (isSkipping && !playbackStop.wasSeen) {
+            setIsSkipping(false);
+            return;
+        }
+        let delayMs = SKIP_LINE_MS;
+        if (!isSkipping) {
+            // Voiced and read-aloud lines already move on once they have been heard.
+            if (!readingSettings.autoAdvance || voicedLineIndex.current === playbackStop.logIndex) return;
+            delayMs = Math.max(0, typingEndsAt - performance.now()) + getAutoAdvanceDelayMs(playbackStop.text || '');
+        }
+        const timer = setTimeout(() => advancePlaybackRef.current(), delayMs);
+        return () => clearTimeout(timer);
+    }, [playbackState, playbackStop, isSkipping, readingSettings.autoAdvance, typingEndsAt]);
 
     const canSendMessage = !isSpectatingGm && (gameData.players.length > 0 || gameMode === 'online-player');
 
@@ -658,23 +1182,56 @@ export const GameView: React.FC<GameViewProps> = ({
 
     return (
         <div>
+            {editingVoiceIndex !== null && (
+                <VoiceClipPopover logIndex={editingVoiceIndex} gameData={gameData} dispatch={dispatch} onClose={() => setEditingVoiceIndex(null)} />
+            )}
             <div className="flex flex-col md:flex-row gap-4">
                 <div className="w-full md:w-2/3">
                     <Visuals 
                       scene={combinedScene} 
                       characters={gameData.characters} 
                       assets={gameData.assets} 
-                      onClick={handlePlaybackAdvance}
+                      onClick={handlePlaybackClick}
                       isPlayingBack={playbackState === 'playing'}
+                      screenEffects={screenEffects}
+                      typewriter={typewriter}
                     />
+                    <div className="flex flex-wrap items-center gap-3 mt-2 text-sm text-gray-300">
+                        <label className="flex items-center gap-1" title="How fast lines type out during playback">
+                            Text Speed
+                            <select value={readingSettings.textSpeed} onChange={e => onReadingSettingsChange({ ...readingSettings, textSpeed: Number(e.target.value) })} className="p-1 bg-accent rounded-md text-sm">
+                                {TEXT_SPEEDS.map(speed => <option key={speed.label} value={speed.charactersPerSecond}>{speed.label}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-1 cursor-pointer" title="Move on from each line once there has been time to read it">
+                            <input type="checkbox" checked={readingSettings.autoAdvance} onChange={e => onReadingSettingsChange({ ...readingSettings, autoAdvance: e.target.checked })} />
+                            Auto
+                        </label>
+                        {playbackState === 'playing' && (
+                            <div className="ml-auto flex gap-2">
+                                <button onClick={() => setIsSkipping(!isSkipping)} disabled={!isSkipping && !playbackStop?.wasSeen} className={`px-2 py-1 rounded-md ${isSkipping ? 'bg-highlight text-white' : 'bg-accent hover:bg-opacity-75'} disabled:opacity-50`} title="Fast-forward through lines already shown on this screen, stopping at the first new one">
+                                    Skip Seen
+                                </button>
+                                <button onClick={handleSkipToEnd} className="px-2 py-1 bg-accent rounded-md hover:bg-opacity-75" title="Skip the rest of the catch-up">
+                                    {isMyTurn ? 'Skip to My Turn' : 'Skip to Latest'}
+                                </button>
+                            </div>
+                        )}
+                    </div>
                 </div>
                 <div className="w-full md:w-1/3 bg-secondary p-4 rounded-lg flex flex-col h-[75vh]">
                     <div className="flex border-b border-accent mb-2">
                         <button onClick={() => setActiveSideTab('history')} className={`px-4 py-1 ${activeSideTab === 'history' ? 'text-highlight border-b-2 border-highlight' : 'text-light'}`}>History</button>
                         <button onClick={() => setActiveSideTab('status')} className={`px-4 py-1 ${activeSideTab === 'status' ? 'text-highlight border-b-2 border-highlight' : 'text-light'}`}>Status & Quests</button>
+                        {isSpeechSupported() && (
+                            <label className="ml-auto flex items-center gap-1 px-2 text-sm text-gray-300 cursor-pointer" title="Read lines without a voice clip aloud, in each character's voice">
+                                <input type="checkbox" checked={readAloud} onChange={e => onReadAloudChange(e.target.checked)} />
+                                Read Aloud
+                            </label>
+                        )}
                     </div>
-                    {activeSideTab === 'history' && <HistoryLogContent gameData={gameData} />}
-                    {activeSideTab === 'status' && <StatusContent gameData={gameData} />}
+                    {activeSideTab === 'history' && <HistoryLogContent gameData={gameData} showHiddenVariables={canSeeHiddenVariables} onEditVoice={gameMode === 'online-player' ? undefined : setEditingVoiceIndex} />}
+                    {activeSideTab === 'status' && <StatusContent gameData={gameData} showHiddenVariables={canSeeHiddenVariables} />}
                 </div>
             </div>
             {!isSpectatingGm && currentPlayer ? (
@@ -686,6 +1243,11 @@ export const GameView: React.FC<GameViewProps> = ({
                   currentPlayer={currentPlayer}
                   currentPlayerIndex={currentPlayerIndex}
                   onSceneChange={handleSceneChange}
+                  sprites={combinedScene.sprites}
+                  onPreviewSoundEffect={handlePreviewSoundEffect}
+                  onPreviewScreenEffect={handlePreviewScreenEffect}
+                  voiceNeedsApproval={gameMode === 'online-player'}
+                  canSetChoiceEffects={gameMode !== 'online-player'}
                   isPlayingBack={playbackState === 'playing'}
               />
             ) : (
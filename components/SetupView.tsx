@@ -1,21 +1,27 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { GameData, Player, AssetType, Character, Asset, SavedSession } from '../types';
 import { Action } from '../state/reducer';
-import { MAX_PLAYERS } from '../constants';
+import { MAX_PLAYERS, MAX_AUDIO_UPLOAD_BYTES, NARRATOR_CHARACTER } from '../constants';
 import PremadeAssetBrowser from './PremadeAssetBrowser';
+import AssetThumbnail, { ASSET_TYPE_LABELS, isAudioAsset } from './AssetThumbnail';
 import CharacterEditor from './CharacterEditor';
+import CharacterVoicePicker from './CharacterVoicePicker';
 import LobbyChat from './LobbyChat';
+import StoryAuthor from './StoryAuthor';
+import { downloadGameArchiveWithAlerts, ARCHIVE_EXTENSION } from '../services/archiveService';
 
 interface SetupViewProps {
   gameData: GameData;
   dispatch: React.Dispatch<Action>;
   onStartLocalGame: () => void;
+  onStartReading: () => void;
   onHostOnlineGame: (options: { asPlayer: boolean, playerName: string }) => void;
   onJoinOnlineGame: (gameId: string, playerName: string) => void;
   gameId: string | null;
   onStartGameForEveryone: () => void;
   onSendLobbyMessage: (message: string) => void;
   onPreviewAsset: (asset: Asset) => void;
+  onImportArchive: (file: File) => Promise<boolean>;
   // Dashboard props
   savedSessions: SavedSession[];
   onRejoinSession: (session: SavedSession) => void;
@@ -68,7 +74,7 @@ const GameDashboard: React.FC<GameDashboardProps> = ({ sessions, onRejoin, onLea
 };
 
 
-const GameSetup: React.FC<Omit<SetupViewProps, 'onHostOnlineGame' | 'onJoinOnlineGame' | 'gameId' | 'onStartGameForEveryone' | 'onStartLocalGame' | 'onSendLobbyMessage' | 'savedSessions' | 'onRejoinSession' | 'onLeaveSession' | 'onDeleteSession' | 'typingUsers' | 'myPlayerId' | 'onTypingChange'> & { onStartGame: (options?: { asPlayer: boolean, playerName: string }) => void, isOnline: boolean }> = ({ gameData, dispatch, onStartGame, isOnline, onPreviewAsset }) => {
+const GameSetup: React.FC<Omit<SetupViewProps, 'onHostOnlineGame' | 'onJoinOnlineGame' | 'gameId' | 'onStartGameForEveryone' | 'onStartLocalGame' | 'onStartReading' | 'onSendLobbyMessage' | 'savedSessions' | 'onRejoinSession' | 'onLeaveSession' | 'onDeleteSession' | 'typingUsers' | 'myPlayerId' | 'onTypingChange'> & { onStartGame: (options?: { asPlayer: boolean, playerName: string }) => void, isOnline: boolean, isReader?: boolean }> = ({ gameData, dispatch, onStartGame, isOnline, isReader, onPreviewAsset, onImportArchive }) => {
     const [activeTab, setActiveTab] = useState('game');
     const [assetUrl, setAssetUrl] = useState('');
     const [assetName, setAssetName] = useState('');
@@ -76,8 +82,15 @@ const GameSetup: React.FC<Omit<SetupViewProps, 'onHostOnlineGame' | 'onJoinOnlin
     const [hostAsPlayer, setHostAsPlayer] = useState(true);
     const [hostPlayerName, setHostPlayerName] = useState('Player 1');
     const [error, setError] = useState<string | null>(null);
+    const [isArchiving, setIsArchiving] = useState(false);
     const { players } = gameData;
     
+    const handleExportArchive = async () => {
+        setIsArchiving(true);
+        await downloadGameArchiveWithAlerts(gameData);
+        setIsArchiving(false);
+    };
+
 
     const handlePlayerNameChange = (id: string, name: string) => {
         const player = players.find(p => p.id === id);
@@ -98,6 +111,8 @@ const GameSetup: React.FC<Omit<SetupViewProps, 'onHostOnlineGame' | 'onJoinOnlin
         dispatch({ type: 'ADD_CHARACTER', payload: { name: 'New Character', bio: '', spriteAssetIds: [] } });
     }
 
+    const narrator = gameData.characters.find(c => c.id === NARRATOR_CHARACTER.id);
+
     const updateCharacter = (character: Character) => {
         dispatch({ type: 'UPDATE_CHARACTER', payload: character });
     }
@@ -111,7 +126,9 @@ const GameSetup: React.FC<Omit<SetupViewProps, 'onHostOnlineGame' | 'onJoinOnlin
     
     const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>, type: AssetType) => {
         const file = event.target.files?.[0];
-        if (file) {
+        if (file && isAudioAsset({ type }) && file.size > MAX_AUDIO_UPLOAD_BYTES) {
+            alert('Audio file is too large. Please choose a file smaller than 11MB.');
+        } else if (file) {
             const reader = new FileReader();
             reader.onload = (e) => {
                 const url = e.target?.result as string;
@@ -145,7 +162,15 @@ const GameSetup: React.FC<Omit<SetupViewProps, 'onHostOnlineGame' | 'onJoinOnlin
             return;
         }
 
-        if (isOnline) {
+        if (isReader) {
+            const { scenes, startSceneId } = gameData.authoredStory;
+            if (!scenes.some(s => s.id === startSceneId)) {
+                setError('Choose the scene the story starts at on the Story tab.');
+                return;
+            }
+            setError(null);
+            onStartGame();
+        } else if (isOnline) {
             if (hostAsPlayer && !hostPlayerName.trim()) {
                 setError('Please enter a name for Player 1.');
                 return;
@@ -174,9 +199,10 @@ const GameSetup: React.FC<Omit<SetupViewProps, 'onHostOnlineGame' | 'onJoinOnlin
     return (
         <>
             <div className="flex border-b border-accent mb-4">
-                <button onClick={() => setActiveTab('game')} className={`px-4 py-2 ${activeTab === 'game' ? 'text-highlight border-b-2 border-highlight' : 'text-light'}`}>Game & Players</button>
+                <button onClick={() => setActiveTab('game')} className={`px-4 py-2 ${activeTab === 'game' ? 'text-highlight border-b-2 border-highlight' : 'text-light'}`}>{isReader ? 'Game' : 'Game & Players'}</button>
                 <button onClick={() => setActiveTab('characters')} className={`px-4 py-2 ${activeTab === 'characters' ? 'text-highlight border-b-2 border-highlight' : 'text-light'}`}>Characters</button>
                 <button onClick={() => setActiveTab('assets')} className={`px-4 py-2 ${activeTab === 'assets' ? 'text-highlight border-b-2 border-highlight' : 'text-light'}`}>Assets</button>
+                {isReader && <button onClick={() => setActiveTab('story')} className={`px-4 py-2 ${activeTab === 'story' ? 'text-highlight border-b-2 border-highlight' : 'text-light'}`}>Story</button>}
             </div>
 
             {activeTab === 'game' && (
@@ -189,6 +215,25 @@ const GameSetup: React.FC<Omit<SetupViewProps, 'onHostOnlineGame' | 'onJoinOnlin
                         <label className="text-lg font-semibold text-highlight">Game Master Rules</label>
                         <textarea value={gameData.gmRules} onChange={e => dispatch({type: 'UPDATE_GM_RULES', payload: e.target.value})} className="w-full mt-1 p-2 bg-accent rounded-md h-24 focus:ring-2 focus:ring-highlight outline-none" />
                     </div>
+                    <div>
+                        <h3 className="text-lg font-semibold text-highlight mb-2">Game Archive</h3>
+                        <div className="bg-accent p-3 rounded-md flex flex-wrap items-center gap-2">
+                            <button onClick={handleExportArchive} disabled={isArchiving} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-md text-sm disabled:bg-gray-500">
+                                {isArchiving ? 'Saving...' : 'Download Archive'}
+                            </button>
+                            <label className="px-4 py-2 bg-primary hover:bg-opacity-75 rounded-md cursor-pointer text-sm">
+                                Import Archive
+                                <input type="file" className="hidden" accept={ARCHIVE_EXTENSION} onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    e.target.value = '';
+                                    if (file && window.confirm('Importing an archive will replace everything set up here. Continue?')) {
+                                        onImportArchive(file);
+                                    }
+                                }} />
+                            </label>
+                            <p className="text-xs text-gray-400 w-full">Saves the whole game, assets included, as a <span className="font-mono">{ARCHIVE_EXTENSION}</span> file you can load again later.</p>
+                        </div>
+                    </div>
                     {isOnline && (
                         <div>
                             <h3 className="text-lg font-semibold text-highlight mb-2">Lobby Music</h3>
@@ -213,7 +258,7 @@ const GameSetup: React.FC<Omit<SetupViewProps, 'onHostOnlineGame' | 'onJoinOnlin
                                             onChange={(e) => {
                                                 const file = e.target.files?.[0];
                                                 if (file) {
-                                                    if (file.size > 11 * 1024 * 1024) { // 11MB limit
+                                                    if (file.size > MAX_AUDIO_UPLOAD_BYTES) {
                                                         alert('Music file is too large. Please choose a file smaller than 11MB.');
                                                         e.target.value = ''; // Reset file input
                                                         return;
@@ -232,7 +277,7 @@ const GameSetup: React.FC<Omit<SetupViewProps, 'onHostOnlineGame' | 'onJoinOnlin
                             </div>
                         </div>
                     )}
-                    <div>
+                    {!isReader && <div>
                         <h3 className="text-lg font-semibold text-highlight mb-2">Players</h3>
                         { isOnline ? (
                             <div className="bg-accent p-3 rounded-md text-sm">
@@ -273,12 +318,18 @@ const GameSetup: React.FC<Omit<SetupViewProps, 'onHostOnlineGame' | 'onJoinOnlin
                             <button onClick={addPlayer} disabled={players.length >= MAX_PLAYERS} className="mt-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-md disabled:bg-gray-500">Add Player Slot</button>
                            </>
                         )}
-                    </div>
+                    </div>}
                 </div>
             )}
             
             {activeTab === 'characters' && (
                 <div className="space-y-4">
+                     {narrator && (
+                        <div className="bg-accent p-4 rounded-lg">
+                            <h4 className="text-sm font-semibold mb-1">Narrator Voice</h4>
+                            <CharacterVoicePicker voice={narrator.ttsVoice} onChange={ttsVoice => updateCharacter({ ...narrator, ttsVoice })} sampleText="The story begins." />
+                        </div>
+                     )}
                      {gameData.characters.filter(c => c.id !== 'narrator').map(char => (
                         <CharacterEditor 
                             key={char.id}
@@ -292,6 +343,8 @@ const GameSetup: React.FC<Omit<SetupViewProps, 'onHostOnlineGame' | 'onJoinOnlin
                 </div>
             )}
             
+            {activeTab === 'story' && <StoryAuthor gameData={gameData} dispatch={dispatch} />}
+
             {activeTab === 'assets' && (
                 <div className="space-y-6">
                     <div>
@@ -300,6 +353,8 @@ const GameSetup: React.FC<Omit<SetupViewProps, 'onHostOnlineGame' | 'onJoinOnlin
                         <label className="px-4 py-2 bg-accent hover:bg-opacity-75 rounded-md cursor-pointer">Upload Background <input type="file" className="hidden" accept="image/*" onChange={e => handleFileChange(e, 'background')} /></label>
                         <label className="px-4 py-2 bg-accent hover:bg-opacity-75 rounded-md cursor-pointer">Upload Sprite <input type="file" className="hidden" accept="image/*,.webp" onChange={e => handleFileChange(e, 'characterSprite')} /></label>
                         <label className="px-4 py-2 bg-accent hover:bg-opacity-75 rounded-md cursor-pointer">Upload CG <input type="file" className="hidden" accept="image/*" onChange={e => handleFileChange(e, 'cg')} /></label>
+                        <label className="px-4 py-2 bg-accent hover:bg-opacity-75 rounded-md cursor-pointer">Upload Music <input type="file" className="hidden" accept="audio/*" onChange={e => handleFileChange(e, 'music')} /></label>
+                        <label className="px-4 py-2 bg-accent hover:bg-opacity-75 rounded-md cursor-pointer">Upload Sound Effect <input type="file" className="hidden" accept="audio/*" onChange={e => handleFileChange(e, 'sfx')} /></label>
                       </div>
                     </div>
 
@@ -309,7 +364,7 @@ const GameSetup: React.FC<Omit<SetupViewProps, 'onHostOnlineGame' | 'onJoinOnlin
                         <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
                             <div className="md:col-span-2 grid grid-cols-2 gap-2">
                             <div>
-                                <label htmlFor="asset-url-setup" className="text-xs text-gray-400 block mb-1">Image URL</label>
+                                <label htmlFor="asset-url-setup" className="text-xs text-gray-400 block mb-1">File URL</label>
                                 <input
                                 id="asset-url-setup"
                                 type="url"
@@ -343,6 +398,8 @@ const GameSetup: React.FC<Omit<SetupViewProps, 'onHostOnlineGame' | 'onJoinOnlin
                                         <option value="background">Background</option>
                                         <option value="characterSprite">Sprite</option>
                                         <option value="cg">CG</option>
+                                        <option value="music">Music</option>
+                                        <option value="sfx">Sound Effect</option>
                                     </select>
                                 </div>
                                 <button
@@ -379,9 +436,9 @@ const GameSetup: React.FC<Omit<SetupViewProps, 'onHostOnlineGame' | 'onJoinOnlin
                                 >
                                     &times;
                                 </button>
-                                <img src={asset.url} alt={asset.name} className="w-full h-32 object-cover rounded-md mb-2 cursor-pointer" onClick={() => onPreviewAsset(asset)} />
+                                <AssetThumbnail asset={asset} className="w-full h-32 rounded-md mb-2" onPreview={onPreviewAsset} />
                                 <p className="text-sm truncate" title={asset.name}>{asset.name}</p>
-                                <p className="text-xs text-gray-400 capitalize">{asset.type.replace('Sprite', ' Sprite')}</p>
+                                <p className="text-xs text-gray-400">{ASSET_TYPE_LABELS[asset.type]}</p>
                             </div>
                         ))}
                     </div>
@@ -393,7 +450,7 @@ const GameSetup: React.FC<Omit<SetupViewProps, 'onHostOnlineGame' | 'onJoinOnlin
                 <button 
                     onClick={handleStartGameClick} 
                     className="px-8 py-4 bg-highlight text-white text-xl font-bold rounded-lg hover:bg-opacity-80 transition-transform hover:scale-105">
-                        {isOnline ? 'Host Game & Get ID' : 'Start Local Game'}
+                        {isReader ? 'Start Reading' : isOnline ? 'Host Game & Get ID' : 'Start Local Game'}
                 </button>
             </div>
         </>
@@ -402,7 +459,7 @@ const GameSetup: React.FC<Omit<SetupViewProps, 'onHostOnlineGame' | 'onJoinOnlin
 
 
 const SetupView: React.FC<SetupViewProps> = (props) => {
-    const [mode, setMode] = useState<'menu' | 'local' | 'host' | 'join'>('menu');
+    const [mode, setMode] = useState<'menu' | 'local' | 'host' | 'join' | 'reader'>('menu');
     const [joinGameId, setJoinGameId] = useState('');
     const [joinPlayerName, setJoinPlayerName] = useState('');
     const [joinError, setJoinError] = useState<string | null>(null);
@@ -473,6 +530,8 @@ const SetupView: React.FC<SetupViewProps> = (props) => {
         switch (mode) {
             case 'local':
                 return <GameSetup {...props} onStartGame={props.onStartLocalGame} isOnline={false} />;
+            case 'reader':
+                return <GameSetup {...props} onStartGame={props.onStartReading} isOnline={false} isReader={true} />;
             case 'host':
                  return <GameSetup {...props} onStartGame={props.onHostOnlineGame} isOnline={true} />;
             case 'join':
@@ -517,7 +576,20 @@ const SetupView: React.FC<SetupViewProps> = (props) => {
                              <button onClick={() => setMode('join')} className="px-8 py-4 bg-green-600 text-white text-xl font-bold rounded-lg hover:bg-green-700 transition-transform hover:scale-105">
                                 Join Online Game
                             </button>
+                             <button onClick={() => setMode('reader')} className="px-8 py-4 bg-yellow-600 text-white text-xl font-bold rounded-lg hover:bg-yellow-700 transition-transform hover:scale-105">
+                                Write & Read a Story
+                            </button>
                          </div>
+                         <label className="inline-block mt-4 px-6 py-2 bg-accent hover:bg-opacity-75 rounded-lg cursor-pointer font-bold">
+                            Load Game Archive ({ARCHIVE_EXTENSION})
+                            <input type="file" className="hidden" accept={ARCHIVE_EXTENSION} onChange={async (e) => {
+                                const file = e.target.files?.[0];
+                                e.target.value = '';
+                                if (file && await props.onImportArchive(file)) {
+                                    setMode('local');
+                                }
+                            }} />
+                         </label>
                          <GameDashboard 
                             sessions={props.savedSessions}
                             onRejoin={props.onRejoinSession}
@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { GameData, AuthoredStoryEntry, StoryBranch, StoryScene } from '../types';
+import { Action } from '../state/reducer';
+import { NARRATOR_CHARACTER, INITIAL_GAME_DATA } from '../constants';
+import { describeEffect } from '../state/effects';
+import { describeRequirement } from '../state/choiceRequirements';
+import { importTweeStory } from '../services/tweeImportService';
+import { ChoiceEffectsPopover } from './GameView';
+
+interface StoryAuthorProps {
+  gameData: GameData;
+  dispatch: React.Dispatch<Action>;
+}
+
+const ENTRY_LABELS: Record<AuthoredStoryEntry['type'], string> = {
+    dialogue: 'Dialogue',
+    background_change: 'Background',
+    sprite_change: 'Sprite',
+    cg_show: 'CG',
+};
+
+const createEntry = (type: AuthoredStoryEntry['type']): AuthoredStoryEntry => {
+    switch (type) {
+        case 'dialogue': return { type, characterId: NARRATOR_CHARACTER.id, text: '' };
+        case 'background_change': return { type, assetId: null };
+        case 'sprite_change': return { type, characterId: NARRATOR_CHARACTER.id, assetId: null };
+        case 'cg_show': return { type, assetId: null };
+    }
+};
+
+// Writes an authored story: a list of scenes, each a run of entries ending in branches that jump
+// to other scenes, or in a link to the next scene.
+const StoryAuthor: React.FC<StoryAuthorProps> = ({ gameData, dispatch }) => {
+    const story = gameData.authoredStory;
+    const [selectedSceneId, setSelectedSceneId] = useState<string | null>(story.scenes[0]?.id || null);
+    const [newEntryType, setNewEntryType] = useState<AuthoredStoryEntry['type']>('dialogue');
+    const [editingBranchIndex, setEditingBranchIndex] = useState<number | null>(null);
+    const [importWarnings, setImportWarnings] = useState<string[]>([]);
+
+    const scene = story.scenes.find(s => s.id === selectedSceneId);
+    const characters = gameData.characters;
+    const assetsOfType = (type: string) => gameData.assets.filter(a => a.type === type && a.isPublished);
+
+    const updateScene = (changes: Partial<StoryScene>) => {
+        if (scene) dispatch({ type: 'UPDATE_STORY_SCENE', payload: { ...scene, ...changes } });
+    };
+    const updateEntry = (index: number, entry: AuthoredStoryEntry) => updateScene({ entries: scene!.entries.map((e, i) => i === index ? entry : e) });
+    const moveEntry = (index: number, offset: number) => {
+        const entries = [...scene!.entries];
+        const [entry] = entries.splice(index, 1);
+        entries.splice(index + offset, 0, entry);
+        updateScene({ entries });
+    };
+    const updateBranch = (index: number, branch: StoryBranch) => updateScene({ choices: scene!.choices.map((c, i) => i === index ? branch : c) });
+
+    const handleAddScene = () => {
+        const title = window.prompt('Scene title:', `Scene ${story.scenes.length + 1}`)?.trim();
+        if (!title) return;
+        dispatch({ type: 'ADD_STORY_SCENE', payload: { title } });
+    };
+
+    const handleDeleteScene = () => {
+        if (!scene || !window.confirm(`Delete "${scene.title}"? Branches leading to it will end the story instead.`)) return;
+        dispatch({ type: 'DELETE_STORY_SCENE', payload: { id: scene.id } });
+        setSelectedSceneId(null);
+    };
+
+    const handleImportTwee = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        if (story.scenes.length > 0 && !window.confirm('Importing a Twee file replaces every scene written here. Continue?')) return;
+        try {
+            const { story: imported, title, warnings } = importTweeStory(await file.text(), gameData);
+            dispatch({ type: 'SET_AUTHORED_STORY', payload: imported });
+            if (title && gameData.title === INITIAL_GAME_DATA.title) {
+                dispatch({ type: 'UPDATE_TITLE', payload: title });
+            }
+            setSelectedSceneId(imported.startSceneId);
+            setEditingBranchIndex(null);
+            setImportWarnings(warnings);
+        } catch (error) {
+            console.error("Twee import failed:", error);
+            alert(`Twee import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    };
+
+    const renderSceneSelect = (value: string | null, onChange: (id: string | null) => void, emptyLabel: string) => (
+        <select value={value || ''} onChange={e => onChange(e.target.value || null)} className="p-1 bg-primary rounded-md text-sm">
+            <option value="">{emptyLabel}</option>
+            {story.scenes.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+        </select>
+    );
+
+    const renderEntryFields = (entry: AuthoredStoryEntry, index: number) => {
+        switch (entry.type) {
+            case 'dialogue':
+                return <>
+                    <select value={entry.characterId} onChange={e => updateEntry(index, { ...entry, characterId: e.target.value })} className="p-1 bg-primary rounded-md text-sm">
+                        {characters.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                    <textarea value={entry.text} onChange={e => updateEntry(index, { ...entry, text: e.target.value })} placeholder="What do they say?" className="w-full p-2 bg-primary rounded-md text-sm h-16" />
+                </>;
+            case 'sprite_change': {
+                const character = characters.find(c => c.id === entry.characterId);
+                return <>
+                    <select value={entry.characterId} onChange={e => updateEntry(index, { ...entry, characterId: e.target.value, assetId: null })} className="p-1 bg-primary rounded-md text-sm">
+                        {characters.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                    <select value={entry.assetId || ''} onChange={e => updateEntry(index, { ...entry, assetId: e.target.value || null })} className="flex-1 min-w-0 p-1 bg-primary rounded-md text-sm">
+                        <option value="">- Hide Sprite -</option>
+                        {gameData.assets.filter(a => character?.spriteAssetIds.includes(a.id)).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                    </select>
+                </>;
+            }
+            case 'background_change':
+            case 'cg_show':
+                return (
+                    <select value={entry.assetId || ''} onChange={e => updateEntry(index, { ...entry, assetId: e.target.value || null })} className="flex-1 min-w-0 p-1 bg-primary rounded-md text-sm">
+                        <option value="">{entry.type === 'cg_show' ? '- Hide CG -' : '- Clear BG -'}</option>
+                        {assetsOfType(entry.type === 'cg_show' ? 'cg' : 'background').map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                    </select>
+                );
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="bg-accent p-3 rounded-md flex flex-wrap items-center gap-4 text-sm">
+                <label className="flex items-center gap-2">
+                    Starts at
+                    {renderSceneSelect(story.startSceneId, sceneId => dispatch({ type: 'SET_STORY_START', payload: { sceneId } }), '-- Choose a scene --')}
+                </label>
+                <label className="flex items-center gap-2" title="Stat requirements on choices are checked against this character">
+                    Reader plays as
+                    <select value={story.protagonistId || ''} onChange={e => dispatch({ type: 'SET_STORY_PROTAGONIST', payload: { characterId: e.target.value || null } })} className="p-1 bg-primary rounded-md text-sm">
+                        <option value="">{NARRATOR_CHARACTER.name}</option>
+                        {characters.filter(c => c.id !== NARRATOR_CHARACTER.id).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                </label>
+                <label className="ml-auto px-3 py-1 bg-primary hover:bg-opacity-75 rounded-md cursor-pointer" title="Passages become scenes and links become choices. Tag passages with bg:<background> or speaker:<character>.">
+                    Import Twee
+                    <input type="file" className="hidden" accept=".twee,.tw,.txt" onChange={handleImportTwee} />
+                </label>
+            </div>
+
+            {importWarnings.length > 0 && (
+                <div className="bg-yellow-900 bg-opacity-50 border border-yellow-600 p-3 rounded-md text-sm">
+                    <div className="flex justify-between items-center mb-1">
+                        <p className="font-bold text-yellow-300">The Twee file was imported with {importWarnings.length} warning{importWarnings.length === 1 ? '' : 's'}:</p>
+                        <button onClick={() => setImportWarnings([])} className="text-gray-300 hover:text-white font-bold px-1">X</button>
+                    </div>
+                    <ul className="list-disc pl-5 max-h-40 overflow-y-auto text-gray-200">
+                        {importWarnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                    </ul>
+                </div>
+            )}
+
+            <div className="flex flex-col md:flex-row gap-4">
+                <div className="md:w-1/4 space-y-2">
+                    {story.scenes.map(s => (
+                        <button key={s.id} onClick={() => { setSelectedSceneId(s.id); setEditingBranchIndex(null); }} className={`w-full text-left p-2 rounded-md text-sm ${s.id === selectedSceneId ? 'bg-highlight text-white' : 'bg-accent hover:bg-opacity-75'}`}>
+                            {s.id === story.startSceneId && <span className="mr-1" title="Starting scene">▶</span>}
+                            {s.title}
+                            <span className="block text-xs opacity-75">{s.entries.length} entries, {s.choices.length} choices</span>
+                        </button>
+                    ))}
+                    <button onClick={handleAddScene} className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-md text-sm">Add Scene</button>
+                </div>
+
+                {scene ? (
+                    <div className="md:w-3/4 space-y-4">
+                        <div className="flex items-center gap-2">
+                            <input type="text" value={scene.title} onChange={e => updateScene({ title: e.target.value })} className="flex-1 p-2 bg-accent rounded-md font-semibold" />
+                            <button onClick={handleDeleteScene} className="px-3 py-2 bg-red-700 hover:bg-red-800 rounded-md text-sm">Delete Scene</button>
+                        </div>
+
+                        <div>
+                            <h3 className="text-lg font-semibold text-highlight mb-2">Entries</h3>
+                            <div className="space-y-2">
+                                {scene.entries.length === 0 && <p className="text-sm text-gray-400 italic">This scene is empty.</p>}
+                                {scene.entries.map((entry, index) => (
+                                    <div key={index} className="bg-accent p-2 rounded-md">
+                                        <div className="flex justify-between items-center mb-1">
+                                            <span className="text-xs font-bold text-gray-300">{ENTRY_LABELS[entry.type]}</span>
+                                            <div className="flex gap-1">
+                                                <button onClick={() => moveEntry(index, -1)} disabled={index === 0} className="px-1 text-gray-300 hover:text-white disabled:opacity-30">↑</button>
+                                                <button onClick={() => moveEntry(index, 1)} disabled={index === scene.entries.length - 1} className="px-1 text-gray-300 hover:text-white disabled:opacity-30">↓</button>
+                                                <button onClick={() => updateScene({ entries: scene.entries.filter((_, i) => i !== index) })} className="text-red-500 hover:text-red-400 px-1 font-bold">X</button>
+                                            </div>
+                                        </div>
+                                        <div className="flex flex-wrap items-center gap-2">
+                                            {renderEntryFields(entry, index)}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="flex gap-2 mt-2">
+                                <select value={newEntryType} onChange={e => setNewEntryType(e.target.value as AuthoredStoryEntry['type'])} className="p-1 bg-accent rounded-md text-sm">
+                                    {Object.entries(ENTRY_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+                                </select>
+                                <button onClick={() => updateScene({ entries: [...scene.entries, createEntry(newEntryType)] })} className="text-xs px-2 py-1 bg-accent rounded-md hover:bg-opacity-75">+ Add Entry</button>
+                            </div>
+                        </div>
+
+                        <div>
+                            <h3 className="text-lg font-semibold text-highlight mb-2">Choices</h3>
+                            <p className="text-xs text-gray-400 mb-2">Shown after the last entry. Each choice jumps to a scene, or ends the story if it has none.</p>
+                            <div className="space-y-2">
+                                {scene.choices.map((branch, index) => (
+                                    <div key={index} className="bg-accent p-2 rounded-md space-y-1">
+                                        <div className="flex flex-wrap items-center gap-2">
+                                            <input type="text" value={branch.text} onChange={e => updateBranch(index, { ...branch, text: e.target.value })} placeholder="Choice text" className="flex-1 min-w-0 p-1 bg-primary rounded-md text-sm" />
+                                            <span className="text-sm">→</span>
+                                            {renderSceneSelect(branch.targetSceneId, targetSceneId => updateBranch(index, { ...branch, targetSceneId }), 'The End')}
+                                            <button onClick={() => setEditingBranchIndex(index)} className="text-xs px-2 py-1 bg-primary rounded-md hover:bg-opacity-75">Effects & Requirements</button>
+                                            <button onClick={() => updateScene({ choices: scene.choices.filter((_, i) => i !== index) })} className="text-red-500 hover:text-red-400 px-1 font-bold">X</button>
+                                        </div>
+                                        {((branch.effects || []).length > 0 || (branch.requirements || []).length > 0) && (
+                                            <p className="text-xs text-gray-400">
+                                                {[...(branch.requirements || []).map(r => `Requires ${describeRequirement(r, gameData)}`), ...(branch.effects || []).map(e => describeEffect(e, gameData))].join('; ')}
+                                            </p>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                            <button onClick={() => updateScene({ choices: [...scene.choices, { text: '', targetSceneId: null }] })} className="mt-2 text-xs px-2 py-1 bg-accent rounded-md hover:bg-opacity-75">+ Add Choice</button>
+                        </div>
+
+                        <label className="flex items-center gap-2 text-sm">
+                            {scene.choices.length === 0 ? 'Then continue to' : 'If every choice is locked, continue to'}
+                            {renderSceneSelect(scene.nextSceneId, nextSceneId => updateScene({ nextSceneId }), 'The End')}
+                        </label>
+                    </div>
+                ) : (
+                    <p className="md:w-3/4 text-gray-400 italic">{story.scenes.length === 0 ? 'Add a scene to start writing.' : 'Select a scene to edit it.'}</p>
+                )}
+            </div>
+
+            {scene && editingBranchIndex !== null && scene.choices[editingBranchIndex] && (
+                <ChoiceEffectsPopover
+                    choice={scene.choices[editingBranchIndex]}
+                    onUpdate={choice => updateBranch(editingBranchIndex, choice as StoryBranch)}
+                    gameData={gameData}
+                    onClose={() => setEditingBranchIndex(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default StoryAuthor;
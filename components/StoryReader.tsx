@@ -0,0 +1,119 @@
+import React, { useState, useRef } from 'react';
+import { GameData, Player, ChoiceSelectionLogEntry, StoryBranch } from '../types';
+import { Action } from '../state/reducer';
+import { NARRATOR_CHARACTER } from '../constants';
+import { getLockReason } from '../state/choiceRequirements';
+import { getStartPosition, getNextReaderStep, followBranch, followLockedChoices, toOfferedChoice, ReaderPosition } from '../state/authoredStory';
+import { SceneState, EMPTY_SCENE, reduceScene } from '../state/scene';
+import { Visuals, HistoryLogContent, StatusContent } from './GameView';
+
+interface StoryReaderProps {
+  gameData: GameData;
+  dispatch: React.Dispatch<Action>;
+  reader: Player;
+}
+
+// Plays an authored story for a single reader. Every click adds the next entries to the story log,
+// and the scene shown is rebuilt from the log, so history and status work as in a normal game.
+const StoryReader: React.FC<StoryReaderProps> = ({ gameData, dispatch, reader }) => {
+    const story = gameData.authoredStory;
+    const [position, setPosition] = useState<ReaderPosition>(() => getStartPosition(story));
+    const [activeSideTab, setActiveSideTab] = useState<'history' | 'status'>('history');
+    // The game as it was before the first click, so the reader can start over with a clean slate.
+    const initialGameData = useRef(gameData);
+
+    const step = getNextReaderStep(story, position);
+    const characterId = gameData.characters.some(c => c.id === story.protagonistId) ? story.protagonistId! : NARRATOR_CHARACTER.id;
+
+    let scene: SceneState = EMPTY_SCENE;
+    for (const log of gameData.storyLog) {
+        scene = reduceScene(log, scene);
+        if (log.type === 'dialogue') {
+            scene.dialogue = { characterName: gameData.characters.find(c => c.id === log.characterId)?.name || 'Unknown', text: log.text };
+        } else if (log.type === 'choice_selection') {
+            scene.dialogue = { characterName: reader.name, text: `Chose: "${log.choice.text}"` };
+        } else if (log.type === 'choice') {
+            scene.dialogue = null;
+        }
+    }
+
+    const handleAdvance = () => {
+        if (step.kind !== 'entries') return;
+        step.entries.forEach(entry => dispatch({ type: 'ADD_LOG_ENTRY', payload: entry }));
+        setPosition(step.position);
+    };
+
+    const handleChoose = (branch: StoryBranch) => {
+        const entry: ChoiceSelectionLogEntry = { type: 'choice_selection', playerId: reader.id, characterId, choice: toOfferedChoice(branch) };
+        dispatch({ type: 'ADD_LOG_ENTRY', payload: entry });
+        setPosition(followBranch(story, branch));
+    };
+
+    const isLockedOut = step.kind === 'choosing' && step.choices.every(branch => getLockReason(branch, { gameData, playerId: reader.id, characterId }));
+
+    const handleStartOver = () => {
+        if (!window.confirm('Start the story over from the beginning?')) return;
+        dispatch({ type: 'SET_GAME_DATA', payload: initialGameData.current });
+        setPosition(getStartPosition(story));
+    };
+
+    return (
+        <div>
+            <div className="flex flex-col md:flex-row gap-4">
+                <div className="w-full md:w-2/3">
+                    <Visuals
+                      scene={scene}
+                      characters={gameData.characters}
+                      assets={gameData.assets}
+                      onClick={handleAdvance}
+                      isPlayingBack={step.kind === 'entries'}
+                    />
+                </div>
+                <div className="w-full md:w-1/3 bg-secondary p-4 rounded-lg flex flex-col h-[75vh]">
+                    <div className="flex border-b border-accent mb-2">
+                        <button onClick={() => setActiveSideTab('history')} className={`px-4 py-1 ${activeSideTab === 'history' ? 'text-highlight border-b-2 border-highlight' : 'text-light'}`}>History</button>
+                        <button onClick={() => setActiveSideTab('status')} className={`px-4 py-1 ${activeSideTab === 'status' ? 'text-highlight border-b-2 border-highlight' : 'text-light'}`}>Status & Quests</button>
+                    </div>
+                    {activeSideTab === 'history' && <HistoryLogContent gameData={gameData} showHiddenVariables={false} />}
+                    {activeSideTab === 'status' && <StatusContent gameData={gameData} showHiddenVariables={false} />}
+                </div>
+            </div>
+            <div className="bg-secondary p-4 rounded-lg mt-4">
+                {step.kind === 'entries' && <p className="text-center text-gray-400">Click the scene to continue.</p>}
+                {step.kind === 'choosing' && (
+                    <div className="flex flex-col space-y-2">
+                        {step.choices.map((branch, index) => {
+                            const lockReason = getLockReason(branch, { gameData, playerId: reader.id, characterId });
+                            return (
+                                <button key={index} onClick={() => handleChoose(branch)} disabled={!!lockReason} className="w-full p-3 bg-accent rounded-md text-lg text-left hover:bg-highlight disabled:opacity-50 disabled:hover:bg-accent disabled:cursor-not-allowed">
+                                    {lockReason && <span className="mr-2">🔒</span>}
+                                    {branch.text}
+                                    {lockReason && <span className="block text-sm text-gray-400">{lockReason}</span>}
+                                </button>
+                            );
+                        })}
+                        {isLockedOut && (
+                            <div className="flex flex-wrap items-center justify-between gap-2 p-3 bg-primary rounded-md">
+                                <p className="text-sm text-gray-300">None of these choices are open to you.</p>
+                                <button onClick={() => setPosition(followLockedChoices(story, position))} className="px-4 py-2 bg-highlight text-white font-bold rounded-md hover:bg-opacity-80">Continue</button>
+                            </div>
+                        )}
+                    </div>
+                )}
+                {step.kind === 'end' && (
+                    <div className="text-center">
+                        <h3 className="text-2xl font-bold text-highlight mb-4">The End</h3>
+                        <button onClick={handleStartOver} className="px-6 py-2 bg-highlight text-white font-bold rounded-lg hover:bg-opacity-80">Start Over</button>
+                    </div>
+                )}
+                {step.kind !== 'end' && (
+                    <div className="text-right mt-2">
+                        <button onClick={handleStartOver} className="text-sm text-gray-400 hover:text-white">Start over</button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default StoryReader;
@@ -0,0 +1,102 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { MAX_AUDIO_UPLOAD_BYTES } from '../constants';
+
+export interface VoiceClip {
+    url: string; // data URL
+    name: string;
+}
+
+interface VoiceClipInputProps {
+    clip: VoiceClip | null;
+    onChange: (clip: VoiceClip | null) => void;
+}
+
+const readAsDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+// Records a voice clip with the microphone or takes an uploaded one, and plays back the result.
+const VoiceClipInput: React.FC<VoiceClipInputProps> = ({ clip, onChange }) => {
+    const [isRecording, setIsRecording] = useState(false);
+    const recorderRef = useRef<MediaRecorder | null>(null);
+
+    // Leaving mid-recording must still release the microphone.
+    useEffect(() => () => {
+        const recorder = recorderRef.current;
+        if (recorder && recorder.state !== 'inactive') {
+            recorder.onstop = null;
+            recorder.stop();
+            recorder.stream.getTracks().forEach(track => track.stop());
+        }
+    }, []);
+
+    const handleBlob = async (blob: Blob, name: string) => {
+        if (blob.size > MAX_AUDIO_UPLOAD_BYTES) {
+            alert('Voice clip is too large. Please keep it under 11MB.');
+            return;
+        }
+        try {
+            onChange({ url: await readAsDataUrl(blob), name });
+        } catch (error) {
+            console.error("Could not read the voice clip:", error);
+            alert('Could not read the voice clip.');
+        }
+    };
+
+    const startRecording = async () => {
+        if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+            alert('This browser cannot record audio. Please upload a clip instead.');
+            return;
+        }
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            const recorder = new MediaRecorder(stream);
+            const chunks: Blob[] = [];
+            recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+            recorder.onstop = () => {
+                stream.getTracks().forEach(track => track.stop());
+                setIsRecording(false);
+                handleBlob(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }), `Recording ${new Date().toLocaleTimeString()}`);
+            };
+            recorder.start();
+            recorderRef.current = recorder;
+            setIsRecording(true);
+        } catch (error) {
+            console.error("Could not start recording:", error);
+            alert(`Could not start recording: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    };
+
+    const stopRecording = () => recorderRef.current?.stop();
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (file) handleBlob(file, file.name);
+        event.target.value = '';
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+            {isRecording ? (
+                <button onClick={stopRecording} className="px-3 py-1 bg-red-600 hover:bg-red-700 rounded-md animate-pulse">■ Stop Recording</button>
+            ) : (
+                <button onClick={startRecording} className="px-3 py-1 bg-accent hover:bg-opacity-75 rounded-md">🎙️ Record Voice</button>
+            )}
+            <label className="px-3 py-1 bg-accent hover:bg-opacity-75 rounded-md cursor-pointer">
+                Upload Clip
+                <input type="file" className="hidden" accept="audio/*" onChange={handleFileChange} />
+            </label>
+            {clip && !isRecording && (
+                <>
+                    <audio src={clip.url} controls className="h-8 max-w-full" aria-label={clip.name} />
+                    <button onClick={() => onChange(null)} className="px-2 py-1 text-red-400 hover:text-red-300" aria-label="Remove voice clip">&times;</button>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default VoiceClipInput;
@@ -18,7 +18,11 @@ export const NARRATOR_CHARACTER: Character = {
   },
 };
 
+// Version of the GameData shape. See state/migrations.ts before changing it.
+export const CURRENT_SCHEMA_VERSION = 6;
+
 export const INITIAL_GAME_DATA: Omit<GameData, 'players'> = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   title: 'Untitled Adventure',
   gmRules: '1. Be respectful to other players.\n2. No NSFW content.\n3. The Game Master\'s decisions are final.\n4. Have fun!',
   assets: [],
@@ -29,6 +33,12 @@ export const INITIAL_GAME_DATA: Omit<GameData, 'players'> = {
   lobbyChatLog: [],
   lobbyMusicUrl: null,
   pendingAssetApprovals: [],
+  pendingSkillCheck: null,
+  variables: [],
+  authoredStory: { startSceneId: null, protagonistId: null, scenes: [] },
 };
 
 export const MAX_PLAYERS = 5;
+
+// Audio is stored as data URLs in the synced game, so uploads are kept small.
+export const MAX_AUDIO_UPLOAD_BYTES = 11 * 1024 * 1024;
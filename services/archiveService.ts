@@ -0,0 +1,163 @@
+import { GameData, Asset } from '../types';
+import { migrateGameData } from '../state/migrations';
+import { downloadBlob } from './downloadService';
+
+// A .vnforge archive is a gzipped JSON document holding the full GameData plus the binary of every
+// asset, so a campaign can be backed up, handed to another GM or resumed without Firebase.
+// Asset urls inside the archived GameData are replaced by `vnforge-asset:<assetId>` references into
+// `files`, which hold the binaries as data URLs.
+
+export const ARCHIVE_FORMAT = 'vnforge';
+export const ARCHIVE_VERSION = 1;
+export const ARCHIVE_EXTENSION = '.vnforge';
+
+const ASSET_REF_PREFIX = 'vnforge-asset:';
+
+export interface GameArchive {
+    format: typeof ARCHIVE_FORMAT;
+    archiveVersion: number;
+    exportedAt: number;
+    gameData: GameData;
+    files: Record<string, string>; // assetId -> data URL
+}
+
+export interface ArchiveExportResult {
+    blob: Blob;
+    // Assets whose binary could not be fetched. They are kept as links in the archive.
+    unbundledAssets: Asset[];
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+/**
+ * Downloads an asset's binary. Also used by the exports that bundle images.
+ * @throws Error if neither the asset's host nor the image proxy will serve it.
+ */
+export const fetchAssetBlob = async (url: string): Promise<Blob> => {
+    if (url.startsWith('data:')) return (await fetch(url)).blob();
+    // Most hosts refuse cross-origin reads, so fall back to the same image proxy the video export uses.
+    const candidates = [url, `https://images.weserv.nl/?url=${encodeURIComponent(url.replace(/^https?:\/\//, ''))}`];
+    let lastError: unknown = null;
+    for (const candidate of candidates) {
+        try {
+            const response = await fetch(candidate);
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            return await response.blob();
+        } catch (error) {
+            lastError = error;
+        }
+    }
+    throw lastError instanceof Error ? lastError : new Error(`Failed to fetch ${url}`);
+};
+
+/**
+ * Downloads an asset as a data URL, for exports that inline their images.
+ */
+export const fetchAsDataUrl = async (url: string): Promise<string> => {
+    if (url.startsWith('data:')) return url;
+    return blobToDataUrl(await fetchAssetBlob(url));
+};
+
+const gzip = async (text: string): Promise<Blob> => {
+    const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+    return new Response(stream).blob();
+};
+
+const readArchiveText = async (file: Blob): Promise<string> => {
+    const header = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+    const isGzipped = header[0] === 0x1f && header[1] === 0x8b;
+    if (!isGzipped) return file.text(); // Plain JSON, e.g. a hand-edited archive.
+    const stream = file.stream().pipeThrough(new DecompressionStream('gzip'));
+    return new Response(stream).text();
+};
+
+/**
+ * Bundles a game and all its asset binaries into a .vnforge archive.
+ * @param gameData The game to export.
+ */
+export const exportGameArchive = async (gameData: GameData): Promise<ArchiveExportResult> => {
+    const files: Record<string, string> = {};
+    const unbundledAssets: Asset[] = [];
+
+    const archivedAssets = await Promise.all(gameData.assets.map(async (asset) => {
+        try {
+            files[asset.id] = await fetchAsDataUrl(asset.url);
+            return { ...asset, url: `${ASSET_REF_PREFIX}${asset.id}` };
+        } catch (error) {
+            console.warn(`Could not bundle asset ${asset.name} (${asset.url}):`, error);
+            unbundledAssets.push(asset);
+            return asset;
+        }
+    }));
+
+    const archive: GameArchive = {
+        format: ARCHIVE_FORMAT,
+        archiveVersion: ARCHIVE_VERSION,
+        exportedAt: Date.now(),
+        gameData: { ...gameData, assets: archivedAssets },
+        files,
+    };
+
+    return { blob: await gzip(JSON.stringify(archive)), unbundledAssets };
+};
+
+/**
+ * Reads a .vnforge archive and returns its game, upgraded to the current GameData schema.
+ * @param file The archive file chosen by the user.
+ * @throws Error if the file is not a readable archive.
+ */
+export const importGameArchive = async (file: Blob): Promise<GameData> => {
+    let archive: GameArchive;
+    try {
+        archive = JSON.parse(await readArchiveText(file));
+    } catch (error) {
+        throw new Error('This file is not a valid Visual Novel Forge archive.');
+    }
+    if (archive?.format !== ARCHIVE_FORMAT || !archive.gameData) {
+        throw new Error('This file is not a valid Visual Novel Forge archive.');
+    }
+    if (archive.archiveVersion > ARCHIVE_VERSION) {
+        throw new Error('This archive was created by a newer version of Visual Novel Forge. Please refresh the page to update.');
+    }
+
+    const files = archive.files || {};
+    const assets = (archive.gameData.assets || []).map(asset => {
+        if (!asset.url?.startsWith(ASSET_REF_PREFIX)) return asset;
+        const url = files[asset.url.slice(ASSET_REF_PREFIX.length)];
+        if (!url) throw new Error(`The archive is missing the file for asset "${asset.name}".`);
+        return { ...asset, url };
+    });
+
+    return migrateGameData({ ...archive.gameData, assets });
+};
+
+/**
+ * Exports a game and triggers a browser download of the archive.
+ * @returns The assets that could only be saved as links.
+ */
+export const downloadGameArchive = async (gameData: GameData): Promise<Asset[]> => {
+    const { blob, unbundledAssets } = await exportGameArchive(gameData);
+    downloadBlob(blob, `${gameData.title.replace(/[^a-z0-9]/gi, '_')}${ARCHIVE_EXTENSION}`);
+    return unbundledAssets;
+};
+
+/**
+ * Downloads the archive from a menu, telling the user which assets are only stored as links and
+ * whether the download failed.
+ */
+export const downloadGameArchiveWithAlerts = async (gameData: GameData): Promise<void> => {
+    try {
+        const unbundledAssets = await downloadGameArchive(gameData);
+        if (unbundledAssets.length > 0) {
+            alert(`The archive was saved, but these assets could not be downloaded and are only stored as links:\n\n${unbundledAssets.map(a => a.name).join('\n')}`);
+        }
+    } catch (error) {
+        console.error("Archive export failed:", error);
+        alert(`Archive export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
@@ -0,0 +1,253 @@
+import { Asset, GameData } from '../types';
+import { VideoCard } from './videoTimeline';
+import { WebmAudioTrack } from './webmMuxer';
+import { fetchAssetBlob } from './archiveService';
+import { MUSIC_CROSSFADE_MS } from './storyAudio';
+
+// Mixes a video timeline's music, sound effects and voice clips into an Opus track for the WebM
+// export. The sounds are decoded before the timeline is planned, since voiced lines are held for as
+// long as their clips. The mix is rendered offline a few seconds at a time, so a long story never
+// needs its whole soundtrack in memory at once, and every piece is placed by the timeline.
+
+export const AUDIO_SAMPLE_RATE = 48_000;
+const AUDIO_CHANNELS = 2;
+const AUDIO_BITRATE = 128_000;
+const CHUNK_SECONDS = 10;
+const MUSIC_FADE_OUT_MS = 2000; // The music fades out as the credits end.
+
+export interface EncodedAudio {
+    track: WebmAudioTrack;
+    frames: { timestampMs: number; isKeyFrame: boolean; data: Uint8Array }[];
+}
+
+export interface LoadedAudio {
+    buffers: Map<string, AudioBuffer>; // Decoded sounds, by asset id.
+    assets: Asset[]; // The assets that were decoded.
+    missingAssets: Asset[]; // Sounds that could not be loaded or decoded.
+}
+
+export interface AudioMixResult {
+    audio: EncodedAudio | null; // null when there is nothing to hear.
+    missingAssets: Asset[]; // Sounds that could not be loaded or encoded, and are left out.
+}
+
+interface MusicSegment {
+    assetId: string;
+    startMs: number;
+    endMs: number;
+    isLast: boolean;
+}
+
+// Each stretch of cards under the same track. The last one plays on through the credits.
+const getMusicSegments = (cards: VideoCard[], durationMs: number): MusicSegment[] => {
+    const segments: MusicSegment[] = [];
+    let current: MusicSegment | null = null;
+    for (const card of cards) {
+        if (current && current.assetId === card.scene.musicAssetId) continue;
+        if (current) {
+            current.endMs = card.startMs;
+            current = null;
+        }
+        if (card.scene.musicAssetId) {
+            current = { assetId: card.scene.musicAssetId, startMs: card.startMs, endMs: durationMs, isLast: false };
+            segments.push(current);
+        }
+    }
+    if (current) current.isLast = true;
+    return segments;
+};
+
+// A segment's volume: it fades in as it starts and fades out as the next one fades in.
+const getMusicGain = (segment: MusicSegment, ms: number): number => {
+    const fadeIn = (ms - segment.startMs) / MUSIC_CROSSFADE_MS;
+    const fadeOut = segment.isLast
+        ? (segment.endMs - ms) / MUSIC_FADE_OUT_MS
+        : 1 - (ms - segment.endMs) / MUSIC_CROSSFADE_MS;
+    return Math.max(0, Math.min(1, fadeIn, fadeOut));
+};
+
+// Where the volume changes direction. A short segment's fades can overlap, so they are sorted.
+const getMusicBreakpoints = (segment: MusicSegment): number[] => (segment.isLast
+    ? [segment.startMs, segment.startMs + MUSIC_CROSSFADE_MS, segment.endMs - MUSIC_FADE_OUT_MS, segment.endMs]
+    : [segment.startMs, segment.startMs + MUSIC_CROSSFADE_MS, segment.endMs, segment.endMs + MUSIC_CROSSFADE_MS]
+).sort((a, b) => a - b);
+
+/**
+ * The music, sound effects and voice clips the story log plays.
+ */
+export const getStoryAudioAssets = (gameData: GameData): Asset[] => {
+    const usedAssetIds = new Set<string>();
+    gameData.storyLog.forEach(entry => {
+        if ((entry.type === 'music_change' || entry.type === 'sound_effect') && entry.assetId) usedAssetIds.add(entry.assetId);
+        if (entry.type === 'dialogue' && entry.voiceAssetId) usedAssetIds.add(entry.voiceAssetId);
+    });
+    return gameData.assets.filter(a => usedAssetIds.has(a.id));
+};
+
+/**
+ * Downloads and decodes sounds for the video. Ones that fail are reported rather than thrown.
+ */
+export const loadAudioAssets = async (assets: Asset[]): Promise<LoadedAudio> => {
+    const buffers = new Map<string, AudioBuffer>();
+    if (assets.length === 0) return { buffers, assets: [], missingAssets: [] };
+    if (typeof OfflineAudioContext === 'undefined') {
+        console.error("This browser cannot decode audio; the video will be silent.");
+        return { buffers, assets: [], missingAssets: assets };
+    }
+    const decoder = new OfflineAudioContext(AUDIO_CHANNELS, 1, AUDIO_SAMPLE_RATE);
+    const loaded: Asset[] = [];
+    const missingAssets: Asset[] = [];
+    for (const asset of assets) {
+        try {
+            const blob = await fetchAssetBlob(asset.url);
+            buffers.set(asset.id, await decoder.decodeAudioData(await blob.arrayBuffer()));
+            loaded.push(asset);
+        } catch (error) {
+            console.error(`Could not decode ${asset.name} for the video:`, error);
+            missingAssets.push(asset);
+        }
+    }
+    return { buffers, assets: loaded, missingAssets };
+};
+
+/**
+ * How long each decoded sound lasts, by asset id, for planning the timeline.
+ */
+export const getAudioDurationsMs = ({ buffers }: LoadedAudio): Record<string, number> => {
+    const durations: Record<string, number> = {};
+    buffers.forEach((buffer, assetId) => { durations[assetId] = buffer.duration * 1000; });
+    return durations;
+};
+
+// The Opus identification header (RFC 7845), for encoders that do not hand theirs out.
+const buildOpusHead = (preSkip: number): Uint8Array => {
+    const head = new Uint8Array(19);
+    const view = new DataView(head.buffer);
+    head.set(new TextEncoder().encode('OpusHead'));
+    head[8] = 1; // Version.
+    head[9] = AUDIO_CHANNELS;
+    view.setUint16(10, preSkip, true);
+    view.setUint32(12, AUDIO_SAMPLE_RATE, true);
+    return head;
+};
+
+const toBytes = (source: AllowSharedBufferSource): Uint8Array => ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer.slice(source.byteOffset, source.byteOffset + source.byteLength))
+    : new Uint8Array(source.slice(0));
+
+/**
+ * Mixes the music, sound effects and voice clips of a video timeline into an Opus track.
+ * @param loaded The story's sounds, from loadAudioAssets.
+ * @param durationMs The length of the whole video, credits included.
+ * @param signal Aborting it stops the mix.
+ * @returns The mix, or null if it was cancelled.
+ */
+export const mixVideoAudio = async (loaded: LoadedAudio, cards: VideoCard[], durationMs: number, signal?: AbortSignal): Promise<AudioMixResult | null> => {
+    const { buffers, missingAssets } = loaded;
+    const segments = getMusicSegments(cards, durationMs);
+    // Sound effects and voice clips are one-shots, played as their card appears.
+    const oneShots = cards.flatMap(card => [...card.soundEffectAssetIds, ...(card.voiceAssetId ? [card.voiceAssetId] : [])]
+        .map(assetId => ({ assetId, startMs: card.startMs })));
+    if (![...segments, ...oneShots].some(s => buffers.has(s.assetId))) return { audio: null, missingAssets };
+
+    const config: AudioEncoderConfig = { codec: 'opus', sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: AUDIO_CHANNELS, bitrate: AUDIO_BITRATE };
+    const support = typeof AudioEncoder === 'undefined' ? null : await AudioEncoder.isConfigSupported(config).catch(() => null);
+    if (!support?.supported) {
+        console.error("This browser cannot encode Opus audio; the video will be silent.");
+        return { audio: null, missingAssets: [...missingAssets, ...loaded.assets] };
+    }
+    if (signal?.aborted) return null;
+
+    const frames: EncodedAudio['frames'] = [];
+    let description: Uint8Array | null = null;
+    let encoderError: Error | null = null;
+    const encoder = new AudioEncoder({
+        output: (chunk, metadata) => {
+            if (!description && metadata?.decoderConfig?.description) description = toBytes(metadata.decoderConfig.description);
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            frames.push({ timestampMs: chunk.timestamp / 1000, isKeyFrame: true, data });
+        },
+        error: error => { encoderError = error; },
+    });
+    encoder.configure(config);
+
+    const chunkSamples = CHUNK_SECONDS * AUDIO_SAMPLE_RATE;
+    const totalSamples = Math.ceil(durationMs * AUDIO_SAMPLE_RATE / 1000);
+    try {
+        for (let offset = 0; offset < totalSamples; offset += chunkSamples) {
+            if (signal?.aborted) return null;
+            if (encoderError) throw encoderError;
+            const length = Math.min(chunkSamples, totalSamples - offset);
+            const chunkStartMs = offset * 1000 / AUDIO_SAMPLE_RATE;
+            const chunkEndMs = (offset + length) * 1000 / AUDIO_SAMPLE_RATE;
+            const context = new OfflineAudioContext(AUDIO_CHANNELS, length, AUDIO_SAMPLE_RATE);
+
+            // Starts a sound that began at startMs, part way through if it began before this chunk.
+            const play = (buffer: AudioBuffer, startMs: number, destination: AudioNode, loop: boolean) => {
+                const intoSoundSeconds = Math.max(0, chunkStartMs - startMs) / 1000;
+                if (!loop && intoSoundSeconds >= buffer.duration) return;
+                const source = context.createBufferSource();
+                source.buffer = buffer;
+                source.loop = loop;
+                source.connect(destination);
+                source.start(Math.max(0, startMs - chunkStartMs) / 1000, loop ? intoSoundSeconds % buffer.duration : intoSoundSeconds);
+            };
+
+            for (const segment of segments) {
+                const buffer = buffers.get(segment.assetId);
+                const audibleUntil = segment.isLast ? segment.endMs : segment.endMs + MUSIC_CROSSFADE_MS;
+                if (!buffer || segment.startMs >= chunkEndMs || audibleUntil <= chunkStartMs) continue;
+                const gain = context.createGain();
+                gain.gain.setValueAtTime(getMusicGain(segment, chunkStartMs), 0);
+                getMusicBreakpoints(segment)
+                    .filter(ms => ms > chunkStartMs && ms < chunkEndMs)
+                    .forEach(ms => gain.gain.linearRampToValueAtTime(getMusicGain(segment, ms), (ms - chunkStartMs) / 1000));
+                gain.gain.linearRampToValueAtTime(getMusicGain(segment, chunkEndMs), (chunkEndMs - chunkStartMs) / 1000);
+                gain.connect(context.destination);
+                play(buffer, segment.startMs, gain, true);
+            }
+            for (const oneShot of oneShots) {
+                const buffer = buffers.get(oneShot.assetId);
+                if (buffer && oneShot.startMs < chunkEndMs) play(buffer, oneShot.startMs, context.destination, false);
+            }
+
+            const rendered = await context.startRendering();
+            const planes = new Float32Array(length * AUDIO_CHANNELS);
+            for (let channel = 0; channel < AUDIO_CHANNELS; channel++) {
+                planes.set(rendered.getChannelData(Math.min(channel, rendered.numberOfChannels - 1)), channel * length);
+            }
+            const data = new AudioData({
+                format: 'f32-planar',
+                sampleRate: AUDIO_SAMPLE_RATE,
+                numberOfFrames: length,
+                numberOfChannels: AUDIO_CHANNELS,
+                timestamp: Math.round(chunkStartMs * 1000),
+                data: planes,
+            });
+            encoder.encode(data);
+            data.close();
+        }
+        await encoder.flush();
+        if (encoderError) throw encoderError;
+    } finally {
+        if (encoder.state !== 'closed') encoder.close();
+    }
+
+    const codecPrivate: Uint8Array = description || buildOpusHead(0);
+    const preSkip = new DataView(codecPrivate.buffer, codecPrivate.byteOffset, codecPrivate.byteLength).getUint16(10, true);
+    return {
+        audio: {
+            track: {
+                kind: 'audio',
+                codecId: 'A_OPUS',
+                sampleRate: AUDIO_SAMPLE_RATE,
+                channels: AUDIO_CHANNELS,
+                codecPrivate,
+                codecDelayNs: Math.round(preSkip * 1_000_000_000 / AUDIO_SAMPLE_RATE),
+            },
+            frames,
+        },
+        missingAssets,
+    };
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { parseDialogueMarkup, stripDialogueMarkup, hasTextEffects, getTypedCharacterCount, getTypingDurationMs, PLAIN_TEXT_STYLE, DEFAULT_WAIT_MS, MAX_WAIT_MS } from './dialogueMarkup';
+
+describe('parseDialogueMarkup', () => {
+    it('keeps plain text as one plain node', () => {
+        expect(parseDialogueMarkup('Hello there')).toEqual([{ type: 'text', text: 'Hello there', style: PLAIN_TEXT_STYLE }]);
+    });
+
+    it('combines the styles of nested tags', () => {
+        const nodes = parseDialogueMarkup('a[b]b[i]c[color=Red]d[/color][/i][/b]e');
+        expect(nodes.map(node => node.type === 'text' ? [node.text, node.style.bold, node.style.italic, node.style.color] : null)).toEqual([
+            ['a', false, false, null],
+            ['b', true, false, null],
+            ['c', true, true, null],
+            ['d', true, true, 'red'],
+            ['e', false, false, null],
+        ]);
+    });
+
+    it('closes the latest matching tag, even out of order', () => {
+        const nodes = parseDialogueMarkup('[b][i]x[/b]y[/i]z');
+        expect(nodes.map(node => node.type === 'text' ? [node.text, node.style.bold, node.style.italic] : null)).toEqual([
+            ['x', true, true],
+            ['y', false, true],
+            ['z', false, false],
+        ]);
+    });
+
+    it('keeps a closer with nothing to close as text', () => {
+        expect(stripDialogueMarkup('[b]x[/i]y[/b]')).toBe('x[/i]y');
+        expect(stripDialogueMarkup('[/b]')).toBe('[/b]');
+    });
+
+    it('treats "[[" as a literal bracket', () => {
+        expect(stripDialogueMarkup('[[b]not bold[[/b]')).toBe('[b]not bold[/b]');
+        expect(parseDialogueMarkup('[[b]x').every(node => node.type === 'text' && !node.style.bold)).toBe(true);
+    });
+
+    it('keeps unknown tags and invalid values as text', () => {
+        expect(stripDialogueMarkup('[sic] [size=9]big[/size] [color=red blue]x')).toBe('[sic] [size=9]big[/size] [color=red blue]x');
+        expect(stripDialogueMarkup('[speed=0]a[speed=abc]b[b=1]c')).toBe('[speed=0]a[speed=abc]b[b=1]c');
+        expect(stripDialogueMarkup('[color=#12]x[/color]')).toBe('[color=#12]x[/color]');
+    });
+
+    it('accepts values at the edges of their ranges', () => {
+        const [small] = parseDialogueMarkup('[size=0.5]a');
+        const [fast] = parseDialogueMarkup('[speed=10]a');
+        expect(small.type === 'text' && small.style.size).toBe(0.5);
+        expect(fast.type === 'text' && fast.style.speed).toBe(10);
+    });
+
+    it('gives [wait] a default and keeps waits within the limit', () => {
+        expect(parseDialogueMarkup('a[wait]b')[1]).toEqual({ type: 'wait', ms: DEFAULT_WAIT_MS });
+        expect(parseDialogueMarkup('a[wait=0]b')[1]).toEqual({ type: 'wait', ms: 0 });
+        expect(parseDialogueMarkup(`a[wait=${MAX_WAIT_MS}]b`)[1]).toEqual({ type: 'wait', ms: MAX_WAIT_MS });
+        expect(stripDialogueMarkup(`a[wait=${MAX_WAIT_MS + 1}]b`)).toBe(`a[wait=${MAX_WAIT_MS + 1}]b`);
+        expect(stripDialogueMarkup('a[/wait]b')).toBe('a[/wait]b');
+    });
+
+    it('is case-insensitive', () => {
+        expect(stripDialogueMarkup('[B]x[/b][WAVE]y[/Wave]')).toBe('xy');
+        expect(hasTextEffects('[WAVE]y[/Wave]')).toBe(true);
+        expect(hasTextEffects('[b]y[/b]')).toBe(false);
+    });
+
+    it('leaves an unclosed tag open to the end of the line', () => {
+        const nodes = parseDialogueMarkup('a[shake]bc');
+        expect(nodes[1]).toMatchObject({ type: 'text', text: 'bc', style: { effect: 'shake' } });
+    });
+});
+
+describe('typing out a line', () => {
+    // "Hi" takes 200ms, the wait 500ms, " " 100ms and "there" at double speed 250ms.
+    const nodes = parseDialogueMarkup('Hi[wait=500] [speed=2]there[/speed]');
+
+    it('adds up the time of every character and pause', () => {
+        expect(getTypingDurationMs(nodes, 10)).toBe(1050);
+        expect(getTypingDurationMs(parseDialogueMarkup(''), 10)).toBe(0);
+    });
+
+    it('counts the characters typed at a point in time', () => {
+        expect([0, 100, 200, 699, 700, 800, 1000, 1050, 5000].map(ms => getTypedCharacterCount(nodes, ms, 10)))
+            .toEqual([0, 1, 2, 2, 2, 3, 7, 8, 8]);
+    });
+
+    it('counts characters, not UTF-16 code units', () => {
+        const emoji = parseDialogueMarkup('😀😀');
+        expect(getTypingDurationMs(emoji, 10)).toBe(200);
+        expect(getTypedCharacterCount(emoji, 100, 10)).toBe(1);
+    });
+});
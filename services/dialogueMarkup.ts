@@ -0,0 +1,211 @@
+// Parser for the markup in lines of dialogue. The textbox, the history log and the video export all
+// draw lines from the parsed nodes, so a line looks the same everywhere it is shown.
+//
+// Supported tags (case-insensitive):
+//   [b]bold[/b]  [i]italic[/i]
+//   [color=red]...[/color]   a colour name or #rgb / #rrggbb
+//   [size=1.5]...[/size]     relative to the usual text size, 0.5 to 3
+//   [shake]...[/shake]  [wave]...[/wave]   moving text
+//   [speed=2]...[/speed]     how fast the text types out, 0.1 to 10 times the usual speed
+//   [wait=800]               a pause before the rest of the line, in milliseconds ([wait] is 500)
+// "[[" is a literal "[". A closing tag closes the latest matching open tag; anything else that
+// looks like a tag but is not one, such as "[sic]", is kept as text.
+
+export type TextEffect = 'shake' | 'wave';
+
+export interface TextStyle {
+    bold: boolean;
+    italic: boolean;
+    color: string | null; // The speaker's usual colour when null.
+    size: number;
+    effect: TextEffect | null;
+    speed: number;
+}
+
+export type MarkupNode =
+    | { type: 'text'; text: string; style: TextStyle }
+    | { type: 'wait'; ms: number };
+
+export const PLAIN_TEXT_STYLE: TextStyle = { bold: false, italic: false, color: null, size: 1, effect: null, speed: 1 };
+
+export const SIZE_RANGE = { min: 0.5, max: 3 };
+export const SPEED_RANGE = { min: 0.1, max: 10 };
+export const DEFAULT_WAIT_MS = 500;
+export const MAX_WAIT_MS = 10_000;
+
+export const MARKUP_HELP = 'Markup: [b]bold[/b] [i]italic[/i] [color=red]...[/color] [size=1.5]...[/size] [shake]...[/shake] [wave]...[/wave] [speed=0.5]...[/speed] [wait=800]';
+
+const TAG_PATTERN = /\[(\/?)([a-z]+)(?:=([^\]\s]+))?\]/iy;
+const COLOR_PATTERN = /^(#[0-9a-f]{3}|#[0-9a-f]{6}|[a-z]+)$/i;
+
+type OpenTag = { name: string; change: Partial<TextStyle> };
+
+const parseNumber = (value: string | undefined, range: { min: number; max: number }): number | null => {
+    if (value === undefined || !/^\d*\.?\d+$/.test(value)) return null;
+    const number = parseFloat(value);
+    return number >= range.min && number <= range.max ? number : null;
+};
+
+// The style change an opening tag makes, or null if it is not a valid tag.
+const getTagChange = (name: string, value: string | undefined): Partial<TextStyle> | null => {
+    switch (name) {
+        case 'b': return value === undefined ? { bold: true } : null;
+        case 'i': return value === undefined ? { italic: true } : null;
+        case 'shake':
+        case 'wave': return value === undefined ? { effect: name } : null;
+        case 'color': return value !== undefined && COLOR_PATTERN.test(value) ? { color: value.toLowerCase() } : null;
+        case 'size': {
+            const size = parseNumber(value, SIZE_RANGE);
+            return size === null ? null : { size };
+        }
+        case 'speed': {
+            const speed = parseNumber(value, SPEED_RANGE);
+            return speed === null ? null : { speed };
+        }
+        default: return null;
+    }
+};
+
+const getWaitMs = (value: string | undefined): number | null => {
+    if (value === undefined) return DEFAULT_WAIT_MS;
+    return parseNumber(value, { min: 0, max: MAX_WAIT_MS });
+};
+
+/**
+ * Splits a line into runs of styled text and pauses. Adjacent text in the same style is merged.
+ */
+export const parseDialogueMarkup = (text: string): MarkupNode[] => {
+    const nodes: MarkupNode[] = [];
+    const openTags: OpenTag[] = [];
+    let style = PLAIN_TEXT_STYLE;
+
+    const addText = (part: string) => {
+        const last = nodes[nodes.length - 1];
+        if (last?.type === 'text' && last.style === style) {
+            last.text += part;
+        } else {
+            nodes.push({ type: 'text', text: part, style });
+        }
+    };
+    const restyle = () => {
+        style = openTags.reduce((current, tag) => ({ ...current, ...tag.change }), PLAIN_TEXT_STYLE);
+    };
+
+    let index = 0;
+    while (index < text.length) {
+        const bracket = text.indexOf('[', index);
+        if (bracket === -1) {
+            addText(text.slice(index));
+            break;
+        }
+        if (bracket > index) addText(text.slice(index, bracket));
+        if (text[bracket + 1] === '[') {
+            addText('[');
+            index = bracket + 2;
+            continue;
+        }
+
+        TAG_PATTERN.lastIndex = bracket;
+        const match = TAG_PATTERN.exec(text);
+        const [tag, slash, rawName, value] = match || [];
+        const name = rawName?.toLowerCase();
+        let isTag = false;
+        if (match && slash) {
+            const openIndex = value === undefined ? openTags.map(t => t.name).lastIndexOf(name) : -1;
+            if (openIndex !== -1) {
+                openTags.splice(openIndex, 1);
+                restyle();
+                isTag = true;
+            }
+        } else if (match && name === 'wait') {
+            const ms = getWaitMs(value);
+            if (ms !== null) {
+                nodes.push({ type: 'wait', ms });
+                isTag = true;
+            }
+        } else if (match) {
+            const change = getTagChange(name, value);
+            if (change) {
+                openTags.push({ name, change });
+                restyle();
+                isTag = true;
+            }
+        }
+
+        if (isTag) {
+            index = bracket + tag.length;
+        } else {
+            addText('[');
+            index = bracket + 1;
+        }
+    }
+    return nodes;
+};
+
+/**
+ * A line's text without its markup, for captions, speech and exports.
+ */
+export const stripDialogueMarkup = (text: string): string => parseDialogueMarkup(text)
+    .map(node => node.type === 'text' ? node.text : '')
+    .join('');
+
+export const hasTextEffects = (text: string): boolean =>
+    parseDialogueMarkup(text).some(node => node.type === 'text' && node.style.effect !== null);
+
+const SHAKE_STEP_MS = 50; // Shaking text jumps to a new spot this often.
+const SHAKE_AMPLITUDE_EM = 0.06;
+const WAVE_PERIOD_MS = 1200;
+const WAVE_AMPLITUDE_EM = 0.15;
+const WAVE_CHARACTER_PHASE = 0.08; // Of a period, between neighbouring characters.
+
+// A repeatable random number from 0 to 1, so a frame always draws the same way.
+const noise = (a: number, b: number): number => {
+    const x = Math.sin(a * 12.9898 + b * 78.233) * 43758.5453;
+    return x - Math.floor(x);
+};
+
+/**
+ * How far a character of moving text is moved at a point in time, in ems.
+ * @param characterIndex The character's place in the line, which keeps neighbours out of step.
+ */
+export const getTextEffectOffset = (effect: TextEffect, characterIndex: number, timeMs: number): { x: number; y: number } => {
+    if (effect === 'shake') {
+        const step = Math.floor(timeMs / SHAKE_STEP_MS);
+        return {
+            x: (noise(characterIndex, step) - 0.5) * 2 * SHAKE_AMPLITUDE_EM,
+            y: (noise(step, characterIndex) - 0.5) * 2 * SHAKE_AMPLITUDE_EM,
+        };
+    }
+    const phase = timeMs / WAVE_PERIOD_MS - characterIndex * WAVE_CHARACTER_PHASE;
+    return { x: 0, y: -Math.sin(phase * Math.PI * 2) * WAVE_AMPLITUDE_EM };
+};
+
+/**
+ * How many characters of a line have typed out some time after it started. [speed] tags change
+ * the pace and [wait] tags pause it.
+ * @param charactersPerSecond The usual typing speed.
+ */
+export const getTypedCharacterCount = (nodes: MarkupNode[], elapsedMs: number, charactersPerSecond: number): number => {
+    let timeMs = 0;
+    let count = 0;
+    for (const node of nodes) {
+        if (node.type === 'wait') {
+            timeMs += node.ms;
+            if (timeMs > elapsedMs) return count;
+            continue;
+        }
+        const length = Array.from(node.text).length;
+        const msPerCharacter = 1000 / (charactersPerSecond * node.style.speed);
+        const typed = Math.floor((elapsedMs - timeMs) / msPerCharacter);
+        if (typed < length) return count + Math.max(0, typed);
+        count += length;
+        timeMs += length * msPerCharacter;
+    }
+    return count;
+};
+
+/**
+ * How long a line takes to type out in full, pauses included.
+ */
+export const getTypingDurationMs = (nodes: MarkupNode[], charactersPerSecond: number): number => nodes.reduce((total, node) =>
+    total + (node.type === 'wait' ? node.ms : Array.from(node.text).length * 1000 / (charactersPerSecond * node.style.speed)), 0);
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { parseDiceExpression, formatDiceExpression, formatDiceTerms, formatDiceBreakdown, DiceNotationError, MAX_DICE_PER_TERM, MAX_TERMS } from './diceNotation';
+import { MAX_DICE_SIDES } from './diceService';
+import { DiceRollLogEntry } from '../types';
+
+const parse = (notation: string) => parseDiceExpression(notation, MAX_DICE_SIDES);
+
+describe('parseDiceExpression', () => {
+    it('parses NdM and a count left out', () => {
+        expect(parse('2d6').terms).toEqual([{ kind: 'dice', sign: 1, count: 2, sides: 6, explode: false }]);
+        expect(parse('D20').terms).toEqual([{ kind: 'dice', sign: 1, count: 1, sides: 20, explode: false }]);
+    });
+
+    it('parses added and subtracted modifiers, ignoring spaces', () => {
+        expect(parse(' 2d6 + 3 - 1d4 - 1 ').terms).toEqual([
+            { kind: 'dice', sign: 1, count: 2, sides: 6, explode: false },
+            { kind: 'constant', sign: 1, value: 3 },
+            { kind: 'dice', sign: -1, count: 1, sides: 4, explode: false },
+            { kind: 'constant', sign: -1, value: 1 },
+        ]);
+    });
+
+    it('parses keep and drop rules, with k and d as shorthand', () => {
+        expect(parse('4d6kh3').terms[0]).toMatchObject({ keep: { mode: 'kh', count: 3 } });
+        expect(parse('4d6k3').terms[0]).toMatchObject({ keep: { mode: 'kh', count: 3 } });
+        expect(parse('2d20kl1').terms[0]).toMatchObject({ keep: { mode: 'kl', count: 1 } });
+        expect(parse('4d6d1').terms[0]).toMatchObject({ keep: { mode: 'dl', count: 1 } });
+        expect(parse('4d6dh1').terms[0]).toMatchObject({ keep: { mode: 'dh', count: 1 } });
+    });
+
+    it('parses exploding dice and success targets', () => {
+        expect(parse('3d6!').terms[0]).toMatchObject({ explode: true });
+        expect(parse('6d10>=8').terms[0]).toMatchObject({ success: { comparator: '>=', target: 8 } });
+    });
+
+    it('turns advantage and disadvantage into keeping one of two d20s', () => {
+        expect(parse('1d20+5 adv').terms[0]).toMatchObject({ count: 2, sides: 20, keep: { mode: 'kh', count: 1 } });
+        expect(parse('d20 disadvantage').terms[0]).toMatchObject({ count: 2, sides: 20, keep: { mode: 'kl', count: 1 } });
+    });
+
+    it.each([
+        ['', 'Enter a dice expression'],
+        ['hello', 'not valid dice notation'],
+        ['2d', 'not valid dice notation'],
+        ['2d6+', 'not valid dice notation'],
+        ['5', 'at least one die'],
+        ['4d6kh3kl1', 'more than one keep or drop rule'],
+        ['3d6!!', 'explodes twice'],
+        ['1d1!', 'one-sided die'],
+        ['6d10>=8>3', 'more than one success target'],
+        ['2d6 adv', 'single d20'],
+    ])('rejects %j', (notation, message) => {
+        expect(() => parse(notation)).toThrow(DiceNotationError);
+        expect(() => parse(notation)).toThrow(message);
+    });
+
+    it('enforces the limits on dice, sides and terms', () => {
+        expect(() => parse(`${MAX_DICE_PER_TERM}d6`)).not.toThrow();
+        expect(() => parse(`${MAX_DICE_PER_TERM + 1}d6`)).toThrow(`between 1 and ${MAX_DICE_PER_TERM} dice`);
+        expect(() => parse('0d6')).toThrow(`between 1 and ${MAX_DICE_PER_TERM} dice`);
+        expect(() => parse(`1d${MAX_DICE_SIDES}`)).not.toThrow();
+        expect(() => parse(`1d${MAX_DICE_SIDES + 1}`)).toThrow(`between 1 and ${MAX_DICE_SIDES} sides`);
+        expect(() => parse('1d0')).toThrow(`between 1 and ${MAX_DICE_SIDES} sides`);
+        expect(() => parseDiceExpression('1d12', 10)).toThrow('between 1 and 10 sides');
+        expect(() => parse(Array(MAX_TERMS).fill('1d6').join('+'))).not.toThrow();
+        expect(() => parse(Array(MAX_TERMS + 1).fill('1d6').join('+'))).toThrow(`at most ${MAX_TERMS} terms`);
+    });
+});
+
+describe('formatDiceExpression', () => {
+    it('writes expressions back out in canonical notation', () => {
+        expect(formatDiceExpression(parse('1d20 + 5 adv'))).toBe('2d20kh1+5');
+        expect(formatDiceExpression(parse('-d4+4D6K3+3d6!>=5'))).toBe('-1d4+4d6kh3+3d6!>=5');
+    });
+});
+
+describe('formatting roll results', () => {
+    const entry: DiceRollLogEntry = {
+        type: 'dice_roll',
+        characterId: 'c1',
+        expression: '4d6kh3!-2',
+        terms: [
+            { kind: 'dice', sign: 1, notation: '4d6!kh3', sides: 6, rolls: [{ value: 6, kept: true, exploded: true }, { value: 1, kept: false }, { value: 4, kept: true }, { value: 3, kept: true }], total: 13 },
+            { kind: 'constant', sign: -1, value: 2 },
+        ],
+        result: 11,
+    };
+
+    it('marks dropped and exploded dice in each term', () => {
+        expect(formatDiceTerms(entry)).toBe('[6!, 1✗, 4, 3] - 2');
+    });
+
+    it('describes the whole roll', () => {
+        expect(formatDiceBreakdown(entry)).toBe('4d6kh3!-2: [6!, 1✗, 4, 3] - 2 = 11');
+    });
+
+    it('counts successes for a dice pool and keeps a leading minus sign', () => {
+        const pool: DiceRollLogEntry = {
+            type: 'dice_roll',
+            characterId: 'c1',
+            expression: '-2d10>=8',
+            terms: [{ kind: 'dice', sign: -1, notation: '2d10>=8', sides: 10, rolls: [{ value: 9, kept: true }, { value: 2, kept: true }], successes: 1, total: 1 }],
+            result: -1,
+        };
+        expect(formatDiceTerms(pool)).toBe('-[9, 2] (1 success)');
+    });
+});
@@ -0,0 +1,147 @@
+import { DiceRollLogEntry, DiceTermResult } from '../types';
+
+// Parser and formatter for tabletop dice notation. Rolling happens in diceService.ts, which walks
+// the parsed terms with a seeded die source.
+//
+// Supported notation (case-insensitive, spaces ignored):
+//   2d6+3        dice and flat modifiers, added or subtracted
+//   d20          a count of 1 may be left out
+//   4d6kh3 4d6k3 keep highest N (kl keeps lowest, dh/dl drop highest/lowest)
+//   3d6!         exploding dice: every maximum roll adds another die
+//   6d10>=8      dice pool: counts the dice meeting the target instead of summing them
+//   1d20+5 adv   advantage (or "dis"): the first single d20 is rolled twice, keeping the best (or worst)
+
+export const MAX_DICE_PER_TERM = 100;
+export const MAX_EXPLOSIONS_PER_TERM = 100;
+export const MAX_TERMS = 20;
+
+export type KeepRule = { mode: 'kh' | 'kl' | 'dh' | 'dl'; count: number };
+export type SuccessRule = { comparator: '>=' | '>' | '<=' | '<' | '='; target: number };
+
+export type DiceTerm =
+    | { kind: 'dice'; sign: 1 | -1; count: number; sides: number; keep?: KeepRule; explode: boolean; success?: SuccessRule }
+    | { kind: 'constant'; sign: 1 | -1; value: number };
+
+export interface DiceExpression {
+    terms: DiceTerm[];
+}
+
+export class DiceNotationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DiceNotationError';
+    }
+}
+
+const DICE_TERM_PATTERN = /^(\d*)d(\d+)((?:!|(?:kh|kl|dh|dl|k|d)\d+|(?:>=|<=|>|<|=)\d+)*)$/;
+const MODIFIER_PATTERN = /!|(kh|kl|dh|dl|k|d)(\d+)|(>=|<=|>|<|=)(\d+)/g;
+
+const parseTerm = (text: string, sign: 1 | -1, maxSides: number): DiceTerm => {
+    if (/^\d+$/.test(text)) {
+        return { kind: 'constant', sign, value: parseInt(text, 10) };
+    }
+
+    const match = DICE_TERM_PATTERN.exec(text);
+    if (!match) throw new DiceNotationError(`"${text}" is not valid dice notation.`);
+
+    const count = match[1] ? parseInt(match[1], 10) : 1;
+    const sides = parseInt(match[2], 10);
+    if (count < 1 || count > MAX_DICE_PER_TERM) throw new DiceNotationError(`Roll between 1 and ${MAX_DICE_PER_TERM} dice at a time.`);
+    if (sides < 1 || sides > maxSides) throw new DiceNotationError(`Dice must have between 1 and ${maxSides} sides.`);
+
+    const term: DiceTerm = { kind: 'dice', sign, count, sides, explode: false };
+    for (const modifier of match[3].matchAll(MODIFIER_PATTERN)) {
+        if (modifier[0] === '!') {
+            if (term.explode) throw new DiceNotationError(`"${text}" explodes twice.`);
+            if (sides < 2) throw new DiceNotationError('A one-sided die cannot explode.');
+            term.explode = true;
+        } else if (modifier[1]) {
+            if (term.keep) throw new DiceNotationError(`"${text}" has more than one keep or drop rule.`);
+            const mode = modifier[1] === 'k' ? 'kh' : modifier[1] === 'd' ? 'dl' : modifier[1] as KeepRule['mode'];
+            term.keep = { mode, count: parseInt(modifier[2], 10) };
+        } else {
+            if (term.success) throw new DiceNotationError(`"${text}" has more than one success target.`);
+            term.success = { comparator: modifier[3] as SuccessRule['comparator'], target: parseInt(modifier[4], 10) };
+        }
+    }
+    return term;
+};
+
+/**
+ * Parses a dice expression such as "2d6+3" or "1d20 adv".
+ * @param notation The expression typed by the player.
+ * @param maxSides The largest die allowed.
+ * @throws DiceNotationError if the expression cannot be parsed.
+ */
+export const parseDiceExpression = (notation: string, maxSides: number): DiceExpression => {
+    let text = notation.toLowerCase().replace(/\s+/g, '');
+    let advantage: 'adv' | 'dis' | null = null;
+    const advantageMatch = /(adv|advantage|dis|disadvantage)$/.exec(text);
+    if (advantageMatch) {
+        advantage = advantageMatch[1].startsWith('adv') ? 'adv' : 'dis';
+        text = text.slice(0, advantageMatch.index);
+    }
+    if (!text) throw new DiceNotationError('Enter a dice expression, like 1d20 or 2d6+3.');
+
+    const parts = text.match(/[+-]?[^+-]+/g);
+    if (!parts || parts.join('') !== text) throw new DiceNotationError(`"${notation}" is not valid dice notation.`);
+    if (parts.length > MAX_TERMS) throw new DiceNotationError(`Use at most ${MAX_TERMS} terms in one roll.`);
+
+    const terms = parts.map(part => {
+        const sign = part.startsWith('-') ? -1 : 1;
+        return parseTerm(part.replace(/^[+-]/, ''), sign, maxSides);
+    });
+    if (!terms.some(t => t.kind === 'dice')) throw new DiceNotationError('The expression must roll at least one die.');
+
+    if (advantage) {
+        const d20 = terms.find((t): t is Extract<DiceTerm, { kind: 'dice' }> => t.kind === 'dice' && t.count === 1 && t.sides === 20 && !t.keep);
+        if (!d20) throw new DiceNotationError('Advantage and disadvantage need a single d20 to apply to.');
+        d20.count = 2;
+        d20.keep = { mode: advantage === 'adv' ? 'kh' : 'kl', count: 1 };
+    }
+
+    return { terms };
+};
+
+const formatTermNotation = (term: DiceTerm): string => {
+    if (term.kind === 'constant') return String(term.value);
+    let text = `${term.count}d${term.sides}`;
+    if (term.explode) text += '!';
+    if (term.keep) text += `${term.keep.mode}${term.keep.count}`;
+    if (term.success) text += `${term.success.comparator}${term.success.target}`;
+    return text;
+};
+
+/**
+ * Writes an expression back out in canonical notation, e.g. "1d20 adv" becomes "2d20kh1".
+ */
+export const formatDiceExpression = (expression: DiceExpression): string => {
+    return expression.terms
+        .map((term, index) => `${term.sign < 0 ? '-' : index > 0 ? '+' : ''}${formatTermNotation(term)}`)
+        .join('');
+};
+
+const formatTermResult = (term: DiceTermResult): string => {
+    if (term.kind === 'constant') return String(term.value);
+    const rolls = term.rolls.map(r => `${r.value}${r.exploded ? '!' : ''}${r.kept ? '' : '✗'}`).join(', ');
+    return term.successes !== undefined ? `[${rolls}] (${term.successes} success${term.successes === 1 ? '' : 'es'})` : `[${rolls}]`;
+};
+
+/**
+ * Describes each term of a roll, e.g. "[4, 2] + 3". Dropped dice are marked with ✗ and exploded
+ * dice with !.
+ */
+export const formatDiceTerms = (entry: DiceRollLogEntry): string => {
+    return entry.terms.map((term, index) => {
+        const text = formatTermResult(term);
+        if (index === 0) return term.sign < 0 ? `-${text}` : text;
+        return `${term.sign < 0 ? '-' : '+'} ${text}`;
+    }).join(' ');
+};
+
+/**
+ * Describes a whole roll, e.g. "2d6+3: [4, 2] + 3 = 9".
+ */
+export const formatDiceBreakdown = (entry: DiceRollLogEntry): string => {
+    return `${entry.expression}: ${formatDiceTerms(entry)} = ${entry.result}`;
+};
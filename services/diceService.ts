@@ -0,0 +1,137 @@
+import { DiceRollLogEntry, DiceTermResult, DieResult } from '../types';
+import { DiceExpression, KeepRule, SuccessRule, MAX_EXPLOSIONS_PER_TERM, parseDiceExpression, formatDiceExpression } from './diceNotation';
+
+// Dice are rolled on the GM host (or the local device), never on a player's client. Each roll draws
+// a random seed, and every die value is derived from that seed with SHA-256, so anyone at the table
+// can recompute a logged roll from the seed stored on its DiceRollLogEntry. Notation parsing lives
+// in diceNotation.ts.
+
+export const MAX_DICE_SIDES = 1000;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const createRollSeed = (): string => {
+    const bytes = new Uint8Array(16);
+    crypto.getRandomValues(bytes);
+    return toHex(bytes);
+};
+
+/**
+ * Derives the value of one die from a roll seed.
+ * @param seed The roll seed.
+ * @param index Position of the die within the roll, so several dice can share one seed.
+ * @param sides Number of sides on the die.
+ */
+export const deriveDieValue = async (seed: string, index: number, sides: number): Promise<number> => {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${seed}:${index}:${sides}`)));
+    // 48 bits keeps the modulo bias negligible for any die we allow.
+    let value = 0;
+    for (let i = 0; i < 6; i++) {
+        value = value * 256 + digest[i];
+    }
+    return (value % sides) + 1;
+};
+
+const meetsTarget = (value: number, { comparator, target }: SuccessRule): boolean => {
+    switch (comparator) {
+        case '>=': return value >= target;
+        case '>': return value > target;
+        case '<=': return value <= target;
+        case '<': return value < target;
+        case '=': return value === target;
+    }
+};
+
+const applyKeepRule = (rolls: DieResult[], keep: KeepRule) => {
+    // Rank dice from highest to lowest; ties keep their rolling order.
+    const ranked = rolls.map((roll, index) => ({ roll, index })).sort((a, b) => b.roll.value - a.roll.value || a.index - b.index);
+    const count = Math.min(keep.count, rolls.length);
+    const dropped = keep.mode === 'kh' ? ranked.slice(count)
+        : keep.mode === 'kl' ? ranked.slice(0, ranked.length - count)
+        : keep.mode === 'dh' ? ranked.slice(0, count)
+        : ranked.slice(ranked.length - count);
+    dropped.forEach(({ roll }) => { roll.kept = false; });
+};
+
+/**
+ * Rolls every term of a parsed expression. Dice are numbered in the order they are rolled,
+ * explosions included, so the same seed always reproduces the same roll.
+ * @param expression The parsed dice expression.
+ * @param seed The roll seed.
+ */
+export const rollDiceExpression = async (expression: DiceExpression, seed: string): Promise<{ terms: DiceTermResult[]; result: number }> => {
+    let dieIndex = 0;
+    const terms: DiceTermResult[] = [];
+
+    for (const term of expression.terms) {
+        if (term.kind === 'constant') {
+            terms.push({ kind: 'constant', sign: term.sign, value: term.value });
+            continue;
+        }
+
+        const rolls: DieResult[] = [];
+        let explosions = 0;
+        for (let i = 0; i < term.count; i++) {
+            let value = await deriveDieValue(seed, dieIndex++, term.sides);
+            rolls.push({ value, kept: true });
+            while (term.explode && value === term.sides && explosions < MAX_EXPLOSIONS_PER_TERM) {
+                rolls[rolls.length - 1].exploded = true;
+                explosions++;
+                value = await deriveDieValue(seed, dieIndex++, term.sides);
+                rolls.push({ value, kept: true });
+            }
+        }
+        if (term.keep) applyKeepRule(rolls, term.keep);
+
+        const keptRolls = rolls.filter(r => r.kept);
+        const successes = term.success ? keptRolls.filter(r => meetsTarget(r.value, term.success!)).length : undefined;
+        const total = successes ?? keptRolls.reduce((sum, r) => sum + r.value, 0);
+        // Firebase rejects undefined values, so optional fields are only set when present.
+        terms.push({
+            kind: 'dice',
+            sign: term.sign,
+            notation: formatDiceExpression({ terms: [{ ...term, sign: 1 }] }),
+            sides: term.sides,
+            rolls,
+            total,
+            ...(successes !== undefined ? { successes } : {}),
+        });
+    }
+
+    const result = terms.reduce((sum, t) => sum + t.sign * (t.kind === 'constant' ? t.value : t.total), 0);
+    return { terms, result };
+};
+
+/**
+ * Rolls a dice expression for a character and returns the finished log entry.
+ * @param request The character rolling and the dice notation to roll.
+ * @throws DiceNotationError if the notation is invalid.
+ */
+export const resolveDiceRoll = async (request: { characterId: string; expression: string }): Promise<DiceRollLogEntry> => {
+    const parsed = parseDiceExpression(request.expression, MAX_DICE_SIDES);
+    const seed = createRollSeed();
+    const { terms, result } = await rollDiceExpression(parsed, seed);
+    return {
+        type: 'dice_roll',
+        characterId: request.characterId,
+        expression: request.expression.trim(),
+        terms,
+        result,
+        seed,
+    };
+};
+
+/**
+ * Recomputes a logged roll from its seed.
+ * @returns Whether every die and the total match, or null for rolls made before seeds were recorded.
+ */
+export const verifyDiceRoll = async (entry: DiceRollLogEntry): Promise<boolean | null> => {
+    if (!entry.seed) return null;
+    try {
+        const { terms, result } = await rollDiceExpression(parseDiceExpression(entry.expression, MAX_DICE_SIDES), entry.seed);
+        const dieValues = (t: DiceTermResult[]) => JSON.stringify(t.map(term => term.kind === 'dice' ? term.rolls.map(r => [r.value, r.kept]) : term.value));
+        return result === entry.result && dieValues(terms) === dieValues(entry.terms || []);
+    } catch (error) {
+        return false;
+    }
+};
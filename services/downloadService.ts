@@ -0,0 +1,15 @@
+// Every export ends the same way: the file is handed to the browser as a download.
+
+/**
+ * Triggers a browser download of a file built in memory.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+};
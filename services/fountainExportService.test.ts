@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { buildFountainScript } from './fountainExportService';
+import { migrateGameData } from '../state/migrations';
+import { NARRATOR_CHARACTER } from '../constants';
+import { StoryLogEntry } from '../types';
+
+const script = (storyLog: StoryLogEntry[], characterName = 'Ann') => buildFountainScript(migrateGameData({
+    schemaVersion: 6,
+    title: 'Test',
+    characters: [{ id: 'c1', name: characterName, status: 'active', health: 10, maxHealth: 10, spriteAssetIds: [] }],
+    players: [{ id: 'p1', name: 'Pat', coins: 0, lastSeenLogIndex: 0 }],
+    assets: [{ id: 'bg', type: 'background', name: 'dark_forest.png', url: '', isPublished: true }],
+    storyLog,
+}));
+
+// The script's paragraphs after the title page.
+const body = (text: string) => text.trimEnd().split('\n\n').slice(1);
+
+const narration = (text: string): StoryLogEntry => ({ type: 'dialogue', characterId: NARRATOR_CHARACTER.id, text });
+const line = (text: string): StoryLogEntry => ({ type: 'dialogue', characterId: 'c1', text });
+
+describe('buildFountainScript', () => {
+    it('writes a title page, forced scene headings and character cues', () => {
+        const text = script([{ type: 'background_change', assetId: 'bg' }, line('Hello.')]);
+        expect(text.split('\n\n')[0]).toBe('Title: Test\nCredit: Exported from Visual Novel Forge');
+        expect(body(text)).toEqual(['.DARK FOREST', 'ANN\nHello.']);
+    });
+
+    it('forces cues that would not read as one', () => {
+        expect(body(script([line('Hi')], 'r2d2'))).toEqual(['R2D2\nHi']);
+        expect(body(script([line('Hi')], '42'))).toEqual(['@42\nHi']);
+        expect(body(script([line('Hi')], 'Cut to:'))).toEqual(['@Cut to:\nHi']);
+        expect(body(script([line('Hi')], 'Ann^'))).toEqual(['ANN\nHi']);
+    });
+
+    it('forces narration that would read as other elements', () => {
+        const lines = ['INT. HOUSE - DAY', 'FADE TO:', 'THE END', '#Act one', '~la la', '> centered <', 'Plain text.'];
+        expect(body(script([narration(lines.join('\n'))]))).toEqual([
+            ['!INT. HOUSE - DAY', '!FADE TO:', '!THE END', '!#Act one', '!~la la', '!> centered <', 'Plain text.'].join('\n'),
+        ]);
+    });
+
+    it('escapes emphasis markers in narration and dialogue', () => {
+        expect(body(script([narration('a *b* _c_ \\d'), line('**loud**')]))).toEqual(['a \\*b\\* \\_c\\_ \\\\d', 'ANN\n\\*\\*loud\\*\\*']);
+    });
+
+    it('escapes dialogue lines that would read as parentheticals or lyrics', () => {
+        expect(body(script([line('(whispers)\n~sings\n(not closed\nok (aside)')]))).toEqual(['ANN\n\\(whispers)\n\\~sings\n(not closed\nok (aside)']);
+    });
+
+    it('keeps blank lines inside a paragraph', () => {
+        expect(body(script([line('One\n\nTwo')]))).toEqual(['ANN\nOne\n  \nTwo']);
+    });
+
+    it('writes choices, picks and quest updates as notes that cannot be cut short', () => {
+        const text = script([
+            { type: 'choice', choices: [{ text: 'Open [[it]]' }, { text: '  ' }, { text: 'Leave]' }] },
+            { type: 'choice_selection', playerId: 'p1', characterId: 'c1', choice: { text: 'Leave]' } },
+            { type: 'quest_status', text: 'Quest done\nfor now' },
+        ]);
+        expect(body(text)).toEqual(['[[Choices: Open [[it] ] / Leave] ]]', '[[Pat chose: Leave] ]]', '[[Quest done for now]]']);
+    });
+});
@@ -0,0 +1,114 @@
+import { GameData } from '../types';
+import { NARRATOR_CHARACTER } from '../constants';
+import { formatDiceBreakdown } from './diceNotation';
+import { formatSkillCheck } from './skillCheckService';
+import { stripDialogueMarkup } from './dialogueMarkup';
+import { downloadBlob } from './downloadService';
+
+// Writes the story log as a Fountain screenplay (https://fountain.io). Each background becomes a
+// scene heading, the narrator's lines become action, characters' lines become dialogue, and
+// choices, picks and rolls become [[notes]]. Story text is escaped wherever Fountain would read it
+// as markup, so any Fountain parser reads back the same script.
+
+// Lines that Fountain would read as something other than action: scene headings, transitions,
+// centered text, sections, synopses, lyrics, page breaks, notes and forced elements.
+const SCENE_HEADING_PATTERN = /^(int|ext|est|int\.?\/ext|i\/e)[. ]/i;
+const SPECIAL_START_PATTERN = /^[!@~>=#.\[]|^\/\*/;
+
+const escapeEmphasis = (text: string) => text.replace(/([\\*_])/g, '\\$1');
+
+// Notes end at "]]", so a bracket pair in the text would cut the note short.
+const note = (text: string) => `[[${text.replace(/\s*\n\s*/g, ' ').replace(/\](?=\])/g, '] ').replace(/\]$/, '] ')}]]`;
+
+// Fountain ends a paragraph at a blank line. Keeping blank lines as two spaces keeps them inside it.
+const keepTogether = (lines: string[]) => lines.map(line => line.trim() ? line : '  ');
+
+const isAllCaps = (line: string) => /\p{Lu}/u.test(line) && !/\p{Ll}/u.test(line);
+
+const toActionLines = (text: string): string[] => keepTogether(text.split(/\r?\n/).map(rawLine => {
+    const line = escapeEmphasis(rawLine.trimEnd());
+    const trimmed = line.trim();
+    const needsForcing = SPECIAL_START_PATTERN.test(trimmed)
+        || SCENE_HEADING_PATTERN.test(trimmed)
+        || isAllCaps(trimmed) // A capitalized line followed by text reads as a character cue.
+        || /TO:$/.test(trimmed);
+    return needsForcing ? `!${line}` : line;
+}));
+
+const toCharacterCue = (name: string): string => {
+    // A trailing "^" would mark dual dialogue.
+    const cue = name.replace(/\s+/g, ' ').replace(/\^+$/, '').trim().toUpperCase();
+    // Cues must have a capital letter and must not end like a transition; others are forced with "@".
+    return /\p{Lu}/u.test(cue) && !/TO:$/.test(cue) && !cue.startsWith('@') ? cue : `@${name.trim()}`;
+};
+
+// Within dialogue, a line in parentheses reads as a parenthetical and one starting with "~" as
+// lyrics, so their first character is escaped like emphasis.
+const toDialogueLines = (text: string): string[] => keepTogether(text.split(/\r?\n/).map(rawLine => {
+    const line = escapeEmphasis(rawLine.trim());
+    return /^\(.*\)$/.test(line) || line.startsWith('~') ? `\\${line}` : line;
+}));
+
+const toSceneHeading = (name: string): string => {
+    const location = name.replace(/\.(png|jpe?g|webp|gif|avif)$/i, '').replace(/[\s_]+/g, ' ').trim().toUpperCase() || 'UNKNOWN';
+    // A leading "." forces a scene heading, so no INT./EXT. has to be guessed.
+    return `.${location.replace(/^\.+/, '')}`;
+};
+
+/**
+ * Writes the story log of a game as a Fountain screenplay.
+ */
+export const buildFountainScript = (gameData: GameData): string => {
+    const getCharacter = (id: string) => gameData.characters.find(c => c.id === id);
+    const paragraphs: string[][] = [];
+
+    gameData.storyLog.forEach(log => {
+        switch (log.type) {
+            case 'background_change': {
+                const asset = gameData.assets.find(a => a.id === log.assetId);
+                if (asset) paragraphs.push([toSceneHeading(asset.name)]);
+                break;
+            }
+            case 'dialogue': {
+                const text = stripDialogueMarkup(log.text);
+                if (!text.trim()) break;
+                if (log.characterId === NARRATOR_CHARACTER.id) {
+                    paragraphs.push(toActionLines(text));
+                } else {
+                    paragraphs.push([toCharacterCue(getCharacter(log.characterId)?.name || 'Unknown'), ...toDialogueLines(text)]);
+                }
+                break;
+            }
+            case 'choice': {
+                const choices = (log.choices || []).filter(c => c.text.trim());
+                if (choices.length > 0) paragraphs.push([note(`Choices: ${choices.map(c => c.text).join(' / ')}`)]);
+                break;
+            }
+            case 'choice_selection': {
+                const player = gameData.players.find(p => p.id === log.playerId);
+                paragraphs.push([note(`${player?.name || 'A player'} chose: ${log.choice.text}`)]);
+                break;
+            }
+            case 'dice_roll':
+                paragraphs.push([note(`${getCharacter(log.characterId)?.name || 'Someone'} rolled ${formatDiceBreakdown(log)}`)]);
+                break;
+            case 'skill_check':
+                paragraphs.push([note(`${getCharacter(log.characterId)?.name || 'Someone'} attempted a ${formatSkillCheck(log)}.`)]);
+                break;
+            case 'quest_status':
+                paragraphs.push([note(log.text)]);
+                break;
+        }
+    });
+
+    const titlePage = [`Title: ${gameData.title.replace(/\s*\n\s*/g, ' ').trim() || 'Untitled'}`, 'Credit: Exported from Visual Novel Forge'];
+    return [titlePage, ...paragraphs].map(lines => lines.join('\n')).join('\n\n') + '\n';
+};
+
+/**
+ * Triggers a browser download of the Fountain screenplay.
+ */
+export const downloadFountainScript = (gameData: GameData) => {
+    const blob = new Blob([buildFountainScript(gameData)], { type: 'text/plain' });
+    downloadBlob(blob, `${gameData.title.replace(/[^a-z0-9]/gi, '_')}.fountain`);
+};
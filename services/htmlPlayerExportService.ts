@@ -0,0 +1,385 @@
+import { GameData, Asset } from '../types';
+import { fetchAsDataUrl } from './archiveService';
+import { formatDiceBreakdown } from './diceNotation';
+import { formatSkillCheck } from './skillCheckService';
+import { stripDialogueMarkup } from './dialogueMarkup';
+import { downloadBlob } from './downloadService';
+import { SceneState, EMPTY_SCENE, reduceScene, layoutSprites } from '../state/scene';
+
+// Turns a session into a single HTML file that replays the story log offline. The log is played
+// back in beats, the way GameView catches a player up: each click shows the scene up to the next
+// line of dialogue, choice or pick. Images and voice clips are inlined as data URLs, so the file
+// needs no network.
+
+export interface HtmlPlayerExportResult {
+    html: string;
+    // Assets whose binary could not be fetched. The player links to their original URL instead.
+    unbundledAssets: Asset[];
+}
+
+// A sprite placed by layoutSprites: x is its centre and height its size, as fractions of the stage.
+export interface PlayerSprite {
+    assetId: string;
+    name: string;
+    x: number;
+    height: number;
+    flipped: boolean;
+}
+
+// One click of the player. Asset ids refer to the player's media table.
+export interface PlayerBeat {
+    backgroundId: string | null;
+    cgId: string | null;
+    sprites: PlayerSprite[]; // Back to front.
+    kind: 'dialogue' | 'narration' | 'choice';
+    speaker: string | null;
+    text: string;
+    // The options of a choice beat. `chosen` marks the one picked next in the session.
+    options?: { text: string; chosen: boolean }[];
+    voiceId?: string; // A clip read over a dialogue beat. The player moves on when it ends.
+}
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// JSON inside a <script> element must not contain "</script>" or "<!--".
+const toScriptJson = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+/**
+ * Splits a game's story log into the beats the player steps through.
+ */
+export const buildPlayerBeats = (gameData: GameData): PlayerBeat[] => {
+    const log = gameData.storyLog;
+    const beats: PlayerBeat[] = [];
+    let scene: SceneState = EMPTY_SCENE;
+
+    const push = (beat: Pick<PlayerBeat, 'kind' | 'speaker' | 'text' | 'options' | 'voiceId'>) => {
+        const sprites = layoutSprites(scene.sprites)
+            .map(({ characterId, assetId, x, height, flipped }): PlayerSprite | null => {
+                const character = gameData.characters.find(c => c.id === characterId);
+                return character && gameData.assets.some(a => a.id === assetId) ? { assetId, name: character.name, x, height, flipped } : null;
+            })
+            .filter((s): s is PlayerSprite => s !== null);
+        const known = (id: string | null) => id && gameData.assets.some(a => a.id === id) ? id : null;
+        beats.push({ backgroundId: known(scene.backgroundAssetId), cgId: known(scene.cgAssetId), sprites, ...beat });
+    };
+
+    // The text of the option picked at a choice, if someone picked one before the next choice.
+    const chosenTextAfter = (choiceIndex: number): string | null => {
+        for (let i = choiceIndex + 1; i < log.length; i++) {
+            const entry = log[i];
+            if (entry.type === 'choice') return null;
+            if (entry.type === 'choice_selection') return entry.choice.text;
+        }
+        return null;
+    };
+
+    log.forEach((entry, index) => {
+        switch (entry.type) {
+            case 'background_change':
+            case 'sprite_change':
+            case 'cg_show':
+                scene = reduceScene(entry, scene);
+                break;
+            case 'dialogue': {
+                const character = gameData.characters.find(c => c.id === entry.characterId);
+                const hasVoice = !!entry.voiceAssetId && gameData.assets.some(a => a.id === entry.voiceAssetId);
+                push({ kind: 'dialogue', speaker: character?.name || 'Unknown', text: stripDialogueMarkup(entry.text), ...(hasVoice ? { voiceId: entry.voiceAssetId } : {}) });
+                break;
+            }
+            case 'choice_selection': {
+                const player = gameData.players.find(p => p.id === entry.playerId);
+                push({ kind: 'dialogue', speaker: player?.name || 'A player', text: `Chose: "${entry.choice.text}"` });
+                break;
+            }
+            case 'choice': {
+                const choices = (entry.choices || []).filter(c => c.text.trim());
+                if (choices.length === 0) break;
+                const chosen = chosenTextAfter(index);
+                push({ kind: 'choice', speaker: null, text: '', options: choices.map(c => ({ text: c.text, chosen: c.text === chosen })) });
+                break;
+            }
+            case 'dice_roll': {
+                const name = gameData.characters.find(c => c.id === entry.characterId)?.name || 'Someone';
+                push({ kind: 'narration', speaker: null, text: `${name} rolled ${formatDiceBreakdown(entry)}` });
+                break;
+            }
+            case 'skill_check': {
+                const name = gameData.characters.find(c => c.id === entry.characterId)?.name || 'Someone';
+                push({ kind: 'narration', speaker: null, text: `${name} attempted a ${formatSkillCheck(entry)}.` });
+                break;
+            }
+            case 'quest_status':
+                push({ kind: 'narration', speaker: null, text: entry.text });
+                break;
+        }
+    });
+    return beats;
+};
+
+// The player itself. It reads the story from #story-data and only ever sets textContent, so
+// nothing in the story is parsed as HTML.
+const PLAYER_STYLE = `
+* { box-sizing: border-box; }
+body { margin: 0; min-height: 100vh; background: #1a1a2e; color: #dcdcdc; font-family: system-ui, sans-serif; display: flex; flex-direction: column; align-items: center; }
+header { width: 100%; max-width: 1100px; display: flex; justify-content: space-between; align-items: center; padding: 12px 16px; }
+h1 { margin: 0; font-size: 1.25rem; color: #e94560; }
+header button { background: #0f3460; color: #dcdcdc; border: 0; border-radius: 6px; padding: 8px 14px; margin-left: 8px; cursor: pointer; font-weight: 600; }
+header button:hover { background: #e94560; }
+#stage { position: relative; width: 100%; max-width: 1100px; aspect-ratio: 16 / 9; background: #000; overflow: hidden; cursor: pointer; user-select: none; }
+#stage img { position: absolute; }
+#background { inset: 0; width: 100%; height: 100%; object-fit: cover; }
+#sprites { position: absolute; inset: 0; }
+#sprites img { position: absolute; bottom: 0; max-width: none; object-fit: contain; }
+#cg { inset: 0; width: 100%; height: 100%; object-fit: contain; background: rgba(0, 0, 0, 0.75); }
+#dialogue { position: absolute; left: 2%; right: 2%; bottom: 3%; background: rgba(22, 33, 62, 0.92); border: 2px solid #0f3460; border-radius: 8px; padding: 14px 18px; min-height: 22%; }
+#speaker { color: #e94560; font-weight: 700; margin-bottom: 6px; }
+#text { font-size: 1.1rem; line-height: 1.5; white-space: pre-wrap; }
+#text.narration { font-style: italic; color: #b8b8c8; }
+#options { list-style: none; margin: 0; padding: 0; }
+#options li { background: #0f3460; border-radius: 6px; padding: 8px 12px; margin-bottom: 6px; }
+#options li.chosen { background: #e94560; color: #fff; font-weight: 600; }
+#hint { position: absolute; right: 14px; bottom: 8px; font-size: 0.75rem; color: #888; }
+#end { position: absolute; inset: 0; display: none; flex-direction: column; align-items: center; justify-content: center; background: rgba(0, 0, 0, 0.8); font-size: 2.5rem; color: #e94560; font-weight: 700; }
+#end button { margin-top: 24px; font-size: 1rem; background: #0f3460; color: #dcdcdc; border: 0; border-radius: 6px; padding: 10px 18px; cursor: pointer; }
+aside { position: fixed; top: 0; right: 0; width: min(420px, 100%); height: 100vh; background: #16213e; border-left: 2px solid #0f3460; padding: 16px; overflow-y: auto; display: none; }
+aside.open { display: block; }
+aside h2 { margin: 0 0 12px; color: #e94560; font-size: 1.1rem; display: flex; justify-content: space-between; }
+aside h2 button { background: none; border: 0; color: #dcdcdc; font-size: 1.1rem; cursor: pointer; }
+.entry { padding: 8px; border-radius: 6px; margin-bottom: 6px; background: #1a1a2e; }
+.entry.current { outline: 2px solid #e94560; }
+#backlog .entry { cursor: pointer; }
+#backlog .entry:hover { background: #0f3460; }
+.entry b { color: #e94560; display: block; font-size: 0.85rem; }
+.entry .other { color: #888; font-size: 0.85rem; }
+.empty { color: #888; font-style: italic; }
+`;
+
+const PLAYER_SCRIPT = `
+(function () {
+    var story = JSON.parse(document.getElementById('story-data').textContent);
+    var beats = story.beats;
+    var index = 0;
+    var voice = null;
+    var $ = function (id) { return document.getElementById(id); };
+
+    function setImage(img, assetId) {
+        if (assetId && story.media[assetId]) {
+            img.src = story.media[assetId];
+            img.style.display = '';
+        } else {
+            img.removeAttribute('src');
+            img.style.display = 'none';
+        }
+    }
+
+    function render() {
+        var beat = beats[index];
+        $('end').style.display = index >= beats.length ? 'flex' : 'none';
+        if (!beat) { playVoice(null); renderPanels(); return; }
+        setImage($('background'), beat.backgroundId);
+        setImage($('cg'), beat.cgId);
+        var sprites = $('sprites');
+        sprites.textContent = '';
+        beat.sprites.forEach(function (sprite) {
+            var img = document.createElement('img');
+            img.src = story.media[sprite.assetId];
+            img.alt = sprite.name;
+            img.style.left = (sprite.x * 100) + '%';
+            img.style.height = (sprite.height * 100) + '%';
+            img.style.transform = 'translateX(-50%)' + (sprite.flipped ? ' scaleX(-1)' : '');
+            sprites.appendChild(img);
+        });
+        $('speaker').textContent = beat.speaker || '';
+        $('speaker').style.display = beat.speaker ? '' : 'none';
+        $('text').textContent = beat.text;
+        $('text').className = beat.kind === 'narration' ? 'narration' : '';
+        var options = $('options');
+        options.textContent = '';
+        (beat.options || []).forEach(function (option) {
+            var li = document.createElement('li');
+            li.textContent = option.text + (option.chosen ? '  \\u2714' : '');
+            if (option.chosen) li.className = 'chosen';
+            options.appendChild(li);
+        });
+        $('hint').textContent = (index + 1) + ' / ' + beats.length;
+        playVoice(beat);
+        renderPanels();
+    }
+
+    function playVoice(beat) {
+        if (voice) { voice.pause(); voice = null; }
+        if (!beat || !beat.voiceId || !story.media[beat.voiceId]) return;
+        var clip = new Audio(story.media[beat.voiceId]);
+        var beatIndex = index;
+        clip.addEventListener('ended', function () {
+            if (voice === clip && index === beatIndex) advance();
+        });
+        clip.play().catch(function () {}); // Browsers block sound until the reader first clicks.
+        voice = clip;
+    }
+
+    function entry(title, text, isCurrent) {
+        var div = document.createElement('div');
+        div.className = 'entry' + (isCurrent ? ' current' : '');
+        if (title) {
+            var b = document.createElement('b');
+            b.textContent = title;
+            div.appendChild(b);
+        }
+        div.appendChild(document.createTextNode(text));
+        return div;
+    }
+
+    function empty(text) {
+        var p = document.createElement('p');
+        p.className = 'empty';
+        p.textContent = text;
+        return p;
+    }
+
+    function renderPanels() {
+        var backlog = $('backlog-entries');
+        var history = $('history-entries');
+        backlog.textContent = '';
+        history.textContent = '';
+        for (var i = 0; i <= index && i < beats.length; i++) {
+            var beat = beats[i];
+            if (beat.kind === 'choice') {
+                var chosen = beat.options.filter(function (o) { return o.chosen; })[0];
+                var item = entry('Choice ' + (history.childNodes.length + 1), chosen ? chosen.text : 'Nothing was chosen.', i === index);
+                var others = beat.options.filter(function (o) { return !o.chosen; }).map(function (o) { return o.text; });
+                if (others.length) {
+                    var other = document.createElement('div');
+                    other.className = 'other';
+                    other.textContent = 'Not taken: ' + others.join(', ');
+                    item.appendChild(other);
+                }
+                history.appendChild(item);
+                continue;
+            }
+            var line = entry(beat.speaker, beat.text, i === index);
+            line.setAttribute('data-beat', String(i));
+            backlog.appendChild(line);
+        }
+        if (!backlog.childNodes.length) backlog.appendChild(empty('Nothing has been said yet.'));
+        if (!history.childNodes.length) history.appendChild(empty('No choices yet.'));
+        if ($('backlog').className === 'open') backlog.lastChild.scrollIntoView({ block: 'nearest' });
+    }
+
+    function advance() {
+        if (index < beats.length) { index++; render(); }
+    }
+
+    function back() {
+        if (index > 0) { index--; render(); }
+    }
+
+    function toggle(id) {
+        var panel = $(id);
+        var open = panel.className !== 'open';
+        $('backlog').className = '';
+        $('history').className = '';
+        panel.className = open ? 'open' : '';
+        renderPanels();
+    }
+
+    $('stage').addEventListener('click', function (event) {
+        if (event.target.tagName !== 'BUTTON') advance();
+    });
+    $('backlog-entries').addEventListener('click', function (event) {
+        var line = event.target.closest('[data-beat]');
+        if (line) { index = Number(line.getAttribute('data-beat')); render(); }
+    });
+    $('restart').addEventListener('click', function () { index = 0; render(); });
+    $('toggle-backlog').addEventListener('click', function () { toggle('backlog'); });
+    $('toggle-history').addEventListener('click', function () { toggle('history'); });
+    document.querySelectorAll('aside h2 button').forEach(function (button) {
+        button.addEventListener('click', function () { button.closest('aside').className = ''; });
+    });
+    document.addEventListener('keydown', function (event) {
+        if (event.key === ' ' || event.key === 'Enter' || event.key === 'ArrowRight') { event.preventDefault(); advance(); }
+        else if (event.key === 'ArrowLeft' || event.key === 'Backspace') { event.preventDefault(); back(); }
+        else if (event.key === 'l' || event.key === 'L') toggle('backlog');
+        else if (event.key === 'h' || event.key === 'H') toggle('history');
+        else if (event.key === 'Escape') { $('backlog').className = ''; $('history').className = ''; }
+    });
+    render();
+})();
+`;
+
+/**
+ * Writes the player page for a game.
+ * @param gameData The game to export.
+ * @param media The URL of each image and voice clip by asset id, normally a data URL.
+ */
+export const buildHtmlPlayer = (gameData: GameData, media: Record<string, string>): string => {
+    const title = escapeHtml(gameData.title);
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${PLAYER_STYLE}</style>
+</head>
+<body>
+<header>
+<h1>${title}</h1>
+<div><button id="toggle-backlog" title="Backlog (L)">Backlog</button><button id="toggle-history" title="Choice history (H)">Choices</button></div>
+</header>
+<div id="stage">
+<img id="background" alt="">
+<div id="sprites"></div>
+<img id="cg" alt="">
+<div id="dialogue"><div id="speaker"></div><div id="text"></div><ul id="options"></ul><div id="hint"></div></div>
+<div id="end">The End<button id="restart">Play Again</button></div>
+</div>
+<aside id="backlog"><h2>Backlog<button title="Close">&times;</button></h2><div id="backlog-entries"></div></aside>
+<aside id="history"><h2>Choice History<button title="Close">&times;</button></h2><div id="history-entries"></div></aside>
+<script type="application/json" id="story-data">${toScriptJson({ beats: buildPlayerBeats(gameData), media })}</script>
+<script>${PLAYER_SCRIPT}</script>
+</body>
+</html>
+`;
+};
+
+/**
+ * Builds the player page with every image and voice clip the story log uses inlined.
+ * @param gameData The game to export.
+ */
+export const exportHtmlPlayer = async (gameData: GameData): Promise<HtmlPlayerExportResult> => {
+    const usedAssetIds = new Set<string>();
+    buildPlayerBeats(gameData).forEach(beat => {
+        if (beat.backgroundId) usedAssetIds.add(beat.backgroundId);
+        if (beat.cgId) usedAssetIds.add(beat.cgId);
+        beat.sprites.forEach(s => usedAssetIds.add(s.assetId));
+        if (beat.voiceId) usedAssetIds.add(beat.voiceId);
+    });
+
+    const media: Record<string, string> = {};
+    const unbundledAssets: Asset[] = [];
+    for (const asset of gameData.assets.filter(a => usedAssetIds.has(a.id))) {
+        try {
+            media[asset.id] = await fetchAsDataUrl(asset.url);
+        } catch (error) {
+            console.warn(`Could not inline asset ${asset.name} (${asset.url}):`, error);
+            media[asset.id] = asset.url;
+            unbundledAssets.push(asset);
+        }
+    }
+    return { html: buildHtmlPlayer(gameData, media), unbundledAssets };
+};
+
+/**
+ * Exports the player page and triggers a browser download of it.
+ * @returns The assets the page still loads from the network.
+ */
+export const downloadHtmlPlayer = async (gameData: GameData): Promise<Asset[]> => {
+    const { html, unbundledAssets } = await exportHtmlPlayer(gameData);
+    downloadBlob(new Blob([html], { type: 'text/html' }), `${gameData.title.replace(/[^a-z0-9]/gi, '_')}.html`);
+    return unbundledAssets;
+};
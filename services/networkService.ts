@@ -2,7 +2,7 @@ import firebase from 'firebase/compat/app';
 import 'firebase/compat/database';
 import { GameData, Player, GamePhase, ChatMessage } from '../types';
 import { Action } from '../state/reducer';
-import { db } from './firebase';
+import { db, auth } from './firebase';
 
 
 // --- Message Types for Network Communication ---
@@ -11,10 +11,11 @@ export type NetworkMessage =
   | { type: 'PLAYER_JOIN_REQUEST'; payload: { name: string; id: string } }
   // Sent by the GM to all players to synchronize the entire game state
   | { type: 'GAME_STATE_SYNC'; payload: { gameData: GameData; players: Player[]; currentPlayerIndex: number, gamePhase: GamePhase } }
-  // Sent by a player to the GM to perform a game action
-  | { type: 'DISPATCH_ACTION'; payload: { action: Action } }
+  // Sent by a player to the GM to perform a game action. The GM checks it against state/permissions.ts.
+  // The GM only trusts playerId if that player joined from the Firebase account that sent the message.
+  | { type: 'DISPATCH_ACTION'; payload: { action: Action; playerId: string } }
   // Sent by a player to the GM to signal the end of their turn
-  | { type: 'END_TURN'; payload: {} }
+  | { type: 'END_TURN'; payload: { playerId: string } }
   // Sent by a player or GM during the setup/lobby phase
   | { type: 'LOBBY_CHAT_MESSAGE'; payload: { message: ChatMessage } }
   // Custom message sent from the network service to the client when the game is deleted
@@ -22,7 +23,9 @@ export type NetworkMessage =
 
 
 let currentGameId: string | null = null;
-let messageHandler: ((message: NetworkMessage) => void) | null = null;
+// senderUid is the Firebase account that wrote a player's message, or null for the GM's state syncs.
+type MessageHandler = (message: NetworkMessage, senderUid: string | null) => void;
+let messageHandler: MessageHandler | null = null;
 
 // Keep track of Firebase listeners to detach them later
 type Unsubscribe = () => void;
@@ -40,7 +43,7 @@ const typingDisconnectRefs: Record<string, firebase.database.OnDisconnect> = {};
  * This MUST be called before createGameChannel or joinGameChannel.
  * @param handler A callback function to process received messages.
  */
-export const onMessage = (handler: (message: NetworkMessage) => void): void => {
+export const onMessage = (handler: MessageHandler): void => {
     messageHandler = handler;
 };
 
@@ -53,16 +56,28 @@ export const createGameChannel = (gameId: string): void => {
     closeChannel(); // Ensure any previous listeners are cleared
     currentGameId = gameId;
 
+    // Players' messages are filed under their Firebase account's uid. The database rules must only let
+    // an account write under its own uid, so the path tells the GM who really sent each message.
     const actionsPathRef = db.ref(`games/${gameId}/actions`);
-    
-    // Listen for new actions from players
-    const listener = (snapshot: firebase.database.DataSnapshot) => {
-        if (messageHandler && snapshot.exists()) {
-            messageHandler(snapshot.val() as NetworkMessage);
-        }
+    const senderListeners: Record<string, Unsubscribe> = {};
+
+    // Listen for new senders, then for new actions from each of them
+    const senderListener = (senderSnapshot: firebase.database.DataSnapshot) => {
+        const senderUid = senderSnapshot.key;
+        if (!senderUid || senderListeners[senderUid]) return;
+        const listener = (snapshot: firebase.database.DataSnapshot) => {
+            if (messageHandler && snapshot.exists()) {
+                messageHandler(snapshot.val() as NetworkMessage, senderUid);
+            }
+        };
+        senderSnapshot.ref.on('child_added', listener);
+        senderListeners[senderUid] = () => senderSnapshot.ref.off('child_added', listener);
+    };
+    actionsPathRef.on('child_added', senderListener);
+    actionsListenerUnsubscribe = () => {
+        actionsPathRef.off('child_added', senderListener);
+        Object.values(senderListeners).forEach(unsub => unsub());
     };
-    actionsPathRef.on('child_added', listener);
-    actionsListenerUnsubscribe = () => actionsPathRef.off('child_added', listener);
 };
 
 /**
@@ -90,7 +105,7 @@ export const joinGameChannel = (gameId: string): void => {
             } else if (combinedPayload.gameData) {
                 combinedPayload.gameData.lobbyMusicUrl = null;
             }
-            messageHandler({ type: 'GAME_STATE_SYNC', payload: combinedPayload });
+            messageHandler({ type: 'GAME_STATE_SYNC', payload: combinedPayload }, null);
         }
     };
 
@@ -98,7 +113,7 @@ export const joinGameChannel = (gameId: string): void => {
     const stateListener = (snapshot: firebase.database.DataSnapshot) => {
         if (!snapshot.exists()) { // This is key for handling kicked players/ID changes
             if (messageHandler) {
-                messageHandler({ type: 'GAME_DELETED' });
+                messageHandler({ type: 'GAME_DELETED' }, null);
             }
             return;
         }
@@ -154,8 +169,13 @@ export const sendMessage = (message: NetworkMessage): void => {
         const musicPathRef = db.ref(`games/${currentGameId}/music`);
         musicPathRef.set({ lobbyMusicUrl: lobbyMusicUrl || null }).catch(handleError);
     } else {
-        // Player is sending an action to the GM
-        const actionsPathRef = db.ref(`games/${currentGameId}/actions`);
+        // Player is sending an action to the GM, under their own account
+        const uid = auth.currentUser?.uid;
+        if (!uid) {
+            handleError(new Error("You are not signed in to the game services. Please refresh the page."));
+            return;
+        }
+        const actionsPathRef = db.ref(`games/${currentGameId}/actions/${uid}`);
         actionsPathRef.push(message).catch(handleError);
     }
 };
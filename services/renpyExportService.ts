@@ -0,0 +1,253 @@
+import { GameData, Asset } from '../types';
+import { NARRATOR_CHARACTER } from '../constants';
+import { fetchAssetBlob } from './archiveService';
+import { createZip } from './zipService';
+import { formatDiceBreakdown } from './diceNotation';
+import { formatSkillCheck } from './skillCheckService';
+import { stripDialogueMarkup } from './dialogueMarkup';
+import { downloadBlob } from './downloadService';
+
+// Turns a finished session into a Ren'Py project: game/script.rpy replays the story log, and the
+// images it shows are written to game/images/. The story log is a single path through the story,
+// so every menu option continues into what actually happened next.
+
+export interface RenpyExportResult {
+    blob: Blob;
+    // Assets whose binary could not be fetched. The script shows a Ren'Py placeholder for them.
+    missingAssets: Asset[];
+}
+
+const INDENT = '    ';
+
+// Names that already mean something in Ren'Py scripts and must not be used for characters.
+const RESERVED_NAMES = new Set([
+    'and', 'as', 'at', 'behind', 'build', 'call', 'config', 'define', 'elif', 'else', 'expression', 'extend', 'false', 'gui',
+    'hide', 'if', 'im', 'image', 'in', 'init', 'is', 'jump', 'label', 'layeredimage', 'menu', 'narrator', 'none', 'not', 'onlayer',
+    'or', 'pass', 'persistent', 'python', 'renpy', 'return', 'say', 'scene', 'screen', 'show', 'store', 'style', 'transform',
+    'true', 'ui', 'while', 'window', 'with', 'zorder',
+]);
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'image/avif': 'avif',
+};
+
+/**
+ * Makes a Ren'Py name from free text, e.g. "Sir Bram!" -> "sir_bram". Names are unique within
+ * `taken`, which the new name is added to.
+ */
+const toRenpyName = (text: string, fallback: string, taken: Set<string>): string => {
+    let base = text.toLowerCase().replace(/\.(png|jpe?g|webp|gif|avif)$/, '').replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+    if (!base || /^[0-9]/.test(base)) base = `${fallback}${base ? `_${base}` : ''}`;
+    let name = base;
+    for (let n = 2; taken.has(name) || RESERVED_NAMES.has(name); n++) name = `${base}_${n}`;
+    taken.add(name);
+    return name;
+};
+
+const escapeRenpyString = (text: string): string => text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\[/g, '[[')
+    .replace(/\{/g, '{{')
+    .replace(/\r?\n/g, '\\n');
+
+const quote = (text: string) => `"${escapeRenpyString(text)}"`;
+
+const narration = (text: string) => `{i}${escapeRenpyString(text)}{/i}`;
+
+interface RenpyImage {
+    name: string; // The Ren'Py image name, e.g. "bg forest" or "aria happy".
+    assetId: string;
+}
+
+/**
+ * Writes script.rpy for a game's story log.
+ * @param gameData The game to export.
+ * @param imageFiles Paths under game/ of the exported image for each asset id. Assets without a
+ * file are shown as placeholders.
+ */
+export const buildRenpyScript = (gameData: GameData, imageFiles: Map<string, string>): string => {
+    const log = gameData.storyLog;
+    const characterNames = new Map<string, string>();
+    const takenNames = new Set<string>(['bg', 'cg', 'black']);
+    const characterName = (id: string) => {
+        if (!characterNames.has(id)) {
+            const character = gameData.characters.find(c => c.id === id);
+            characterNames.set(id, toRenpyName(character?.name || id, 'character', takenNames));
+        }
+        return characterNames.get(id)!;
+    };
+
+    // Image names are made in the order the story first shows them.
+    const images = new Map<string, RenpyImage>(); // Keyed by "<tag> <assetId>".
+    const assetNames = new Set<string>();
+    const imageFor = (tag: string, assetId: string): string => {
+        const key = `${tag} ${assetId}`;
+        if (!images.has(key)) {
+            const asset = gameData.assets.find(a => a.id === assetId);
+            images.set(key, { name: `${tag} ${toRenpyName(asset?.name || assetId, 'image', assetNames)}`, assetId });
+        }
+        return images.get(key)!.name;
+    };
+
+    const body: string[] = [];
+    const say = (line: string) => body.push(`${INDENT}${line}`);
+    let background: string | null = null;
+    let cg: string | null = null;
+    const sprites = new Map<string, string>(); // Character id -> image name.
+
+    // The text of the option picked at a menu, if someone picked one before the next menu.
+    const chosenTextAfter = (choiceIndex: number): string | null => {
+        for (let i = choiceIndex + 1; i < log.length; i++) {
+            const entry = log[i];
+            if (entry.type === 'choice') return null;
+            if (entry.type === 'choice_selection') return entry.choice.text;
+        }
+        return null;
+    };
+
+    say('scene black');
+    log.forEach((entry, index) => {
+        switch (entry.type) {
+            case 'background_change':
+                background = entry.assetId ? imageFor('bg', entry.assetId) : null;
+                // `scene` clears every image, but in the game sprites and CGs stay up across backgrounds.
+                say(`scene ${background || 'black'}`);
+                sprites.forEach((image) => say(`show ${image}`));
+                if (cg) say(`show ${cg} zorder 10`);
+                break;
+            case 'sprite_change': {
+                const tag = characterName(entry.characterId);
+                if (entry.assetId) {
+                    const image = imageFor(tag, entry.assetId);
+                    sprites.set(entry.characterId, image);
+                    say(`show ${image}`);
+                } else if (sprites.delete(entry.characterId)) {
+                    say(`hide ${tag}`);
+                }
+                break;
+            }
+            case 'cg_show':
+                if (entry.assetId) {
+                    cg = imageFor('cg', entry.assetId);
+                    say(`show ${cg} zorder 10`);
+                } else if (cg) {
+                    cg = null;
+                    say('hide cg');
+                }
+                break;
+            case 'dialogue': {
+                const text = stripDialogueMarkup(entry.text);
+                if (entry.characterId === NARRATOR_CHARACTER.id) {
+                    say(quote(text));
+                } else if (gameData.characters.some(c => c.id === entry.characterId)) {
+                    say(`${characterName(entry.characterId)} ${quote(text)}`);
+                } else {
+                    say(`"Unknown" ${quote(text)}`);
+                }
+                break;
+            }
+            case 'choice': {
+                const choices = (entry.choices || []).filter(c => c.text.trim());
+                if (choices.length === 0) break;
+                const chosen = chosenTextAfter(index);
+                say('menu:');
+                choices.forEach(choice => {
+                    say(`${INDENT}${quote(choice.text)}:`);
+                    if (choice.text === chosen) say(`${INDENT}${INDENT}# Chosen in the session.`);
+                    say(`${INDENT}${INDENT}pass`);
+                });
+                break;
+            }
+            case 'dice_roll': {
+                const name = gameData.characters.find(c => c.id === entry.characterId)?.name || 'Someone';
+                say(`"${narration(`${name} rolled ${formatDiceBreakdown(entry)}`)}"`);
+                break;
+            }
+            case 'skill_check': {
+                const name = gameData.characters.find(c => c.id === entry.characterId)?.name || 'Someone';
+                say(`"${narration(`${name} attempted a ${formatSkillCheck(entry)}.`)}"`);
+                break;
+            }
+            case 'quest_status':
+                say(`"${narration(entry.text)}"`);
+                break;
+        }
+    });
+    say('return');
+
+    const definitions = Array.from(characterNames.entries())
+        .filter(([id]) => gameData.characters.some(c => c.id === id))
+        .map(([id, name]) => `define ${name} = Character(${quote(gameData.characters.find(c => c.id === id)!.name)})`);
+
+    const imageDefinitions = Array.from(images.values()).map(({ name, assetId }) => {
+        const file = imageFiles.get(assetId);
+        if (file) return `image ${name} = ${quote(file)}`;
+        const label = quote(gameData.assets.find(a => a.id === assetId)?.name || name);
+        return name.startsWith('bg ') || name.startsWith('cg ')
+            ? `image ${name} = Placeholder("bg", text=${label})`
+            : `image ${name} = Placeholder(text=${label})`;
+    });
+
+    return [
+        `# ${gameData.title}`,
+        '# Exported from Visual Novel Forge.',
+        '',
+        ...definitions,
+        ...(definitions.length > 0 ? [''] : []),
+        ...imageDefinitions,
+        ...(imageDefinitions.length > 0 ? [''] : []),
+        'label start:',
+        ...body,
+        '',
+    ].join('\n');
+};
+
+/**
+ * Builds a zipped Ren'Py project holding script.rpy and every image the story log shows.
+ * @param gameData The game to export.
+ */
+export const exportRenpyProject = async (gameData: GameData): Promise<RenpyExportResult> => {
+    const usedAssetIds = new Set<string>();
+    gameData.storyLog.forEach(entry => {
+        if ((entry.type === 'background_change' || entry.type === 'sprite_change' || entry.type === 'cg_show') && entry.assetId) {
+            usedAssetIds.add(entry.assetId);
+        }
+    });
+
+    const folder = gameData.title.replace(/[^a-z0-9]/gi, '_') || 'visual_novel';
+    const fileNames = new Set<string>();
+    const imageFiles = new Map<string, string>();
+    const files: { path: string; data: Uint8Array }[] = [];
+    const missingAssets: Asset[] = [];
+
+    for (const asset of gameData.assets.filter(a => usedAssetIds.has(a.id))) {
+        try {
+            const blob = await fetchAssetBlob(asset.url);
+            const extension = IMAGE_EXTENSIONS[blob.type] || asset.url.match(/^[^?#]+\.([a-z0-9]{3,4})(?:[?#]|$)/i)?.[1]?.toLowerCase() || 'png';
+            const path = `images/${toRenpyName(asset.name, 'image', fileNames)}.${extension}`;
+            imageFiles.set(asset.id, path);
+            files.push({ path: `${folder}/game/${path}`, data: new Uint8Array(await blob.arrayBuffer()) });
+        } catch (error) {
+            console.warn(`Could not export asset ${asset.name} (${asset.url}):`, error);
+            missingAssets.push(asset);
+        }
+    }
+
+    const script = buildRenpyScript(gameData, imageFiles);
+    return { blob: createZip([{ path: `${folder}/game/script.rpy`, data: script }, ...files]), missingAssets };
+};
+
+/**
+ * Exports a Ren'Py project and triggers a browser download of the zip.
+ * @returns The assets that are placeholders in the project.
+ */
+export const downloadRenpyProject = async (gameData: GameData): Promise<Asset[]> => {
+    const { blob, missingAssets } = await exportRenpyProject(gameData);
+    downloadBlob(blob, `${gameData.title.replace(/[^a-z0-9]/gi, '_')}_renpy.zip`);
+    return missingAssets;
+};
@@ -0,0 +1,65 @@
+import { Character, PlayerId, SkillCheck, SkillCheckLogEntry, StatName } from '../types';
+import { createRollSeed, deriveDieValue } from './diceService';
+
+// Skill checks are a d20 plus the speaking character's stat modifier against a DC the GM set.
+// Like dice rolls they are resolved on the GM host, and the d20 is derived from a seed exactly as
+// die 0 of a "1d20" roll would be, so the natural roll can be audited the same way.
+
+export const STAT_LABELS: Record<StatName, string> = {
+    strength: 'Strength',
+    dexterity: 'Dexterity',
+    constitution: 'Constitution',
+    intelligence: 'Intelligence',
+    wisdom: 'Wisdom',
+    charisma: 'Charisma',
+};
+
+export const STAT_NAMES = Object.keys(STAT_LABELS) as StatName[];
+
+/**
+ * The bonus a stat adds to a d20 roll: +0 at 10 and 11, +1 for every two points above, -1 for
+ * every two below.
+ */
+export const getStatModifier = (score: number): number => Math.floor((score - 10) / 2);
+
+export const formatModifier = (modifier: number): string => modifier >= 0 ? `+${modifier}` : String(modifier);
+
+/**
+ * Describes a check's outcome, e.g. "DC 15 Strength check: 12 +2 = 14, failure".
+ */
+export const formatSkillCheck = (entry: SkillCheckLogEntry): string =>
+    `DC ${entry.dc} ${STAT_LABELS[entry.stat]} check: ${entry.roll} ${formatModifier(entry.modifier)} = ${entry.total}, ${entry.success ? 'success' : 'failure'}`;
+
+/**
+ * Rolls the pending check for a character.
+ * @param check The check the GM called for.
+ * @param character The character attempting it.
+ * @param playerId The player rolling, whose coins the outcome's effects apply to.
+ */
+export const resolveSkillCheck = async (check: SkillCheck, character: Character, playerId: PlayerId): Promise<SkillCheckLogEntry> => {
+    const seed = createRollSeed();
+    const roll = await deriveDieValue(seed, 0, 20);
+    const modifier = getStatModifier(character.stats?.[check.stat] ?? 10);
+    const total = roll + modifier;
+    return {
+        type: 'skill_check',
+        checkId: check.id,
+        playerId,
+        characterId: character.id,
+        stat: check.stat,
+        dc: check.dc,
+        roll,
+        modifier,
+        total,
+        success: total >= check.dc,
+        seed,
+    };
+};
+
+/**
+ * Recomputes the natural d20 of a logged check from its seed.
+ */
+export const verifySkillCheck = async (entry: SkillCheckLogEntry): Promise<boolean> => {
+    const roll = await deriveDieValue(entry.seed, 0, 20);
+    return roll === entry.roll && roll + entry.modifier === entry.total && (entry.total >= entry.dc) === entry.success;
+};
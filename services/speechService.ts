@@ -0,0 +1,73 @@
+import { CharacterVoice } from '../types';
+
+// Reads lines aloud with the browser's speech synthesis, for text-to-speech playback. One line is
+// spoken at a time; starting another cuts the first off.
+
+export const DEFAULT_CHARACTER_VOICE: CharacterVoice = { rate: 1, pitch: 1 };
+
+const VOICES_TIMEOUT_MS = 2000;
+
+// Chrome drops utterances that nothing references before they finish, along with their end events.
+let currentUtterance: SpeechSynthesisUtterance | null = null;
+
+export const isSpeechSupported = (): boolean => typeof window !== 'undefined' && 'speechSynthesis' in window && typeof SpeechSynthesisUtterance !== 'undefined';
+
+/**
+ * The voices the browser can speak with. Some browsers load them after the page, so this waits
+ * briefly for them to arrive.
+ */
+export const getSpeechVoices = (): Promise<SpeechSynthesisVoice[]> => {
+    if (!isSpeechSupported()) return Promise.resolve([]);
+    const voices = window.speechSynthesis.getVoices();
+    if (voices.length > 0) return Promise.resolve(voices);
+    return new Promise(resolve => {
+        const done = () => {
+            window.clearTimeout(timeout);
+            window.speechSynthesis.removeEventListener('voiceschanged', done);
+            resolve(window.speechSynthesis.getVoices());
+        };
+        const timeout = window.setTimeout(done, VOICES_TIMEOUT_MS);
+        window.speechSynthesis.addEventListener('voiceschanged', done);
+    });
+};
+
+/**
+ * Stops the line being read, without calling its onEnd.
+ */
+export const stopSpeaking = () => {
+    if (!isSpeechSupported()) return;
+    currentUtterance = null;
+    window.speechSynthesis.cancel();
+};
+
+/**
+ * Reads a line aloud, cutting off any line already being read.
+ * @param voice The speaker's voice settings. The default voice is used without them.
+ * @param onEnd Called when the line has been read out. A line that fails, for example because the
+ * browser wants a click first, does not end by itself.
+ */
+export const speakLine = (text: string, voice: CharacterVoice | undefined, onEnd: () => void) => {
+    stopSpeaking();
+    if (!isSpeechSupported() || !text.trim()) return;
+    const { voiceName, rate, pitch } = voice || DEFAULT_CHARACTER_VOICE;
+    const utterance = new SpeechSynthesisUtterance(text);
+    const namedVoice = voiceName ? window.speechSynthesis.getVoices().find(v => v.name === voiceName) : undefined;
+    if (namedVoice) {
+        utterance.voice = namedVoice;
+        utterance.lang = namedVoice.lang;
+    }
+    utterance.rate = rate;
+    utterance.pitch = pitch;
+    utterance.onend = () => {
+        if (currentUtterance !== utterance) return; // Cut off by another line or by stopSpeaking.
+        currentUtterance = null;
+        onEnd();
+    };
+    utterance.onerror = event => {
+        if (currentUtterance !== utterance) return;
+        currentUtterance = null;
+        console.warn("Speech synthesis failed:", event.error);
+    };
+    currentUtterance = utterance;
+    window.speechSynthesis.speak(utterance);
+};
@@ -0,0 +1,108 @@
+// Plays a story's background music, sound effects and voice clips during play. Music tracks loop and
+// crossfade into each other; sound effects are one-shots laid over the music; only one line is voiced
+// at a time.
+
+export const MUSIC_CROSSFADE_MS = 1000;
+const FADE_STEP_MS = 50;
+
+export interface StoryAudio {
+    setMusic: (url: string | null) => void; // null fades the music out.
+    playSoundEffect: (url: string) => void;
+    playVoice: (url: string, onEnded: () => void) => void; // Cuts off the clip already playing, if any.
+    stopVoice: () => void;
+    stop: () => void;
+}
+
+export const createStoryAudio = (): StoryAudio => {
+    let current: { url: string; audio: HTMLAudioElement } | null = null;
+    const fading = new Map<HTMLAudioElement, number>(); // Running fades, by their interval ids.
+    const soundEffects = new Set<HTMLAudioElement>();
+    let voice: HTMLAudioElement | null = null;
+
+    const fade = (audio: HTMLAudioElement, to: number, onDone?: () => void) => {
+        window.clearInterval(fading.get(audio));
+        fading.delete(audio);
+        if (audio.volume === to) {
+            onDone?.();
+            return;
+        }
+        const step = (FADE_STEP_MS / MUSIC_CROSSFADE_MS) * (to > audio.volume ? 1 : -1);
+        const interval = window.setInterval(() => {
+            const volume = Math.min(1, Math.max(0, audio.volume + step));
+            audio.volume = volume;
+            if ((step > 0 && volume >= to) || (step < 0 && volume <= to)) {
+                window.clearInterval(interval);
+                fading.delete(audio);
+                onDone?.();
+            }
+        }, FADE_STEP_MS);
+        fading.set(audio, interval);
+    };
+
+    const release = (audio: HTMLAudioElement) => {
+        audio.pause();
+        audio.removeAttribute('src');
+        audio.load();
+    };
+
+    const setMusic = (url: string | null) => {
+        if ((current?.url || null) === url) return;
+        if (current) {
+            const outgoing = current.audio;
+            fade(outgoing, 0, () => release(outgoing));
+        }
+        current = null;
+        if (!url) return;
+
+        const audio = new Audio(url);
+        audio.loop = true;
+        audio.volume = 0;
+        audio.play().catch(error => {
+            console.warn("Story music autoplay was blocked by the browser.", error);
+        });
+        fade(audio, 1);
+        current = { url, audio };
+    };
+
+    const playSoundEffect = (url: string) => {
+        const audio = new Audio(url);
+        soundEffects.add(audio);
+        audio.addEventListener('ended', () => soundEffects.delete(audio));
+        audio.play().catch(error => {
+            soundEffects.delete(audio);
+            console.warn("Sound effect playback was blocked by the browser.", error);
+        });
+    };
+
+    const stopVoice = () => {
+        if (voice) release(voice);
+        voice = null;
+    };
+
+    const playVoice = (url: string, onEnded: () => void) => {
+        stopVoice();
+        const audio = new Audio(url);
+        audio.addEventListener('ended', () => {
+            if (voice !== audio) return;
+            voice = null;
+            onEnded();
+        });
+        audio.play().catch(error => {
+            console.warn("Voice clip playback was blocked by the browser.", error);
+        });
+        voice = audio;
+    };
+
+    const stop = () => {
+        stopVoice();
+        fading.forEach(interval => window.clearInterval(interval));
+        fading.forEach((_, audio) => release(audio));
+        fading.clear();
+        if (current) release(current.audio);
+        current = null;
+        soundEffects.forEach(release);
+        soundEffects.clear();
+    };
+
+    return { setMusic, playSoundEffect, playVoice, stopVoice, stop };
+};
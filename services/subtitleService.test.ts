@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { getSubtitleCues, buildSrt, buildWebVtt, SubtitleCue } from './subtitleService';
+import { VideoCard } from './videoTimeline';
+import { EMPTY_SCENE } from '../state/scene';
+
+const card = (startMs: number, durationMs: number, dialogue: { characterName: string; text: string } | null): VideoCard => ({
+    scene: { ...EMPTY_SCENE, dialogue },
+    startMs,
+    durationMs,
+    soundEffectAssetIds: [],
+    screenEffects: [],
+});
+
+describe('getSubtitleCues', () => {
+    it('makes a cue for each card with a line, without its markup', () => {
+        const cues = getSubtitleCues([
+            card(0, 500, null),
+            card(500, 2000, { characterName: 'Ann', text: '[b]Hello[/b] there' }),
+            card(2500, 1000, { characterName: 'Ann', text: '[wait=200]  ' }),
+        ]);
+        expect(cues).toEqual([{ startMs: 500, endMs: 2500, speaker: 'Ann', text: 'Hello there' }]);
+    });
+});
+
+describe('subtitle files', () => {
+    const cues: SubtitleCue[] = [
+        { startMs: 0, endMs: 1500.4, speaker: 'Ann', text: 'Hi' },
+        { startMs: 3_723_045, endMs: 3_725_000, speaker: 'Bo <the> Bold', text: 'One\n\nTwo --> three\n  & four  ' },
+    ];
+
+    it('writes SRT with comma timestamps and the speaker on the first line', () => {
+        expect(buildSrt(cues)).toBe([
+            '1',
+            '00:00:00,000 --> 00:00:01,500',
+            'Ann: Hi',
+            '',
+            '2',
+            '01:02:03,045 --> 01:02:05,000',
+            'Bo <the> Bold: One',
+            'Two -> three',
+            '& four',
+            '',
+        ].join('\n'));
+    });
+
+    it('writes WebVTT with dot timestamps, escaped text and a voice span on every line', () => {
+        expect(buildWebVtt(cues)).toBe([
+            'WEBVTT',
+            '',
+            '1',
+            '00:00:00.000 --> 00:00:01.500',
+            '<v Ann>Hi</v>',
+            '',
+            '2',
+            '01:02:03.045 --> 01:02:05.000',
+            '<v Bo &lt;the&gt; Bold>One</v>',
+            '<v Bo &lt;the&gt; Bold>Two -&gt; three</v>',
+            '<v Bo &lt;the&gt; Bold>&amp; four</v>',
+            '',
+        ].join('\n'));
+    });
+
+    it('writes an empty track when there are no lines', () => {
+        expect(buildWebVtt([])).toBe('WEBVTT\n');
+    });
+});
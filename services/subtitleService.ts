@@ -0,0 +1,78 @@
+import { VideoCard } from './videoTimeline';
+import { stripDialogueMarkup } from './dialogueMarkup';
+import { downloadBlob } from './downloadService';
+
+// Caption tracks for the exported video, one cue for each dialogue card, labelled with the speaker.
+// Both formats are built from the video's timeline, so they match the WebM they are exported with.
+
+export interface SubtitleCue {
+    startMs: number;
+    endMs: number;
+    speaker: string;
+    text: string;
+}
+
+export const getSubtitleCues = (cards: VideoCard[]): SubtitleCue[] => cards
+    .filter(card => card.scene.dialogue && stripDialogueMarkup(card.scene.dialogue.text).trim())
+    .map(card => ({
+        startMs: card.startMs,
+        endMs: card.startMs + card.durationMs,
+        speaker: card.scene.dialogue!.characterName,
+        text: stripDialogueMarkup(card.scene.dialogue!.text),
+    }));
+
+// "00:01:02,345" for SRT, "00:01:02.345" for WebVTT.
+const formatTimestamp = (ms: number, separator: ',' | '.') => {
+    const total = Math.round(ms);
+    const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+    return `${pad(Math.floor(total / 3_600_000))}:${pad(Math.floor(total / 60_000) % 60)}:${pad(Math.floor(total / 1000) % 60)}${separator}${pad(total % 1000, 3)}`;
+};
+
+// A blank line ends a cue in both formats, and "-->" would be read as a timing line.
+const toCueLines = (text: string) => text
+    .split(/\r?\n/)
+    .map(line => line.trim().replace(/-->/g, '->'))
+    .filter(Boolean);
+
+/**
+ * Writes the cues as a SubRip (.srt) file.
+ */
+export const buildSrt = (cues: SubtitleCue[]): string => cues
+    .map((cue, i) => {
+        const [first, ...rest] = toCueLines(cue.text);
+        return [
+            String(i + 1),
+            `${formatTimestamp(cue.startMs, ',')} --> ${formatTimestamp(cue.endMs, ',')}`,
+            `${cue.speaker}: ${first}`,
+            ...rest,
+        ].join('\n');
+    })
+    .join('\n\n') + '\n';
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Writes the cues as a WebVTT (.vtt) file. Speakers are marked with voice spans, which players
+ * show as a label and screen readers announce.
+ */
+export const buildWebVtt = (cues: SubtitleCue[]): string => [
+    'WEBVTT',
+    ...cues.map((cue, i) => {
+        const voice = escapeVtt(cue.speaker).replace(/\s+/g, ' ');
+        return [
+            String(i + 1),
+            `${formatTimestamp(cue.startMs, '.')} --> ${formatTimestamp(cue.endMs, '.')}`,
+            ...toCueLines(cue.text).map(line => `<v ${voice}>${escapeVtt(line)}</v>`),
+        ].join('\n');
+    }),
+].join('\n\n') + '\n';
+
+/**
+ * Triggers browser downloads of the .srt and .vtt tracks for a video timeline.
+ * @param baseName The file name without its extension, the same as the video's.
+ */
+export const downloadSubtitles = (cards: VideoCard[], baseName: string) => {
+    const cues = getSubtitleCues(cards);
+    downloadBlob(new Blob([buildSrt(cues)], { type: 'application/x-subrip' }), `${baseName}.srt`);
+    downloadBlob(new Blob([buildWebVtt(cues)], { type: 'text/vtt' }), `${baseName}.vtt`);
+};
@@ -0,0 +1,292 @@
+import { GameData, Asset } from '../types';
+import { fetchAssetBlob } from './archiveService';
+import { createZip } from './zipService';
+import { formatDiceBreakdown } from './diceNotation';
+import { formatSkillCheck } from './skillCheckService';
+import { stripDialogueMarkup } from './dialogueMarkup';
+import { downloadBlob } from './downloadService';
+
+// Turns a session into a book: the story log is split into chapters, one for each place the story
+// moves to, with dialogue credited to its speaker. Picks are shown as callouts, and rolls, checks,
+// stat changes and quest updates as side notes. The same transcript is written as Markdown and as
+// an EPUB 3 book with the backgrounds and CGs inside.
+
+export type TranscriptBlock =
+    | { kind: 'image'; assetId: string; role: 'background' | 'cg' }
+    | { kind: 'dialogue'; speaker: string; text: string }
+    | { kind: 'callout'; text: string }
+    | { kind: 'note'; text: string };
+
+export interface TranscriptChapter {
+    title: string;
+    blocks: TranscriptBlock[];
+}
+
+export interface EpubExportResult {
+    blob: Blob;
+    // Assets whose binary could not be fetched. The book shows their name instead.
+    missingAssets: Asset[];
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+};
+
+/**
+ * Splits a game's story log into chapters. A background change after anything has happened starts
+ * a new chapter named after the background. Hidden stat changes are left out, as they are for
+ * players in the history log.
+ */
+export const buildTranscript = (gameData: GameData): TranscriptChapter[] => {
+    const getCharacter = (id: string) => gameData.characters.find(c => c.id === id);
+    const getAsset = (id: string | null) => id ? gameData.assets.find(a => a.id === id) : undefined;
+    const chapters: TranscriptChapter[] = [];
+    let chapter: TranscriptChapter | null = null;
+
+    const add = (block: TranscriptBlock) => {
+        if (!chapter) {
+            chapter = { title: `Chapter ${chapters.length + 1}`, blocks: [] };
+            chapters.push(chapter);
+        }
+        chapter.blocks.push(block);
+    };
+
+    for (const log of gameData.storyLog) {
+        switch (log.type) {
+            case 'background_change': {
+                const asset = getAsset(log.assetId);
+                if (!asset) break;
+                if (!chapter || chapter.blocks.some(b => b.kind !== 'image')) {
+                    chapter = { title: `Chapter ${chapters.length + 1}: ${asset.name}`, blocks: [] };
+                    chapters.push(chapter);
+                }
+                add({ kind: 'image', assetId: asset.id, role: 'background' });
+                break;
+            }
+            case 'cg_show': {
+                const asset = getAsset(log.assetId);
+                if (asset) add({ kind: 'image', assetId: asset.id, role: 'cg' });
+                break;
+            }
+            case 'dialogue':
+                add({ kind: 'dialogue', speaker: getCharacter(log.characterId)?.name || 'Unknown', text: stripDialogueMarkup(log.text) });
+                break;
+            case 'choice_selection': {
+                const player = gameData.players.find(p => p.id === log.playerId);
+                add({ kind: 'callout', text: `${player?.name || 'A player'} chose: "${log.choice.text}"` });
+                break;
+            }
+            case 'dice_roll':
+                add({ kind: 'note', text: `${getCharacter(log.characterId)?.name || 'Someone'} rolled ${formatDiceBreakdown(log)}` });
+                break;
+            case 'skill_check':
+                add({ kind: 'note', text: `${getCharacter(log.characterId)?.name || 'Someone'} attempted a ${formatSkillCheck(log)}.` });
+                break;
+            case 'quest_status':
+                add({ kind: 'note', text: log.text });
+                break;
+            case 'stat_change':
+                if (!log.variableChange?.hidden) add({ kind: 'note', text: log.text });
+                break;
+        }
+    }
+    return chapters;
+};
+
+// Keeps story text from being read as Markdown syntax.
+const escapeMarkdown = (text: string) => text
+    .replace(/([\\`*_[\]<>|])/g, '\\$1')
+    .replace(/^(\s*)([#+\-=]|\d+\.)(?=\s|$)/gm, '$1\\$2')
+    .replace(/\r?\n/g, '  \n');
+
+/**
+ * Writes the transcript as a Markdown document. Images link to the assets' URLs.
+ */
+export const buildMarkdownTranscript = (gameData: GameData): string => {
+    const lines: string[] = [`# ${escapeMarkdown(gameData.title)}`, ''];
+    buildTranscript(gameData).forEach(chapter => {
+        lines.push(`## ${escapeMarkdown(chapter.title)}`, '');
+        chapter.blocks.forEach(block => {
+            switch (block.kind) {
+                case 'image': {
+                    const asset = gameData.assets.find(a => a.id === block.assetId)!;
+                    lines.push(`![${escapeMarkdown(asset.name)}](<${asset.url.replace(/>/g, '%3E')}>)`);
+                    break;
+                }
+                case 'dialogue':
+                    lines.push(`**${escapeMarkdown(block.speaker)}:** ${escapeMarkdown(block.text)}`);
+                    break;
+                case 'callout':
+                    lines.push(`> **${escapeMarkdown(block.text)}**`);
+                    break;
+                case 'note':
+                    lines.push(`*${escapeMarkdown(block.text)}*`);
+                    break;
+            }
+            lines.push('');
+        });
+    });
+    return lines.join('\n');
+};
+
+const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const EPUB_STYLE = `body { font-family: serif; line-height: 1.5; }
+h1, h2 { text-align: center; }
+.speaker { font-weight: bold; }
+.callout { border-left: 4px solid #e94560; background: #f4f0f2; margin: 1em 0; padding: 0.5em 1em; font-weight: bold; }
+.note { font-style: italic; color: #555; margin-left: 2em; font-size: 0.9em; }
+figure { margin: 1em 0; text-align: center; }
+figure img { max-width: 100%; }
+figure.cg img { border: 2px solid #1a1a2e; }
+figcaption { font-size: 0.8em; color: #777; }
+`;
+
+const xhtmlPage = (title: string, body: string, extraNamespace = '') => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml"${extraNamespace} xml:lang="en" lang="en">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+/**
+ * Builds an EPUB 3 book of the transcript with every background and CG it shows.
+ * @param gameData The game to export.
+ */
+export const exportEpub = async (gameData: GameData): Promise<EpubExportResult> => {
+    const chapters = buildTranscript(gameData);
+    const usedAssetIds = new Set<string>();
+    chapters.forEach(c => c.blocks.forEach(b => { if (b.kind === 'image') usedAssetIds.add(b.assetId); }));
+
+    const images = new Map<string, { path: string; mediaType: string }>(); // Keyed by asset id.
+    const imageFiles: { path: string; data: Uint8Array }[] = [];
+    const missingAssets: Asset[] = [];
+    for (const asset of gameData.assets.filter(a => usedAssetIds.has(a.id))) {
+        try {
+            const blob = await fetchAssetBlob(asset.url);
+            const extension = asset.url.match(/^[^?#]+\.([a-z0-9]{3,4})(?:[?#]|$)/i)?.[1]?.toLowerCase() || '';
+            const mediaType = Object.values(IMAGE_TYPES).includes(blob.type) ? blob.type : IMAGE_TYPES[extension] || 'image/png';
+            const fileExtension = Object.keys(IMAGE_TYPES).find(k => IMAGE_TYPES[k] === mediaType)!;
+            const path = `images/image-${images.size + 1}.${fileExtension}`;
+            images.set(asset.id, { path, mediaType });
+            imageFiles.push({ path: `OEBPS/${path}`, data: new Uint8Array(await blob.arrayBuffer()) });
+        } catch (error) {
+            console.warn(`Could not export asset ${asset.name} (${asset.url}):`, error);
+            missingAssets.push(asset);
+        }
+    }
+
+    const renderBlock = (block: TranscriptBlock): string => {
+        switch (block.kind) {
+            case 'image': {
+                const asset = gameData.assets.find(a => a.id === block.assetId)!;
+                const image = images.get(asset.id);
+                return image
+                    ? `<figure class="${block.role}"><img src="${image.path}" alt="${escapeXml(asset.name)}"/></figure>`
+                    : `<figure class="${block.role}"><figcaption>[${escapeXml(asset.name)}]</figcaption></figure>`;
+            }
+            case 'dialogue':
+                return `<p><span class="speaker">${escapeXml(block.speaker)}:</span> ${escapeXml(block.text)}</p>`;
+            case 'callout':
+                return `<aside class="callout" epub:type="note"><p>${escapeXml(block.text)}</p></aside>`;
+            case 'note':
+                return `<p class="note">${escapeXml(block.text)}</p>`;
+        }
+    };
+
+    const epubNamespace = ' xmlns:epub="http://www.idpf.org/2007/ops"';
+    const chapterFiles = chapters.map((chapter, i) => ({
+        path: `chapter-${i + 1}.xhtml`,
+        title: chapter.title,
+        data: xhtmlPage(chapter.title, [`<section epub:type="chapter">`, `<h2>${escapeXml(chapter.title)}</h2>`, ...chapter.blocks.map(renderBlock), '</section>'].join('\n'), epubNamespace),
+    }));
+    const titlePage = xhtmlPage(gameData.title, `<h1>${escapeXml(gameData.title)}</h1>${chapters.length === 0 ? '\n<p>Nothing has happened in this story yet.</p>' : ''}`);
+    const nav = xhtmlPage('Contents', [
+        '<nav epub:type="toc" id="toc">',
+        '<h1>Contents</h1>',
+        '<ol>',
+        '<li><a href="title.xhtml">Title Page</a></li>',
+        ...chapterFiles.map(c => `<li><a href="${c.path}">${escapeXml(c.title)}</a></li>`),
+        '</ol>',
+        '</nav>',
+    ].join('\n'), epubNamespace);
+
+    const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+    const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">vnforge-${Date.now()}</dc:identifier>
+<dc:title>${escapeXml(gameData.title)}</dc:title>
+<dc:language>en</dc:language>
+<dc:creator>Visual Novel Forge</dc:creator>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="style" href="style.css" media-type="text/css"/>
+<item id="title" href="title.xhtml" media-type="application/xhtml+xml"/>
+${chapterFiles.map((c, i) => `<item id="chapter-${i + 1}" href="${c.path}" media-type="application/xhtml+xml"/>`).join('\n')}
+${Array.from(images.values()).map((image, i) => `<item id="image-${i + 1}" href="${image.path}" media-type="${image.mediaType}"/>`).join('\n')}
+</manifest>
+<spine>
+<itemref idref="title"/>
+<itemref idref="nav"/>
+${chapterFiles.map((c, i) => `<itemref idref="chapter-${i + 1}"/>`).join('\n')}
+</spine>
+</package>
+`;
+    const container = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`;
+
+    // The mimetype file must come first, and is stored uncompressed like every file createZip writes.
+    const blob = createZip([
+        { path: 'mimetype', data: 'application/epub+zip' },
+        { path: 'META-INF/container.xml', data: container },
+        { path: 'OEBPS/content.opf', data: opf },
+        { path: 'OEBPS/nav.xhtml', data: nav },
+        { path: 'OEBPS/style.css', data: EPUB_STYLE },
+        { path: 'OEBPS/title.xhtml', data: titlePage },
+        ...chapterFiles.map(c => ({ path: `OEBPS/${c.path}`, data: c.data })),
+        ...imageFiles,
+    ], 'application/epub+zip');
+    return { blob, missingAssets };
+};
+
+/**
+ * Exports the EPUB book and triggers a browser download of it.
+ * @returns The assets that are missing from the book.
+ */
+export const downloadEpub = async (gameData: GameData): Promise<Asset[]> => {
+    const { blob, missingAssets } = await exportEpub(gameData);
+    downloadBlob(blob, `${gameData.title.replace(/[^a-z0-9]/gi, '_')}.epub`);
+    return missingAssets;
+};
+
+/**
+ * Triggers a browser download of the Markdown transcript.
+ */
+export const downloadMarkdownTranscript = (gameData: GameData) => {
+    const markdown = buildMarkdownTranscript(gameData);
+    downloadBlob(new Blob([markdown], { type: 'text/markdown' }), `${gameData.title.replace(/[^a-z0-9]/gi, '_')}.md`);
+};
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { importTweeStory, TweeImportError } from './tweeImportService';
+import { migrateGameData } from '../state/migrations';
+import { getStartPosition, getNextReaderStep, followBranch } from '../state/authoredStory';
+import { NARRATOR_CHARACTER } from '../constants';
+import { GameData } from '../types';
+
+const makeGame = (): GameData => migrateGameData({
+    schemaVersion: 6,
+    characters: [{ id: 'c1', name: 'Aria Vale', status: 'active', health: 10, maxHealth: 10, spriteAssetIds: [] }],
+    assets: [{ id: 'bg1', type: 'background', url: 'data:,', name: 'dark_forest.png' }],
+});
+
+const twee = (...lines: string[]) => lines.join('\n');
+
+describe('importTweeStory', () => {
+    it('makes a scene of each story passage and reads the title and start from the story data', () => {
+        const { story, title, warnings } = importTweeStory(twee(
+            ':: StoryTitle',
+            'The Lost Road',
+            '',
+            ':: StoryData',
+            '{ "start": "Gate", "ifid": "ABC" }',
+            '',
+            ':: Intro [bg:dark_forest] {"position":"100,100"}',
+            'Wind in the trees.',
+            '',
+            ':: Gate',
+            'A closed gate.',
+            '',
+            ':: Styles [stylesheet]',
+            'body { color: red; }',
+        ), makeGame());
+
+        expect(title).toBe('The Lost Road');
+        expect(story.scenes.map(s => s.title)).toEqual(['Intro', 'Gate']);
+        expect(story.startSceneId).toBe(story.scenes[1].id);
+        expect(story.scenes[0].entries).toEqual([
+            { type: 'background_change', assetId: 'bg1' },
+            { type: 'dialogue', characterId: NARRATOR_CHARACTER.id, text: 'Wind in the trees.' },
+        ]);
+        expect(warnings).toEqual(['Skipped "Styles": it holds stylesheet code.']);
+    });
+
+    it('reads escaped passage names and CRLF line endings', () => {
+        const { story } = importTweeStory(':: Room \\[1\\] [tag\\]x]\r\nHello.\r\n', makeGame());
+        expect(story.scenes[0].title).toBe('Room [1]');
+        expect(story.scenes[0].entries).toEqual([{ type: 'dialogue', characterId: NARRATOR_CHARACTER.id, text: 'Hello.' }]);
+    });
+
+    it('turns every link form into a choice, keeping links inside story lines as text', () => {
+        const { story, warnings } = importTweeStory(twee(
+            ':: Start',
+            'You can [[rest|Camp]] here.',
+            '[[Camp]]',
+            '[[Go north->North]] [[South<-Head south]]',
+            '[[Jump|Nowhere]]',
+            '',
+            ':: Camp',
+            'Quiet.',
+            '',
+            ':: North',
+            'Cold.',
+            '',
+            ':: South',
+            'Warm.',
+        ), makeGame());
+        const [start, camp, north, south] = story.scenes;
+
+        expect(start.entries).toEqual([{ type: 'dialogue', characterId: NARRATOR_CHARACTER.id, text: 'You can rest here.' }]);
+        expect(start.choices).toEqual([
+            { text: 'rest', targetSceneId: camp.id },
+            { text: 'Camp', targetSceneId: camp.id },
+            { text: 'Go north', targetSceneId: north.id },
+            { text: 'Head south', targetSceneId: south.id },
+            { text: 'Jump', targetSceneId: null },
+        ]);
+        expect(warnings).toEqual(['"Start" links to "Nowhere", which does not exist. The choice ends the story instead.']);
+    });
+
+    it('maps go-to and link-goto macros onto scene links and leaves other macros out', () => {
+        const { story, warnings } = importTweeStory(twee(
+            ':: Start',
+            '<<set $coins to 5>>Pay up.',
+            '<<link "Pay" "Paid">><</link>>',
+            '(link-goto: "Refuse")',
+            '',
+            ':: Paid',
+            '(go-to: "Refuse")',
+            '',
+            ':: Refuse',
+            'The end.',
+        ), makeGame());
+        const [start, paid, refuse] = story.scenes;
+
+        expect(start.entries).toEqual([{ type: 'dialogue', characterId: NARRATOR_CHARACTER.id, text: 'Pay up.' }]);
+        expect(start.choices).toEqual([{ text: 'Pay', targetSceneId: paid.id }, { text: 'Refuse', targetSceneId: refuse.id }]);
+        expect(paid.nextSceneId).toBe(refuse.id);
+        expect(warnings).toEqual(['"Start": the <<set>> macro is not supported and was left out.']);
+    });
+
+    it('gives lines to the speaker tag or the character named before a colon', () => {
+        const { story, warnings } = importTweeStory(twee(
+            ':: Start [speaker:Aria_Vale mystery]',
+            'I know this place.',
+            'Narrator: She did not.',
+            'Note: a colon that names no one.',
+        ), makeGame());
+
+        expect(story.scenes[0].entries).toEqual([
+            { type: 'dialogue', characterId: 'c1', text: 'I know this place.' },
+            { type: 'dialogue', characterId: 'c1', text: 'Narrator: She did not.' },
+            { type: 'dialogue', characterId: 'c1', text: 'Note: a colon that names no one.' },
+        ]);
+        expect(warnings).toEqual(['"Start" has the tag "mystery", which matches no background or character.']);
+    });
+
+    it('keeps the first of two passages with the same name and falls back to the first passage as the start', () => {
+        const { story, warnings } = importTweeStory(twee(
+            ':: StoryData',
+            '{ "start": "Missing" }',
+            ':: Hall',
+            'First.',
+            ':: Hall',
+            'Second.',
+        ), makeGame());
+
+        expect(story.scenes).toHaveLength(1);
+        expect(story.startSceneId).toBe(story.scenes[0].id);
+        expect(warnings).toEqual([
+            'There is more than one passage named "Hall". Only the first one was imported.',
+            'The start passage "Missing" does not exist, so the first passage is used.',
+        ]);
+    });
+
+    it('rejects files without story passages', () => {
+        expect(() => importTweeStory('Just some text.', makeGame())).toThrow(TweeImportError);
+        expect(() => importTweeStory(':: StoryTitle\nOnly a title', makeGame())).toThrow(TweeImportError);
+    });
+
+    it('imports a story the reader copies into the story log passage by passage', () => {
+        const { story } = importTweeStory(twee(
+            ':: Start [dark_forest]',
+            'Aria Vale: Which way?',
+            '[[Left]]',
+            '',
+            ':: Left',
+            'A dead end.',
+        ), makeGame());
+
+        const first = getNextReaderStep(story, getStartPosition(story));
+        expect(first).toMatchObject({ kind: 'entries', entries: [
+            { type: 'background_change', assetId: 'bg1' },
+            { type: 'dialogue', characterId: 'c1', text: 'Which way?' },
+        ] });
+        if (first.kind !== 'entries') return;
+
+        const offer = getNextReaderStep(story, first.position);
+        expect(offer).toMatchObject({ kind: 'entries', entries: [{ type: 'choice', choices: [{ text: 'Left' }] }] });
+
+        const left = getNextReaderStep(story, followBranch(story, story.scenes[0].choices[0]));
+        expect(left).toMatchObject({ kind: 'entries', entries: [{ type: 'dialogue', characterId: NARRATOR_CHARACTER.id, text: 'A dead end.' }] });
+    });
+});
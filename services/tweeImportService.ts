@@ -0,0 +1,206 @@
+import { GameData, Asset, AuthoredStory, AuthoredStoryEntry, Character, StoryBranch, StoryScene } from '../types';
+import { NARRATOR_CHARACTER } from '../constants';
+
+// Reads a Twee 3 file (the text format of Twine stories) into an authored story. Each passage
+// becomes a scene: its lines become dialogue and its links become choices. Tags set the scene's
+// background and who speaks, e.g. `bg:forest` or `speaker:Aria`.
+//
+// Story formats' macros are not run. The go-to and link-goto macros of Harlowe and SugarCube map
+// onto scene links; every other macro is left out and listed in the import warnings.
+
+export interface TweeImportResult {
+    story: AuthoredStory;
+    title: string | null; // From the StoryTitle passage.
+    warnings: string[];
+}
+
+export class TweeImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TweeImportError';
+    }
+}
+
+interface TweePassage {
+    name: string;
+    tags: string[];
+    text: string;
+}
+
+// Passages that hold story data or code rather than story.
+const SPECIAL_PASSAGES = new Set(['StoryTitle', 'StoryData', 'StoryInit', 'StoryCaption', 'StoryMenu', 'StoryBanner', 'StorySubtitle', 'StoryAuthor', 'PassageReady', 'PassageDone', 'PassageHeader', 'PassageFooter']);
+const CODE_TAGS = new Set(['script', 'stylesheet', 'widget', 'Twine.private', 'header', 'footer', 'startup', 'debug-header', 'debug-footer', 'debug-startup']);
+
+const unescapeTwee = (text: string) => text.replace(/\\(.)/g, '$1');
+
+// Splits ":: Name [tag1 tag2] {"position":"100,100"}" into its name and tags.
+const parseHeader = (header: string): { name: string; tags: string[] } => {
+    let name = '';
+    let i = 0;
+    for (; i < header.length; i++) {
+        const char = header[i];
+        if (char === '\\' && i + 1 < header.length) {
+            name += header[++i];
+        } else if (char === '[' || char === '{') {
+            break;
+        } else {
+            name += char;
+        }
+    }
+    const tagMatch = /^\[((?:\\.|[^\]])*)\]/.exec(header.slice(i).trimStart());
+    const tags = tagMatch ? tagMatch[1].split(/\s+/).filter(Boolean).map(unescapeTwee) : [];
+    return { name: name.trim(), tags };
+};
+
+const parsePassages = (source: string): TweePassage[] => {
+    const passages: TweePassage[] = [];
+    let current: TweePassage | null = null;
+    for (const line of source.replace(/\r\n?/g, '\n').split('\n')) {
+        if (line.startsWith('::')) {
+            current = { ...parseHeader(line.slice(2)), text: '' };
+            passages.push(current);
+        } else if (current) {
+            current.text += `${line}\n`;
+        }
+    }
+    return passages.map(p => ({ ...p, text: p.text.trim() }));
+};
+
+// The target and the text shown for a Twine link: [[Target]], [[Text|Target]], [[Text->Target]] or [[Target<-Text]].
+const parseLink = (inner: string): { text: string; target: string } => {
+    const arrow = inner.lastIndexOf('->');
+    if (arrow !== -1) return { text: inner.slice(0, arrow).trim(), target: inner.slice(arrow + 2).trim() };
+    const backArrow = inner.indexOf('<-');
+    if (backArrow !== -1) return { text: inner.slice(backArrow + 2).trim(), target: inner.slice(0, backArrow).trim() };
+    const bar = inner.lastIndexOf('|');
+    if (bar !== -1) return { text: inner.slice(0, bar).trim(), target: inner.slice(bar + 1).trim() };
+    return { text: inner.trim(), target: inner.trim() };
+};
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/\.(png|jpe?g|webp|gif|avif)$/, '').replace(/[\s_-]+/g, ' ').trim();
+
+const LINK_PATTERN = /\[\[((?:[^\]]|\](?!\]))+)\]\](?:\[[^\]]*\])?/g;
+const GOTO_PATTERN = /<<goto\s+(?:"([^"]*)"|'([^']*)'|\[\[([^\]]*)\]\])\s*>>|\(go-?to:\s*(?:"([^"]*)"|'([^']*)')\s*\)/gi;
+const LINK_GOTO_PATTERN = /\(link-goto:\s*(?:"([^"]*)"|'([^']*)')(?:\s*,\s*(?:"([^"]*)"|'([^']*)'))?\s*\)|<<link\s+(?:"([^"]*)"|'([^']*)')\s+(?:"([^"]*)"|'([^']*)')\s*>>(?:<<\/link>>)?/gi;
+// Stands in around link text until the lines are split, to tell lines of links from lines of story.
+const LINK_MARK = '\u0001';
+const MACRO_PATTERN = /<<\/?([\w-]+)[^>]*>>|\(([\w-]+):[^)]*\)/g;
+
+/**
+ * Reads a Twee 3 story into an authored story.
+ * @param source The text of the .twee file.
+ * @param gameData The game being imported into, whose characters and backgrounds tags refer to.
+ * @throws TweeImportError if the file has no story passages.
+ */
+export const importTweeStory = (source: string, gameData: GameData): TweeImportResult => {
+    const warnings: string[] = [];
+    const passages = parsePassages(source);
+    const storyPassages = passages.filter(p => !SPECIAL_PASSAGES.has(p.name) && !p.tags.some(t => CODE_TAGS.has(t)));
+    if (storyPassages.length === 0) {
+        throw new TweeImportError('This file has no Twee passages. Passages start with a line like ":: Start".');
+    }
+    passages.filter(p => !storyPassages.includes(p) && p.name !== 'StoryTitle' && p.name !== 'StoryData')
+        .forEach(p => warnings.push(`Skipped "${p.name}": it holds ${p.tags.length > 0 ? `${p.tags.join(', ')} code` : 'story format code'}.`));
+
+    let storyData: { start?: string } = {};
+    const dataPassage = passages.find(p => p.name === 'StoryData');
+    if (dataPassage) {
+        try {
+            storyData = JSON.parse(dataPassage.text);
+        } catch (error) {
+            warnings.push('The StoryData passage is not valid JSON, so the first passage is used as the start.');
+        }
+    }
+
+    const timestamp = Date.now();
+    const sceneIds = new Map<string, string>();
+    const scenePassages: TweePassage[] = [];
+    storyPassages.forEach(p => {
+        if (sceneIds.has(p.name)) {
+            warnings.push(`There is more than one passage named "${p.name}". Only the first one was imported.`);
+            return;
+        }
+        sceneIds.set(p.name, `scene-${timestamp}-${scenePassages.length}`);
+        scenePassages.push(p);
+    });
+
+    const backgrounds = gameData.assets.filter(a => a.type === 'background');
+    const findBackground = (name: string): Asset | undefined => backgrounds.find(a => normalizeName(a.name) === normalizeName(name));
+    const findCharacter = (name: string): Character | undefined => gameData.characters.find(c => normalizeName(c.name) === normalizeName(name));
+
+    const linkTo = (passage: TweePassage, target: string): string | null => {
+        const id = sceneIds.get(target);
+        if (!id) warnings.push(`"${passage.name}" links to "${target}", which does not exist. The choice ends the story instead.`);
+        return id || null;
+    };
+
+    const scenes: StoryScene[] = scenePassages.map(passage => {
+        const entries: AuthoredStoryEntry[] = [];
+        const choices: StoryBranch[] = [];
+        let nextSceneId: string | null = null;
+        let speakerId = NARRATOR_CHARACTER.id;
+
+        for (const tag of passage.tags) {
+            const [prefix, ...rest] = tag.split(':');
+            const value = rest.join(':').replace(/_/g, ' ');
+            const background = ['bg', 'background'].includes(prefix.toLowerCase()) ? findBackground(value) : !rest.length ? findBackground(tag) : undefined;
+            const character = ['speaker', 'character'].includes(prefix.toLowerCase()) ? findCharacter(value) : !rest.length ? findCharacter(tag.replace(/_/g, ' ')) : undefined;
+            if (background) {
+                entries.push({ type: 'background_change', assetId: background.id });
+            } else if (character) {
+                speakerId = character.id;
+            } else {
+                warnings.push(`"${passage.name}" has the tag "${tag}", which matches no background or character.`);
+            }
+        }
+
+        let text = passage.text.replace(GOTO_PATTERN, (_, ...groups: string[]) => {
+            const target = groups.slice(0, 5).find(g => g !== undefined);
+            if (target !== undefined) nextSceneId = linkTo(passage, target);
+            return '';
+        });
+        text = text.replace(LINK_GOTO_PATTERN, (_, ...groups: string[]) => {
+            const [h1, h2, h3, h4, s1, s2, s3, s4] = groups;
+            const linkText = h1 ?? h2 ?? s1 ?? s2 ?? '';
+            choices.push({ text: linkText, targetSceneId: linkTo(passage, h3 ?? h4 ?? s3 ?? s4 ?? linkText) });
+            return '';
+        });
+        text = text.replace(LINK_PATTERN, (match, inner: string) => {
+            if (/\]\[[^\]]*\]$/.test(match)) warnings.push(`"${passage.name}": the setter on the link "${inner}" was left out.`);
+            const link = parseLink(inner);
+            choices.push({ text: link.text, targetSceneId: linkTo(passage, link.target) });
+            return `${LINK_MARK}${link.text}${LINK_MARK}`;
+        });
+        text = text.replace(MACRO_PATTERN, (match, sugarCube?: string, harlowe?: string) => {
+            warnings.push(`"${passage.name}": the ${sugarCube ? `<<${sugarCube}>>` : `(${harlowe}:)`} macro is not supported and was left out.`);
+            return '';
+        });
+
+        for (const rawLine of text.split('\n')) {
+            // A line that only holds links is the list of choices, which are shown as choices instead.
+            if (!rawLine.replace(new RegExp(`${LINK_MARK}[^${LINK_MARK}]*${LINK_MARK}`, 'g'), '').trim()) continue;
+            const line = rawLine.split(LINK_MARK).join('').replace(/\s+/g, ' ').trim();
+            // "Name: text" lines are spoken by that character.
+            const speech = /^([^:]{1,40}):\s*(.+)$/.exec(line);
+            const speaker = speech ? findCharacter(speech[1]) : undefined;
+            entries.push(speaker
+                ? { type: 'dialogue', characterId: speaker.id, text: speech![2] }
+                : { type: 'dialogue', characterId: speakerId, text: line });
+        }
+
+        return { id: sceneIds.get(passage.name)!, title: passage.name, entries, choices, nextSceneId };
+    });
+
+    const startName = storyData.start || (sceneIds.has('Start') ? 'Start' : scenePassages[0].name);
+    if (!sceneIds.has(startName)) warnings.push(`The start passage "${startName}" does not exist, so the first passage is used.`);
+
+    return {
+        story: {
+            startSceneId: sceneIds.get(startName) || scenes[0].id,
+            protagonistId: gameData.authoredStory.protagonistId,
+            scenes,
+        },
+        title: passages.find(p => p.name === 'StoryTitle')?.text.split('\n')[0].trim() || null,
+        warnings: Array.from(new Set(warnings)),
+    };
+};
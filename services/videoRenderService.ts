@@ -0,0 +1,498 @@
+import { GameData, Asset } from '../types';
+import { SceneState, layoutSprites } from '../state/scene';
+import { parseDialogueMarkup, hasTextEffects, getTextEffectOffset, PLAIN_TEXT_STYLE, TextStyle } from './dialogueMarkup';
+import { TransitionFrame, ScreenEffectFrame, getTransitionFrame, getScreenEffectFrame, NO_SCREEN_EFFECT } from '../state/transitions';
+import { VideoCard, VideoTiming, buildVideoTimeline } from './videoTimeline';
+import { createWebm, WebmTrack, WebmFrame } from './webmMuxer';
+import { mixVideoAudio, loadAudioAssets, getStoryAudioAssets, getAudioDurationsMs } from './audioMixService';
+
+// Renders the story as a WebM video, frame by frame. Each frame is drawn on a canvas, encoded with
+// WebCodecs and stamped with its place on the timeline rather than the time it was drawn, so the
+// export runs as fast as the encoder allows and a throttled tab cannot make it stutter. The story's
+// music and sound effects are mixed in from the same timeline, and transitions and screen effects
+// are drawn at each frame's time.
+
+export const VIDEO_FPS = 24;
+
+// Bitrates at 720p. Other sizes scale them by their number of pixels.
+export const VIDEO_QUALITY_BITRATES: Record<string, number> = {
+    low: 1_000_000, // 1 Mbps
+    medium: 2_500_000, // 2.5 Mbps
+    high: 5_000_000, // 5 Mbps
+    ultra: 8_000_000, // 8 Mbps
+};
+
+export const VIDEO_ASPECT_RATIOS: Record<string, { label: string; width: number; height: number }> = {
+    '16:9': { label: '16:9 (Widescreen)', width: 16, height: 9 },
+    '4:3': { label: '4:3 (Classic)', width: 4, height: 3 },
+    '1:1': { label: '1:1 (Square)', width: 1, height: 1 },
+    '9:16': { label: '9:16 (Vertical)', width: 9, height: 16 },
+};
+
+// The length of the video's shorter side, in pixels.
+export const VIDEO_RESOLUTIONS = [480, 720, 1080];
+
+export interface VideoRenderOptions {
+    timing: VideoTiming;
+    quality: string; // A key of VIDEO_QUALITY_BITRATES.
+    aspectRatio: string; // A key of VIDEO_ASPECT_RATIOS.
+    resolution: number;
+}
+
+export interface VideoRenderResult {
+    blob: Blob;
+    cards: VideoCard[]; // The timeline the video was rendered from, for its subtitles.
+    missingAudio: Asset[]; // Music and sound effects left out of the video.
+    missingImages: Asset[]; // Backgrounds, sprites and CGs left out of the video.
+}
+
+export class VideoRenderError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'VideoRenderError';
+    }
+}
+
+// Codecs WebM can hold, in order of preference.
+const CODECS = [
+    { codec: 'vp09.00.10.08', codecId: 'V_VP9' as const },
+    { codec: 'vp8', codecId: 'V_VP8' as const },
+];
+
+const KEY_FRAME_INTERVAL_SECONDS = 2;
+const MAX_QUEUED_FRAMES = 8;
+const CREDITS_SCROLL_PIXELS_PER_SECOND = 80;
+
+/**
+ * The video's size in pixels. Both sides are even, as encoders require.
+ */
+export const getVideoSize = (aspectRatio: string, resolution: number): { width: number; height: number } => {
+    const ratio = VIDEO_ASPECT_RATIOS[aspectRatio] || VIDEO_ASPECT_RATIOS['16:9'];
+    const even = (n: number) => Math.round(n / 2) * 2;
+    return ratio.width >= ratio.height
+        ? { width: even(resolution * ratio.width / ratio.height), height: resolution }
+        : { width: resolution, height: even(resolution * ratio.height / ratio.width) };
+};
+
+function wrapText(context: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, lineHeight: number) {
+    const words = text.split(' ');
+    let line = '';
+    const lines = [];
+
+    for (let n = 0; n < words.length; n++) {
+        const testLine = line + words[n] + ' ';
+        const metrics = context.measureText(testLine);
+        const testWidth = metrics.width;
+        if (testWidth > maxWidth && n > 0) {
+            lines.push(line);
+            line = words[n] + ' ';
+        } else {
+            line = testLine;
+        }
+    }
+    lines.push(line);
+
+    const initialY = y;
+    for (const l of lines) {
+        context.fillText(l.trim(), x, y);
+        y += lineHeight;
+    }
+    return y - initialY; // Return the total height of the wrapped text
+}
+
+// A run of a word in one style. Words can change style partway through.
+type TextFragment = { text: string; style: TextStyle; startIndex: number; width: number };
+
+const getFont = (style: TextStyle, fontSize: number) =>
+    `${style.italic ? 'italic ' : ''}${style.bold ? 'bold ' : ''}${fontSize * style.size}px Inter, sans-serif`;
+
+// Draws a line of dialogue with its markup, wrapped like wrapText. Lines with larger text are taller.
+function drawDialogueText(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, fontSize: number, lineHeight: number, color: string, timeMs: number) {
+    const words: TextFragment[][] = [[]];
+    let characterIndex = 0;
+    for (const node of parseDialogueMarkup(text)) {
+        if (node.type === 'wait') continue;
+        for (const part of node.text.split(/(\s+)/)) {
+            if (!part) continue;
+            if (/^\s+$/.test(part)) {
+                if (words[words.length - 1].length > 0) words.push([]);
+            } else {
+                ctx.font = getFont(node.style, fontSize);
+                words[words.length - 1].push({ text: part, style: node.style, startIndex: characterIndex, width: ctx.measureText(part).width });
+            }
+            characterIndex += Array.from(part).length;
+        }
+    }
+
+    ctx.font = getFont(PLAIN_TEXT_STYLE, fontSize);
+    const spaceWidth = ctx.measureText(' ').width;
+    const lines: TextFragment[][][] = [];
+    let line: TextFragment[][] = [];
+    let lineWidth = 0;
+    for (const word of words.filter(w => w.length > 0)) {
+        const wordWidth = word.reduce((sum, fragment) => sum + fragment.width, 0);
+        const testWidth = line.length > 0 ? lineWidth + spaceWidth + wordWidth : wordWidth;
+        if (testWidth > maxWidth && line.length > 0) {
+            lines.push(line);
+            line = [word];
+            lineWidth = wordWidth;
+        } else {
+            line.push(word);
+            lineWidth = testWidth;
+        }
+    }
+    if (line.length > 0) lines.push(line);
+
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'alphabetic';
+    let top = y;
+    for (const lineWords of lines) {
+        const scale = Math.max(1, ...lineWords.flat().map(fragment => fragment.style.size));
+        const baseline = top + fontSize * scale * 0.9;
+        let cursor = x;
+        lineWords.forEach((word, index) => {
+            if (index > 0) cursor += spaceWidth;
+            for (const fragment of word) {
+                ctx.font = getFont(fragment.style, fontSize);
+                ctx.fillStyle = color;
+                if (fragment.style.color) ctx.fillStyle = fragment.style.color; // Unknown colour names are ignored.
+                const { effect } = fragment.style;
+                if (!effect) {
+                    ctx.fillText(fragment.text, cursor, baseline);
+                } else {
+                    const em = fontSize * fragment.style.size;
+                    let characterX = cursor;
+                    Array.from(fragment.text).forEach((character, i) => {
+                        const offset = getTextEffectOffset(effect, fragment.startIndex + i, timeMs);
+                        ctx.fillText(character, characterX + offset.x * em, baseline + offset.y * em);
+                        characterX += ctx.measureText(character).width;
+                    });
+                }
+                cursor += fragment.width;
+            }
+        });
+        top += lineHeight * scale;
+    }
+}
+
+// Draws an image scaled to fill the box, or to fit inside it, keeping its proportions.
+function drawFitted(ctx: CanvasRenderingContext2D, img: HTMLImageElement, width: number, height: number, mode: 'cover' | 'contain') {
+    const scale = mode === 'cover'
+        ? Math.max(width / img.naturalWidth, height / img.naturalHeight)
+        : Math.min(width / img.naturalWidth, height / img.naturalHeight);
+    const drawWidth = img.naturalWidth * scale;
+    const drawHeight = img.naturalHeight * scale;
+    ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+// A card's transitions and screen effects at one frame.
+interface SceneAnimationFrame {
+    from: SceneState; // The scene the transitions start from.
+    background: TransitionFrame | null;
+    cg: TransitionFrame | null;
+    camera: ScreenEffectFrame;
+}
+
+// Where a card's animation is some time after the card appears, or null once it has played out.
+const getSceneAnimationFrame = (card: VideoCard, elapsedMs: number): SceneAnimationFrame | null => {
+    const from = card.transitionFrom || card.scene;
+    const background = from.backgroundAssetId !== card.scene.backgroundAssetId ? getTransitionFrame(card.scene.backgroundTransition, elapsedMs) : null;
+    const cg = from.cgAssetId !== card.scene.cgAssetId ? getTransitionFrame(card.scene.cgTransition, elapsedMs) : null;
+    const camera = getScreenEffectFrame(card.screenEffects, elapsedMs);
+    return background || cg || camera ? { from, background, cg, camera: camera || NO_SCREEN_EFFECT } : null;
+};
+
+// Draws one of the scene's image layers, partway through replacing the previous image if it is changing.
+function drawLayer(ctx: CanvasRenderingContext2D, fromId: string | null, toId: string | null, frame: TransitionFrame | null, draw: (id: string) => void) {
+    if (!frame) {
+        if (toId) draw(toId);
+        return;
+    }
+    if (fromId && frame.outgoingOpacity > 0) {
+        ctx.globalAlpha = frame.outgoingOpacity;
+        draw(fromId);
+    }
+    if (toId && frame.incomingOpacity > 0 && frame.incomingReveal > 0) {
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(0, 0, ctx.canvas.width * frame.incomingReveal, ctx.canvas.height);
+        ctx.clip();
+        ctx.globalAlpha = frame.incomingOpacity;
+        draw(toId);
+        ctx.restore();
+    }
+    ctx.globalAlpha = 1;
+}
+
+// timeMs moves the dialogue's shaking and waving text.
+function drawScene(ctx: CanvasRenderingContext2D, scene: SceneState, images: Map<string, HTMLImageElement>, animation: SceneAnimationFrame | null, timeMs: number) {
+    const { width, height } = ctx.canvas;
+    const unit = Math.min(width, height) / 720; // Sizes below are for 720p.
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+
+    // Screen effects move the scene but not the dialogue box.
+    const camera = animation?.camera || NO_SCREEN_EFFECT;
+    ctx.save();
+    ctx.translate(width * (0.5 + camera.offsetX), height * (0.5 + camera.offsetY));
+    ctx.scale(camera.zoom, camera.zoom);
+    ctx.translate(-width / 2, -height / 2);
+
+    drawLayer(ctx, animation?.from.backgroundAssetId || null, scene.backgroundAssetId, animation?.background || null, id => {
+        const bgImg = images.get(id);
+        if (bgImg) drawFitted(ctx, bgImg, width, height, 'cover');
+    });
+
+    for (const sprite of layoutSprites(scene.sprites)) {
+        const img = images.get(sprite.assetId);
+        if (!img) continue;
+        const spriteHeight = height * sprite.height;
+        const spriteWidth = img.naturalWidth * spriteHeight / img.naturalHeight;
+        ctx.save();
+        ctx.translate(width * sprite.x, height - spriteHeight);
+        if (sprite.flipped) ctx.scale(-1, 1);
+        ctx.drawImage(img, -spriteWidth / 2, 0, spriteWidth, spriteHeight);
+        ctx.restore();
+    }
+
+    drawLayer(ctx, animation?.from.cgAssetId || null, scene.cgAssetId, animation?.cg || null, id => {
+        const cgImg = images.get(id);
+        if (!cgImg) return;
+        ctx.fillStyle = 'rgba(0,0,0,0.75)';
+        ctx.fillRect(0, 0, width, height);
+        drawFitted(ctx, cgImg, width, height, 'contain');
+    });
+    ctx.restore();
+
+    const blackOpacity = Math.max(animation?.background?.blackOpacity || 0, animation?.cg?.blackOpacity || 0);
+    if (blackOpacity > 0) {
+        ctx.fillStyle = `rgba(0,0,0,${blackOpacity})`;
+        ctx.fillRect(0, 0, width, height);
+    }
+    if (camera.flashOpacity > 0) {
+        ctx.fillStyle = `rgba(255,255,255,${camera.flashOpacity})`;
+        ctx.fillRect(0, 0, width, height);
+    }
+
+    if (scene.dialogue) {
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(0, height * 0.7, width, height * 0.3);
+
+        const padding = 20 * unit;
+        const yName = height * 0.7 + padding + 24 * unit;
+        const yText = yName + 40 * unit;
+
+        ctx.fillStyle = '#e94560';
+        ctx.font = `bold ${28 * unit}px Inter, sans-serif`;
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'top';
+        ctx.fillText(scene.dialogue.characterName, padding, yName);
+
+        drawDialogueText(ctx, scene.dialogue.text, padding, yText, width - (padding * 2), 24 * unit, 30 * unit, '#dcdcdc', timeMs);
+    }
+}
+
+type Credit =
+    | { type: 'spacer'; size: number }
+    | { type: 'header' | 'item' | 'footer' | 'ender'; text: string };
+
+const CREDIT_HEIGHTS = { header: 40, item: 30, footer: 50, ender: 80 };
+
+const buildCredits = (gameData: GameData): Credit[] => [
+    { type: 'spacer', size: 60 },
+    { type: 'header', text: 'Game Master' },
+    { type: 'item', text: 'The Host' },
+    { type: 'spacer', size: 40 },
+    { type: 'header', text: 'Players' },
+    ...(gameData.players.length > 0 ? gameData.players.map((p): Credit => ({ type: 'item', text: p.name })) : [{ type: 'item', text: 'No players' } as Credit]),
+    { type: 'spacer', size: 40 },
+    { type: 'header', text: 'Characters' },
+    ...gameData.characters.filter(c => c.id !== 'narrator' && c.status === 'active').map((c): Credit => ({ type: 'item', text: c.name })),
+    { type: 'spacer', size: 80 },
+    { type: 'footer', text: 'This video was brought to you by a multiplayer roleplaying visual novel game called "Visual Novel Forge".' },
+    { type: 'spacer', size: 40 },
+    { type: 'ender', text: 'Thanks for watching!' },
+];
+
+function drawCredits(ctx: CanvasRenderingContext2D, credits: Credit[], top: number) {
+    const { width, height } = ctx.canvas;
+    const unit = Math.min(width, height) / 720;
+    ctx.fillStyle = '#1a1a2e';
+    ctx.fillRect(0, 0, width, height);
+
+    let y = top;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    for (const credit of credits) {
+        if (credit.type === 'spacer') {
+            y += credit.size * unit;
+        } else if (credit.type === 'header') {
+            ctx.font = `bold ${32 * unit}px Inter, sans-serif`;
+            ctx.fillStyle = '#e94560'; // highlight
+            ctx.fillText(credit.text, width / 2, y);
+            y += 40 * unit;
+        } else if (credit.type === 'item') {
+            ctx.font = `${24 * unit}px Inter, sans-serif`;
+            ctx.fillStyle = '#dcdcdc'; // light
+            ctx.fillText(credit.text, width / 2, y);
+            y += 30 * unit;
+        } else if (credit.type === 'footer') {
+            ctx.font = `italic ${18 * unit}px Inter, sans-serif`;
+            ctx.fillStyle = '#dcdcdc'; // light
+            const textHeight = wrapText(ctx, credit.text, width / 2, y, width * 0.8, 24 * unit);
+            y += textHeight + 20 * unit;
+        } else if (credit.type === 'ender') {
+            ctx.font = `bold ${40 * unit}px Inter, sans-serif`;
+            ctx.fillStyle = '#e94560'; // highlight
+            ctx.fillText(credit.text, width / 2, y);
+            y += 80 * unit;
+        }
+    }
+}
+
+// Loads the images the cards show. Remote images go through the image proxy so the canvas stays readable.
+// An image that fails to load is left out of the video rather than stopping it, as sounds are.
+const loadImages = async (assets: Asset[], cards: VideoCard[]): Promise<{ images: Map<string, HTMLImageElement>; missingAssets: Asset[] }> => {
+    const usedAssetIds = new Set<string>();
+    cards.forEach(({ scene }) => {
+        [scene.backgroundAssetId, scene.cgAssetId, ...Object.values(scene.sprites).map(sprite => sprite?.assetId)].forEach(id => { if (id) usedAssetIds.add(id); });
+    });
+    const images = new Map<string, HTMLImageElement>();
+    const missingAssets: Asset[] = [];
+    await Promise.all(assets.filter(a => usedAssetIds.has(a.id)).map(asset => new Promise<void>(resolve => {
+        const img = new Image();
+        img.crossOrigin = "anonymous";
+        if (asset.url.startsWith('data:')) {
+            img.src = asset.url;
+        } else {
+            const cleanUrl = asset.url.replace(/^https?:\/\//, '');
+            img.src = `https://images.weserv.nl/?url=${encodeURIComponent(cleanUrl)}`;
+        }
+        img.onload = () => { images.set(asset.id, img); resolve(); };
+        img.onerror = () => {
+            console.error(`Could not load ${asset.name} for the video: ${asset.url}`);
+            missingAssets.push(asset);
+            resolve();
+        };
+    })));
+    return { images, missingAssets };
+};
+
+const findSupportedCodec = async (width: number, height: number, bitrate: number) => {
+    if (typeof VideoEncoder === 'undefined') {
+        throw new VideoRenderError('This browser cannot encode video. Please use a recent version of Chrome, Edge, Firefox or Safari.');
+    }
+    for (const { codec, codecId } of CODECS) {
+        const config: VideoEncoderConfig = { codec, width, height, bitrate, framerate: VIDEO_FPS };
+        const support = await VideoEncoder.isConfigSupported(config).catch(() => null);
+        if (support?.supported) return { config, codecId };
+    }
+    throw new VideoRenderError(`This browser cannot encode WebM video at ${width}x${height}. Try a smaller resolution.`);
+};
+
+/**
+ * Renders the story log, then the credits, as a WebM video.
+ * @param onProgress Called as frames come out of the encoder.
+ * @param signal Aborting it stops the render.
+ * @returns The video, or null if the render was cancelled.
+ * @throws VideoRenderError if the browser cannot encode video.
+ */
+export const renderVideo = async (
+    gameData: GameData,
+    options: VideoRenderOptions,
+    onProgress: (encodedFrames: number, totalFrames: number) => void,
+    signal?: AbortSignal,
+): Promise<VideoRenderResult | null> => {
+    const { width, height } = getVideoSize(options.aspectRatio, options.resolution);
+    const bitrate = Math.round((VIDEO_QUALITY_BITRATES[options.quality] || VIDEO_QUALITY_BITRATES.high) * (width * height) / (1280 * 720));
+    const { config, codecId } = await findSupportedCodec(width, height, bitrate);
+
+    const audio = await loadAudioAssets(getStoryAudioAssets(gameData));
+    if (signal?.aborted) return null;
+    const cards = buildVideoTimeline(gameData, options.timing, getAudioDurationsMs(audio));
+    const { images, missingAssets: missingImages } = await loadImages(gameData.assets, cards);
+    if (signal?.aborted) return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new VideoRenderError('Could not get canvas context.');
+
+    // Frames are placed on the timeline by rounding, so cards never drift from the subtitles.
+    const frameAt = (ms: number) => Math.round(ms * VIDEO_FPS / 1000);
+    const lastCard = cards[cards.length - 1];
+    const storyFrames = lastCard ? frameAt(lastCard.startMs + lastCard.durationMs) : 0;
+    const credits = buildCredits(gameData);
+    const unit = Math.min(width, height) / 720;
+    const creditsHeight = credits.reduce((sum, c) => sum + (c.type === 'spacer' ? c.size : CREDIT_HEIGHTS[c.type]), 0) * unit;
+    const creditFrames = Math.floor((creditsHeight + height) / (CREDITS_SCROLL_PIXELS_PER_SECOND * unit) * VIDEO_FPS) + 1;
+    const totalFrames = storyFrames + creditFrames;
+    const durationMs = totalFrames * 1000 / VIDEO_FPS;
+
+    const audioMix = await mixVideoAudio(audio, cards, durationMs, signal);
+    if (!audioMix) return null;
+
+    const frames: { timestampMs: number; isKeyFrame: boolean; data: Uint8Array }[] = [];
+    let encoderError: Error | null = null;
+    const encoder = new VideoEncoder({
+        output: chunk => {
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            frames.push({ timestampMs: chunk.timestamp / 1000, isKeyFrame: chunk.type === 'key', data });
+            onProgress(frames.length, totalFrames);
+        },
+        error: error => { encoderError = error; },
+    });
+    encoder.configure(config);
+
+    const encodeFrame = async (index: number) => {
+        if (encoderError) throw encoderError;
+        const frame = new VideoFrame(canvas, { timestamp: Math.round(index * 1_000_000 / VIDEO_FPS), duration: Math.round(1_000_000 / VIDEO_FPS) });
+        encoder.encode(frame, { keyFrame: index % (VIDEO_FPS * KEY_FRAME_INTERVAL_SECONDS) === 0 });
+        frame.close();
+        // Waiting for the encoder to catch up keeps memory flat and lets the page repaint.
+        // Browsers without the dequeue event are polled instead.
+        while (encoder.encodeQueueSize > MAX_QUEUED_FRAMES) {
+            await new Promise(resolve => 'ondequeue' in encoder
+                ? encoder.addEventListener('dequeue', resolve, { once: true })
+                : setTimeout(resolve, 0));
+        }
+    };
+
+    try {
+        for (const card of cards) {
+            const firstFrame = frameAt(card.startMs);
+            const hasMovingText = !!card.scene.dialogue && hasTextEffects(card.scene.dialogue.text);
+            let isStillDrawn = false; // Once the animation has played out, the rest of the card is one still.
+            for (let i = firstFrame; i < frameAt(card.startMs + card.durationMs); i++) {
+                if (signal?.aborted) return null;
+                const elapsedMs = (i - firstFrame) * 1000 / VIDEO_FPS;
+                const animation = getSceneAnimationFrame(card, elapsedMs);
+                const isAnimated = !!animation || hasMovingText;
+                if (isAnimated || !isStillDrawn) drawScene(ctx, card.scene, images, animation, elapsedMs);
+                isStillDrawn = !isAnimated;
+                await encodeFrame(i);
+            }
+        }
+        for (let i = 0; i < creditFrames; i++) {
+            if (signal?.aborted) return null;
+            const progress = creditFrames > 1 ? i / (creditFrames - 1) : 1;
+            drawCredits(ctx, credits, height - (creditsHeight + height) * progress);
+            await encodeFrame(storyFrames + i);
+        }
+        await encoder.flush();
+        if (encoderError) throw encoderError;
+    } finally {
+        if (encoder.state !== 'closed') encoder.close();
+    }
+
+    const tracks: WebmTrack[] = [{ kind: 'video', codecId, width, height }];
+    let trackFrames: WebmFrame[] = frames.map(frame => ({ track: 0, ...frame }));
+    if (audioMix.audio) {
+        tracks.push(audioMix.audio.track);
+        trackFrames = trackFrames.concat(audioMix.audio.frames.map(frame => ({ track: 1, ...frame })));
+    }
+    const blob = createWebm(tracks, trackFrames, durationMs);
+    return { blob, cards, missingAudio: audioMix.missingAssets, missingImages };
+};
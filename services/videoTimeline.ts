@@ -0,0 +1,134 @@
+import { GameData, ScreenEffect } from '../types';
+import { SceneState, EMPTY_SCENE, reduceScene } from '../state/scene';
+import { TRANSITION_MS, SCREEN_EFFECT_MS } from '../state/transitions';
+import { formatDiceBreakdown } from './diceNotation';
+import { formatSkillCheck } from './skillCheckService';
+import { stripDialogueMarkup } from './dialogueMarkup';
+
+// Plans the exported video as a list of cards: a still of the scene, with or without a dialogue box,
+// held for a set time. The video export draws the cards, and the subtitle tracks are timed from the
+// same plan, so the captions line up with the frames.
+
+export interface VideoTiming {
+    baseSeconds: number; // How long every dialogue card is held.
+    secondsPerWord: number; // Added for each word of the card's text.
+}
+
+export interface VideoCard {
+    scene: SceneState;
+    startMs: number;
+    durationMs: number;
+    soundEffectAssetIds: string[]; // Played as the card appears.
+    screenEffects: ScreenEffect[]; // Also played as the card appears.
+    voiceAssetId?: string; // The line's voice clip, also played as the card appears.
+    // The scene shown before this card, when the card brings in a new background or CG. The card
+    // opens with the scene's transitions from it.
+    transitionFrom?: SceneState;
+}
+
+export const SCENE_CHANGE_MS = 500; // A new scene is shown on its own before its first line, or for as long as its transitions and effects take.
+export const MIN_CARD_MS = 500;
+export const FINAL_CARD_MS = 2000; // The last scene is held before the credits.
+export const VOICE_TAIL_MS = 400; // A voiced line is held this long after its clip ends.
+
+export const getCardDurationMs = (text: string, timing: VideoTiming): number => {
+    const wordCount = stripDialogueMarkup(text).split(/\s+/).filter(Boolean).length;
+    return Math.max(MIN_CARD_MS, (timing.baseSeconds + wordCount * timing.secondsPerWord) * 1000);
+};
+
+/**
+ * Splits a game's story log into the cards of the exported video. Lines of dialogue, picks, rolls
+ * and skill checks each get a card; scene changes are shown before the next of them, and sound
+ * and screen effects play with the next card.
+ * @param voiceDurationsMs The length of each voice clip, by asset id. A voiced line is held at
+ * least until its clip ends; clips missing here are left out.
+ */
+export const buildVideoTimeline = (gameData: GameData, timing: VideoTiming, voiceDurationsMs: Record<string, number> = {}): VideoCard[] => {
+    const cards: VideoCard[] = [];
+    let scene: SceneState = EMPTY_SCENE;
+    let sceneChangesSinceLastCard = false;
+    let pendingSoundEffects: string[] = [];
+    let pendingScreenEffects: ScreenEffect[] = [];
+    let shownScene: SceneState = EMPTY_SCENE;
+    let time = 0;
+
+    const hasTransition = () => scene.backgroundAssetId !== shownScene.backgroundAssetId || scene.cgAssetId !== shownScene.cgAssetId;
+
+    const addCard = (dialogue: SceneState['dialogue'], durationMs: number, voiceAssetId?: string) => {
+        cards.push({
+            scene: { ...scene, dialogue },
+            startMs: time,
+            durationMs,
+            soundEffectAssetIds: pendingSoundEffects,
+            screenEffects: pendingScreenEffects,
+            ...(voiceAssetId ? { voiceAssetId } : {}),
+            ...(hasTransition() ? { transitionFrom: shownScene } : {}),
+        });
+        pendingSoundEffects = [];
+        pendingScreenEffects = [];
+        shownScene = scene;
+        time += durationMs;
+    };
+
+    // How long the next card's transitions and effects take to play out.
+    const getPendingAnimationMs = () => Math.max(
+        scene.backgroundAssetId !== shownScene.backgroundAssetId ? TRANSITION_MS[scene.backgroundTransition] : 0,
+        scene.cgAssetId !== shownScene.cgAssetId ? TRANSITION_MS[scene.cgTransition] : 0,
+        ...pendingScreenEffects.map(effect => SCREEN_EFFECT_MS[effect]),
+    );
+
+    for (const log of gameData.storyLog) {
+        let dialogue: SceneState['dialogue'] = null;
+        let voiceAssetId: string | undefined;
+        switch (log.type) {
+            case 'background_change':
+            case 'sprite_change':
+            case 'cg_show':
+                scene = reduceScene(log, scene);
+                sceneChangesSinceLastCard = true;
+                continue;
+            case 'music_change':
+                // Music plays under the cards; it does not hold up the story with a card of its own.
+                scene = reduceScene(log, scene);
+                continue;
+            case 'sound_effect':
+                pendingSoundEffects.push(log.assetId);
+                continue;
+            case 'screen_effect':
+                pendingScreenEffects.push(log.effect);
+                continue;
+            case 'dialogue': {
+                const character = gameData.characters.find(c => c.id === log.characterId);
+                dialogue = { characterName: character?.name || 'Narrator', text: log.text };
+                if (log.voiceAssetId && voiceDurationsMs[log.voiceAssetId] !== undefined) voiceAssetId = log.voiceAssetId;
+                break;
+            }
+            case 'choice_selection': {
+                const player = gameData.players.find(p => p.id === log.playerId);
+                dialogue = { characterName: 'Narrator', text: `${player?.name || 'A player'} chose: "${log.choice.text}"` };
+                break;
+            }
+            case 'dice_roll': {
+                const character = gameData.characters.find(c => c.id === log.characterId);
+                dialogue = { characterName: 'Narrator', text: `${character?.name || 'Someone'} rolled ${formatDiceBreakdown(log)}` };
+                break;
+            }
+            case 'skill_check': {
+                const character = gameData.characters.find(c => c.id === log.characterId);
+                dialogue = { characterName: 'Narrator', text: `${character?.name || 'Someone'} attempted a ${formatSkillCheck(log)}.` };
+                break;
+            }
+            default:
+                continue;
+        }
+        if (sceneChangesSinceLastCard) {
+            addCard(null, Math.max(SCENE_CHANGE_MS, getPendingAnimationMs()));
+            sceneChangesSinceLastCard = false;
+        }
+        const durationMs = getCardDurationMs(dialogue.text, timing);
+        addCard(dialogue, voiceAssetId ? Math.max(durationMs, voiceDurationsMs[voiceAssetId] + VOICE_TAIL_MS) : durationMs, voiceAssetId);
+    }
+
+    if (gameData.storyLog.length > 0) addCard(null, FINAL_CARD_MS);
+    return cards;
+};
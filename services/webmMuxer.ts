@@ -0,0 +1,161 @@
+// A minimal WebM writer for the video export. It takes frames that WebCodecs has already encoded
+// and wraps them in a Matroska container, so no media library is needed. The whole file is built in
+// memory, which lets the cues (the seek index) go before the clusters with known positions.
+
+export interface WebmVideoTrack {
+    kind: 'video';
+    codecId: 'V_VP8' | 'V_VP9';
+    width: number;
+    height: number;
+}
+
+export interface WebmAudioTrack {
+    kind: 'audio';
+    codecId: 'A_OPUS';
+    sampleRate: number;
+    channels: number;
+    codecPrivate?: Uint8Array; // The Opus identification header.
+    codecDelayNs?: number;
+}
+
+export type WebmTrack = WebmVideoTrack | WebmAudioTrack;
+
+export interface WebmFrame {
+    track: number; // Index into the tracks passed to createWebm.
+    timestampMs: number;
+    isKeyFrame: boolean;
+    data: Uint8Array;
+}
+
+// A cluster's frames are timed relative to it with a signed 16-bit offset.
+const MAX_CLUSTER_SPAN_MS = 30_000;
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+const idBytes = (id: number): Uint8Array => {
+    const bytes: number[] = [];
+    for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value % 256);
+    return new Uint8Array(bytes);
+};
+
+// Element sizes are always written in 8 bytes, which keeps every size known before it is written.
+const sizeBytes = (size: number): Uint8Array => {
+    const bytes = new Uint8Array(8);
+    bytes[0] = 0x01;
+    for (let i = 7, value = size; i > 0; i--, value = Math.floor(value / 256)) bytes[i] = value % 256;
+    return bytes;
+};
+
+const uintBytes = (value: number, width?: number): Uint8Array => {
+    const bytes: number[] = [];
+    for (let v = value; v > 0 || bytes.length === 0; v = Math.floor(v / 256)) bytes.unshift(v % 256);
+    while (width && bytes.length < width) bytes.unshift(0);
+    return new Uint8Array(bytes);
+};
+
+const element = (id: number, ...children: Uint8Array[]): Uint8Array => {
+    const body = concat(children);
+    return concat([idBytes(id), sizeBytes(body.length), body]);
+};
+
+const uint = (id: number, value: number, width?: number) => element(id, uintBytes(value, width));
+
+const float = (id: number, value: number) => {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value);
+    return element(id, new Uint8Array(view.buffer));
+};
+
+const text = (id: number, value: string) => element(id, new TextEncoder().encode(value));
+
+const trackEntry = (track: WebmTrack, number: number): Uint8Array => {
+    const common = [uint(0xD7, number), uint(0x73C5, number), uint(0x83, track.kind === 'video' ? 1 : 2), text(0x86, track.codecId)];
+    if (track.kind === 'video') {
+        return element(0xAE, ...common, element(0xE0, uint(0xB0, track.width), uint(0xBA, track.height)));
+    }
+    return element(0xAE,
+        ...common,
+        ...(track.codecPrivate ? [element(0x63A2, track.codecPrivate)] : []),
+        ...(track.codecDelayNs ? [uint(0x56AA, track.codecDelayNs)] : []),
+        uint(0x56BB, 80_000_000), // Opus needs 80ms of pre-roll after a seek.
+        element(0xE1, float(0xB5, track.sampleRate), uint(0x9F, track.channels)));
+};
+
+const simpleBlock = (frame: WebmFrame, clusterTime: number): Uint8Array => {
+    const header = new Uint8Array(4);
+    header[0] = 0x80 | (frame.track + 1); // Track number as a one-byte vint.
+    new DataView(header.buffer).setInt16(1, Math.round(frame.timestampMs) - clusterTime);
+    header[3] = frame.isKeyFrame ? 0x80 : 0x00;
+    return element(0xA3, header, frame.data);
+};
+
+/**
+ * Writes a WebM file.
+ * @param tracks The tracks, at most 127. The first video track is the one seeked by.
+ * @param frames Encoded frames of every track, in any order.
+ * @param durationMs The length of the video.
+ */
+export const createWebm = (tracks: WebmTrack[], frames: WebmFrame[], durationMs: number): Blob => {
+    const sorted = [...frames].sort((a, b) => a.timestampMs - b.timestampMs || a.track - b.track);
+    const videoTrack = tracks.findIndex(t => t.kind === 'video');
+
+    // A new cluster starts at every video key frame, and before its offsets would overflow.
+    // Only clusters that open on a video key frame can be seeked to.
+    const clusters: { time: number; isSeekable: boolean; blocks: Uint8Array[] }[] = [];
+    for (const frame of sorted) {
+        const time = Math.round(frame.timestampMs);
+        const current = clusters[clusters.length - 1];
+        const isVideoKeyFrame = (frame.track === videoTrack || videoTrack === -1) && frame.isKeyFrame;
+        if (!current || isVideoKeyFrame || time - current.time > MAX_CLUSTER_SPAN_MS) {
+            clusters.push({ time, isSeekable: isVideoKeyFrame, blocks: [] });
+        }
+        const cluster = clusters[clusters.length - 1];
+        cluster.blocks.push(simpleBlock(frame, cluster.time));
+    }
+    const clusterBytes = clusters.map(c => element(0x1F43B675, uint(0xE7, c.time), ...c.blocks));
+
+    const info = element(0x1549A966,
+        uint(0x2AD7B1, 1_000_000), // Timestamps are in milliseconds.
+        text(0x4D80, 'Visual Novel Forge'),
+        text(0x5741, 'Visual Novel Forge'),
+        float(0x4489, durationMs));
+    const trackList = element(0x1654AE6B, ...tracks.map((t, i) => trackEntry(t, i + 1)));
+
+    // Cluster positions are written in a fixed width, so the cues' size is known before the positions.
+    const buildCues = (clusterStart: number) => {
+        let position = clusterStart;
+        const cuePoints: Uint8Array[] = [];
+        clusters.forEach((cluster, i) => {
+            if (cluster.isSeekable) {
+                cuePoints.push(element(0xBB,
+                    uint(0xB3, cluster.time, 8),
+                    element(0xB7, uint(0xF7, Math.max(videoTrack, 0) + 1), uint(0xF1, position, 8))));
+            }
+            position += clusterBytes[i].length;
+        });
+        return cuePoints.length > 0 ? element(0x1C53BB6B, ...cuePoints) : new Uint8Array(0);
+    };
+    const cuesSize = buildCues(0).length;
+    const cues = buildCues(info.length + trackList.length + cuesSize);
+
+    const header = element(0x1A45DFA3,
+        uint(0x4286, 1),
+        uint(0x42F7, 1),
+        uint(0x42F2, 4),
+        uint(0x42F3, 8),
+        text(0x4282, 'webm'),
+        uint(0x4287, 4),
+        uint(0x4285, 2));
+    // The segment is handed to the Blob in parts rather than copied into one array.
+    const segmentParts = [info, trackList, cues, ...clusterBytes];
+    const segmentSize = segmentParts.reduce((size, part) => size + part.length, 0);
+    return new Blob([header, idBytes(0x18538067), sizeBytes(segmentSize), ...segmentParts], { type: 'video/webm' });
+};
@@ -0,0 +1,118 @@
+import { AuthoredStory, Choice, StoryBranch, StoryLogEntry, StoryScene } from '../types';
+import { isCompleteEffect } from './effects';
+import { isCompleteRequirement } from './choiceRequirements';
+
+// An authored story is read one click at a time. The reader's place is a ReaderPosition, and each
+// step returns the entries to add to the story log, so the log records the reading like any game.
+
+export interface ReaderPosition {
+    sceneId: string | null; // Null once the story has ended.
+    entryIndex: number; // The next entry of the scene to show.
+    isChoosing: boolean; // The scene's choices have been offered and the reader must pick one.
+}
+
+export type ReaderStep =
+    | { kind: 'entries'; entries: StoryLogEntry[]; position: ReaderPosition }
+    | { kind: 'choosing'; choices: StoryBranch[] }
+    | { kind: 'end' };
+
+export const getStartPosition = (story: AuthoredStory): ReaderPosition => ({
+    sceneId: story.scenes.some(s => s.id === story.startSceneId) ? story.startSceneId : null,
+    entryIndex: 0,
+    isChoosing: false,
+});
+
+const findScene = (story: AuthoredStory, id: string | null): StoryScene | undefined =>
+    id ? story.scenes.find(s => s.id === id) : undefined;
+
+// Branches still being written, without any text, are not offered.
+const getOfferedBranches = (scene: StoryScene): StoryBranch[] => scene.choices.filter(c => c.text.trim());
+
+/**
+ * The choice as offered in the story log: without the branch target, and with half-written
+ * effects and requirements dropped, as GameView does for choices written during play.
+ */
+export const toOfferedChoice = (branch: StoryBranch): Choice => {
+    const effects = (branch.effects || []).filter(isCompleteEffect);
+    const requirements = (branch.requirements || []).filter(isCompleteRequirement);
+    return {
+        text: branch.text,
+        ...(effects.length > 0 ? { effects } : {}),
+        ...(requirements.length > 0 ? { requirements } : {}),
+    };
+};
+
+/**
+ * Works out what the next click shows: the entries up to and including the next line of dialogue,
+ * the scene's choices, or the end of the story. Scenes without choices lead on to their next scene,
+ * and a loop of scenes that has nothing left to show ends the story.
+ */
+export const getNextReaderStep = (story: AuthoredStory, position: ReaderPosition): ReaderStep => {
+    let { sceneId, entryIndex } = position;
+    const visited = new Set<string>();
+
+    if (position.isChoosing) {
+        const scene = findScene(story, sceneId);
+        return scene ? { kind: 'choosing', choices: getOfferedBranches(scene) } : { kind: 'end' };
+    }
+
+    let scene = findScene(story, sceneId);
+    while (scene) {
+        if (entryIndex < scene.entries.length) {
+            const end = scene.entries.findIndex((e, i) => i >= entryIndex && e.type === 'dialogue');
+            const nextIndex = end === -1 ? scene.entries.length : end + 1;
+            return {
+                kind: 'entries',
+                entries: scene.entries.slice(entryIndex, nextIndex),
+                position: { sceneId: scene.id, entryIndex: nextIndex, isChoosing: false },
+            };
+        }
+        const branches = getOfferedBranches(scene);
+        if (branches.length > 0) {
+            return {
+                kind: 'entries',
+                entries: [{ type: 'choice', choices: branches.map(toOfferedChoice) }],
+                position: { sceneId: scene.id, entryIndex, isChoosing: true },
+            };
+        }
+        if (visited.has(scene.id)) break;
+        visited.add(scene.id);
+        scene = findScene(story, scene.nextSceneId);
+        entryIndex = 0;
+    }
+    return { kind: 'end' };
+};
+
+/**
+ * Where the reader goes after picking a branch. A branch without a target, or with a target that
+ * was deleted, ends the story.
+ */
+export const followBranch = (story: AuthoredStory, branch: StoryBranch): ReaderPosition => ({
+    sceneId: findScene(story, branch.targetSceneId) ? branch.targetSceneId : null,
+    entryIndex: 0,
+    isChoosing: false,
+});
+
+/**
+ * Where the reader goes when every choice of the scene is locked to them: on to the scene's next
+ * scene, so a story cannot strand its reader, or to the end.
+ */
+export const followLockedChoices = (story: AuthoredStory, position: ReaderPosition): ReaderPosition => {
+    const nextSceneId = findScene(story, position.sceneId)?.nextSceneId ?? null;
+    return { sceneId: findScene(story, nextSceneId) ? nextSceneId : null, entryIndex: 0, isChoosing: false };
+};
+
+/**
+ * Removes a scene and every link to it, so no branch or start points at a missing scene.
+ */
+export const removeScene = (story: AuthoredStory, sceneId: string): AuthoredStory => ({
+    ...story,
+    startSceneId: story.startSceneId === sceneId ? null : story.startSceneId,
+    scenes: story.scenes
+        .filter(s => s.id !== sceneId)
+        .map(s => ({
+            ...s,
+            nextSceneId: s.nextSceneId === sceneId ? null : s.nextSceneId,
+            choices: s.choices.map(c => c.targetSceneId === sceneId ? { ...c, targetSceneId: null } : c),
+        })),
+});
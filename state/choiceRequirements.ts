@@ -0,0 +1,69 @@
+import { Choice, ChoiceRequirement, GameData, PlayerId } from '../types';
+import { STAT_LABELS } from '../services/skillCheckService';
+import { isVariableSet } from './variables';
+
+// Choices can be locked behind requirements. The same checks run in GameView, to show locked
+// choices, in the GM's permission checks and in the reducer, which has the final say.
+
+export interface RequirementContext {
+    gameData: GameData;
+    playerId: PlayerId;
+    characterId: string; // The character the player is choosing as.
+}
+
+const isRequirementMet = (requirement: ChoiceRequirement, { gameData, playerId, characterId }: RequirementContext): boolean => {
+    switch (requirement.kind) {
+        case 'coins':
+            return (gameData.players.find(p => p.id === playerId)?.coins || 0) >= requirement.min;
+        case 'stat': {
+            const character = gameData.characters.find(c => c.id === characterId);
+            return (character?.stats?.[requirement.stat] ?? 0) >= requirement.min;
+        }
+        case 'quest':
+            return gameData.quests.find(q => q.id === requirement.questId)?.status === requirement.status;
+        case 'flag':
+            return isVariableSet(gameData.variables || [], requirement.flag) === requirement.isSet;
+        default:
+            return false;
+    }
+};
+
+/**
+ * Describes a requirement for the reader, e.g. "Charisma 14+".
+ */
+export const describeRequirement = (requirement: ChoiceRequirement, gameData: GameData): string => {
+    switch (requirement.kind) {
+        case 'coins':
+            return `${requirement.min} coins`;
+        case 'stat':
+            return `${STAT_LABELS[requirement.stat]} ${requirement.min}+`;
+        case 'quest': {
+            const title = gameData.quests.find(q => q.id === requirement.questId)?.title || 'an unknown quest';
+            return `"${title}" ${requirement.status}`;
+        }
+        case 'flag':
+            return requirement.isSet ? `"${requirement.flag}" set` : `"${requirement.flag}" not set`;
+        default:
+            return 'an unknown requirement';
+    }
+};
+
+/**
+ * Whether a requirement names what it tests. Editors drop the ones that do not.
+ */
+export const isCompleteRequirement = (requirement: ChoiceRequirement): boolean =>
+    (requirement.kind !== 'quest' || !!requirement.questId) && (requirement.kind !== 'flag' || !!requirement.flag);
+
+/**
+ * Returns the requirements of a choice that are not met, in the order they were written.
+ */
+export const getUnmetRequirements = (choice: Choice, context: RequirementContext): ChoiceRequirement[] =>
+    (choice.requirements || []).filter(requirement => !isRequirementMet(requirement, context));
+
+/**
+ * Explains why a choice is locked, or returns null if it can be picked.
+ */
+export const getLockReason = (choice: Choice, context: RequirementContext): string | null => {
+    const unmet = getUnmetRequirements(choice, context);
+    return unmet.length > 0 ? `Requires ${unmet.map(r => describeRequirement(r, context.gameData)).join(', ')}` : null;
+};
@@ -0,0 +1,185 @@
+import { Character, GameData, InventoryItem, PlayerId, QuestStatus, StoryEffect, StoryLogEntry } from '../types';
+import { STAT_LABELS } from '../services/skillCheckService';
+import { applyVariableEffect, formatVariableValue } from './variables';
+
+// Applies the effects of a chosen option or a skill check outcome. Each effect is applied in order
+// and writes its own log entries, so the story log explains every change to the table.
+
+export const EFFECT_KIND_LABELS: Record<StoryEffect['kind'], string> = {
+    coins: 'Coins',
+    hp: 'Heal / Damage',
+    stat: 'Stat',
+    item: 'Item',
+    quest: 'Quest',
+    background: 'Background',
+    variable: 'Variable',
+};
+
+/**
+ * Moves a quest to a new status and returns the log entries announcing it. Shared by the GM's quest
+ * controls and quest effects.
+ */
+export const updateQuestStatus = (state: GameData, questId: string, status: QuestStatus): { quests: GameData['quests']; logEntries: StoryLogEntry[] } | null => {
+    const questToUpdate = state.quests.find(q => q.id === questId);
+    if (!questToUpdate || questToUpdate.status === status) {
+        return null;
+    }
+
+    const quests = state.quests.map(q => q.id === questId ? { ...q, status } : q);
+    const logEntries: StoryLogEntry[] = [];
+
+    if (status === 'completed') {
+        const { rewards, title } = questToUpdate;
+        logEntries.push({type: 'quest_status', text: `Quest Completed: ${title}`});
+        if (rewards.coins > 0) {
+             logEntries.push({type: 'stat_change', text: `Party received a reward of ${rewards.coins} coins. The GM will distribute them.`});
+        }
+    } else if (status === 'failed') {
+        logEntries.push({type: 'quest_status', text: `Quest Failed: ${questToUpdate.title}`});
+    }
+
+    return { quests, logEntries };
+};
+
+const changeHealth = (character: Character, amount: number, logEntries: StoryLogEntry[]): Character => {
+    const updated = { ...character, health: Math.min(character.maxHealth, Math.max(0, character.health + amount)) };
+    logEntries.push({
+        type: 'stat_change',
+        text: `${character.name} ${amount > 0 ? 'gained' : 'lost'} ${Math.abs(amount)} HP. (${updated.health}/${updated.maxHealth})`
+    });
+    if (updated.health <= 0 && character.status === 'active') {
+        updated.status = 'defeated';
+        logEntries.push({ type: 'stat_change', text: `${character.name} has been defeated!`});
+        logEntries.push({ type: 'sprite_change', characterId: character.id, assetId: null });
+    }
+    return updated;
+};
+
+const changeInventory = (inventory: InventoryItem[], name: string, quantity: number): InventoryItem[] => {
+    const existing = inventory.find(i => i.name === name);
+    const newQuantity = Math.max(0, (existing?.quantity || 0) + quantity);
+    if (!existing) return newQuantity > 0 ? [...inventory, { name, quantity: newQuantity }] : inventory;
+    return newQuantity > 0
+        ? inventory.map(i => i.name === name ? { ...i, quantity: newQuantity } : i)
+        : inventory.filter(i => i.name !== name);
+};
+
+/**
+ * Applies a list of effects.
+ * @param state The game before the effects.
+ * @param effects The effects, applied in order.
+ * @param playerId The player who made the choice or rolled the check. Coins and items go to them.
+ * @returns The updated game, with the log entries describing the effects returned separately so
+ * the caller can place them after its own entry.
+ */
+export const applyStoryEffects = (state: GameData, effects: StoryEffect[], playerId: PlayerId): { state: GameData; logEntries: StoryLogEntry[] } => {
+    const logEntries: StoryLogEntry[] = [];
+    let next = state;
+
+    for (const effect of effects || []) {
+        switch (effect.kind) {
+            case 'coins': {
+                const player = next.players.find(p => p.id === playerId);
+                if (!player || !effect.amount) break;
+                next = { ...next, players: next.players.map(p => p.id === playerId ? { ...p, coins: (p.coins || 0) + effect.amount } : p) };
+                logEntries.push({
+                    type: 'stat_change',
+                    text: `${player.name} ${effect.amount > 0 ? 'gained' : 'lost'} ${Math.abs(effect.amount)} coins.`
+                });
+                break;
+            }
+            case 'hp': {
+                if (!effect.amount) break;
+                const targets = effect.characterIds || [];
+                next = { ...next, characters: next.characters.map(c => targets.includes(c.id) ? changeHealth(c, effect.amount, logEntries) : c) };
+                break;
+            }
+            case 'stat': {
+                if (!effect.amount) break;
+                const targets = effect.characterIds || [];
+                next = { ...next, characters: next.characters.map(c => {
+                    if (!targets.includes(c.id)) return c;
+                    const value = (c.stats?.[effect.stat] ?? 10) + effect.amount;
+                    logEntries.push({
+                        type: 'stat_change',
+                        text: `${c.name}'s ${STAT_LABELS[effect.stat]} ${effect.amount > 0 ? 'rose' : 'fell'} by ${Math.abs(effect.amount)} (now ${value}).`
+                    });
+                    return { ...c, stats: { ...c.stats, [effect.stat]: value } };
+                }) };
+                break;
+            }
+            case 'item': {
+                const player = next.players.find(p => p.id === playerId);
+                const name = effect.name?.trim();
+                if (!player || !name || !effect.quantity) break;
+                const inventory = changeInventory(player.inventory || [], name, effect.quantity);
+                next = { ...next, players: next.players.map(p => p.id === playerId ? { ...p, inventory } : p) };
+                logEntries.push({
+                    type: 'stat_change',
+                    text: effect.quantity > 0
+                        ? `${player.name} received ${effect.quantity > 1 ? `${effect.quantity}× ` : ''}${name}.`
+                        : `${player.name} lost ${effect.quantity < -1 ? `${-effect.quantity}× ` : ''}${name}.`
+                });
+                break;
+            }
+            case 'quest': {
+                const result = updateQuestStatus(next, effect.questId, effect.status);
+                if (!result) break;
+                next = { ...next, quests: result.quests };
+                logEntries.push(...result.logEntries);
+                break;
+            }
+            case 'background':
+                logEntries.push({ type: 'background_change', assetId: effect.assetId ?? null });
+                break;
+            case 'variable': {
+                const result = applyVariableEffect(next.variables || [], effect.change);
+                if (!result) break;
+                next = { ...next, variables: result.variables };
+                logEntries.push(result.logEntry);
+                break;
+            }
+        }
+    }
+
+    return { state: next, logEntries };
+};
+
+/**
+ * Whether an effect has everything it needs to do something. Editors drop the ones that do not.
+ */
+export const isCompleteEffect = (effect: StoryEffect): boolean => {
+    switch (effect.kind) {
+        case 'coins': return !!effect.amount;
+        case 'hp':
+        case 'stat': return !!effect.amount && (effect.characterIds || []).length > 0;
+        case 'item': return !!effect.name?.trim() && !!effect.quantity;
+        case 'quest': return !!effect.questId;
+        case 'background': return true;
+        case 'variable': return !!effect.change?.name?.trim();
+        default: return false;
+    }
+};
+
+/**
+ * Describes an effect for editors and tooltips, e.g. "-5 HP to Aria, Bram".
+ */
+export const describeEffect = (effect: StoryEffect, gameData: GameData): string => {
+    const names = (ids: string[]) => (ids || []).map(id => gameData.characters.find(c => c.id === id)?.name || 'someone').join(', ') || 'nobody';
+    const signed = (n: number) => n >= 0 ? `+${n}` : String(n);
+    switch (effect.kind) {
+        case 'coins': return `${signed(effect.amount)} coins`;
+        case 'hp': return `${signed(effect.amount)} HP to ${names(effect.characterIds)}`;
+        case 'stat': return `${signed(effect.amount)} ${STAT_LABELS[effect.stat]} to ${names(effect.characterIds)}`;
+        case 'item': return `${effect.quantity >= 0 ? 'Give' : 'Take'} ${Math.abs(effect.quantity)}× ${effect.name}`;
+        case 'quest': return `Mark "${gameData.quests.find(q => q.id === effect.questId)?.title || 'a quest'}" ${effect.status}`;
+        case 'background': return `Move to ${gameData.assets.find(a => a.id === effect.assetId)?.name || 'no background'}`;
+        case 'variable': {
+            const { change } = effect;
+            if (change.op === 'set') return `Set "${change.name}" to ${formatVariableValue(change.value)}`;
+            if (change.op === 'increment') return `Add ${change.amount} to "${change.name}"`;
+            return `Toggle "${change.name}"`;
+        }
+        default: return 'Unknown effect';
+    }
+};
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { createJournal, journalReducer } from './journal';
+import { migrateGameData } from './migrations';
+import { StoryLogEntry } from '../types';
+
+const line = (text: string): StoryLogEntry => ({ type: 'dialogue', characterId: 'c1', text });
+
+const makeJournal = () => createJournal(migrateGameData({
+    schemaVersion: 6,
+    characters: [{ id: 'c1', name: 'Ann', status: 'active', health: 10, maxHealth: 10, spriteAssetIds: [] }],
+}));
+
+describe('journal undo', () => {
+    it('steps back the GM\'s last change, keeping what players posted after it', () => {
+        let journal = makeJournal();
+        journal = journalReducer(journal, { type: 'ADD_LOG_ENTRY', payload: line('GM line') });
+        journal = journalReducer(journal, { type: 'JOURNAL_PLAYER_ACTION', action: { type: 'ADD_LOG_ENTRY', payload: line('Player line') } });
+        expect(journal.undoStack).toHaveLength(1);
+
+        journal = journalReducer(journal, { type: 'JOURNAL_UNDO' });
+        expect(journal.present.storyLog).toEqual([line('Player line')]);
+
+        journal = journalReducer(journal, { type: 'JOURNAL_REDO' });
+        expect(journal.present.storyLog).toEqual([line('Player line'), line('GM line')]);
+    });
+
+    it('has nothing to undo when only players have posted', () => {
+        let journal = journalReducer(makeJournal(), { type: 'JOURNAL_PLAYER_ACTION', action: { type: 'ADD_LOG_ENTRY', payload: line('Player line') } });
+        expect(journal.entries).toHaveLength(1);
+        journal = journalReducer(journal, { type: 'JOURNAL_UNDO' });
+        expect(journal.present.storyLog).toEqual([line('Player line')]);
+    });
+});
@@ -0,0 +1,192 @@
+import { GameData } from '../types';
+import { gameReducer, Action } from './reducer';
+import { formatVariableValue } from './variables';
+
+// The journal wraps gameReducer. Every dispatched Action is appended to `entries` together with a
+// snapshot of the state it was applied to, so the GM can step back through misclicks without the
+// reducer itself needing to know how to invert anything.
+
+export type JournalAction =
+  | Action
+  | { type: 'JOURNAL_UNDO' }
+  | { type: 'JOURNAL_REDO' }
+  // An action a remote player sent, which the GM host has checked. It is journaled, but the GM's
+  // undo never reverts it; it is replayed like a passthrough action.
+  | { type: 'JOURNAL_PLAYER_ACTION'; action: Action };
+
+export type JournalEntry =
+  | { kind: 'action'; seq: number; timestamp: number; action: Action; snapshot: GameData; fromPlayer?: boolean }
+  | { kind: 'undo' | 'redo'; seq: number; timestamp: number; targetSeq: number };
+
+export interface JournalState {
+  present: GameData;
+  entries: JournalEntry[]; // Append-only, oldest first. Trimmed to MAX_JOURNAL_ENTRIES.
+  undoStack: number[]; // Seqs of applied, undoable action entries. Most recent last.
+  redoStack: number[]; // Seqs of undone action entries. Most recent last.
+  nextSeq: number;
+}
+
+export const MAX_JOURNAL_ENTRIES = 200;
+
+// Actions driven by the network or by chat rather than by a GM decision. They are still journaled,
+// but undo never reverts them; instead they are replayed on top of the restored snapshot.
+const PASSTHROUGH_ACTIONS: ReadonlySet<Action['type']> = new Set<Action['type']>([
+  'ADD_CHAT_MESSAGE',
+  'ADD_LOBBY_CHAT_MESSAGE',
+  'SET_LOBBY_MUSIC',
+  'ADD_PLAYER',
+  'REMOVE_PLAYER',
+  'SET_PLAYERS',
+  'MARK_LOG_SEEN',
+]);
+
+export const isUndoableAction = (action: Action): boolean => !PASSTHROUGH_ACTIONS.has(action.type);
+
+const isUndoableEntry = (entry: JournalEntry): boolean => entry.kind === 'action' && !entry.fromPlayer && isUndoableAction(entry.action);
+
+export const createJournal = (present: GameData): JournalState => ({
+  present,
+  entries: [],
+  undoStack: [],
+  redoStack: [],
+  nextSeq: 1,
+});
+
+const findActionEntry = (entries: JournalEntry[], seq: number) => {
+  const entry = entries.find(e => e.seq === seq);
+  return entry && entry.kind === 'action' ? entry : null;
+};
+
+const trimJournal = (state: JournalState): JournalState => {
+  if (state.entries.length <= MAX_JOURNAL_ENTRIES) return state;
+  const entries = state.entries.slice(state.entries.length - MAX_JOURNAL_ENTRIES);
+  const oldestSeq = entries[0].seq;
+  return {
+    ...state,
+    entries,
+    undoStack: state.undoStack.filter(seq => seq >= oldestSeq),
+    redoStack: state.redoStack.filter(seq => seq >= oldestSeq),
+  };
+};
+
+const appendEntry = (state: JournalState, entry: JournalEntry, overrides: Partial<JournalState>): JournalState => {
+  return trimJournal({
+    ...state,
+    ...overrides,
+    entries: [...state.entries, entry],
+    nextSeq: state.nextSeq + 1,
+  });
+};
+
+/**
+ * Re-derives the state as it would be had the entry `fromSeq` never been applied: starts from that
+ * entry's snapshot and replays every later passthrough action. Later undoable actions are always
+ * inactive at this point, because undo works strictly last-in-first-out.
+ */
+const rederiveWithout = (entries: JournalEntry[], fromSeq: number): GameData | null => {
+  const target = findActionEntry(entries, fromSeq);
+  if (!target) return null;
+  return entries
+    .filter(e => e.seq > fromSeq)
+    .reduce((state, e) => (e.kind === 'action' && !isUndoableEntry(e)) ? gameReducer(state, e.action) : state, target.snapshot);
+};
+
+export const journalReducer = (state: JournalState, action: JournalAction): JournalState => {
+  switch (action.type) {
+    case 'JOURNAL_UNDO': {
+      const targetSeq = state.undoStack[state.undoStack.length - 1];
+      if (targetSeq === undefined) return state;
+      const present = rederiveWithout(state.entries, targetSeq);
+      if (!present) return state;
+      return appendEntry(state, { kind: 'undo', seq: state.nextSeq, timestamp: Date.now(), targetSeq }, {
+        present,
+        undoStack: state.undoStack.slice(0, -1),
+        redoStack: [...state.redoStack, targetSeq],
+      });
+    }
+    case 'JOURNAL_REDO': {
+      const targetSeq = state.redoStack[state.redoStack.length - 1];
+      if (targetSeq === undefined) return state;
+      const target = findActionEntry(state.entries, targetSeq);
+      if (!target) return state;
+      // The redone action is journaled again with a fresh snapshot, since passthrough actions may
+      // have changed the state since it was first applied.
+      const redoSeq = state.nextSeq;
+      const withMarker = appendEntry(state, { kind: 'redo', seq: redoSeq, timestamp: Date.now(), targetSeq }, {
+        redoStack: state.redoStack.slice(0, -1),
+      });
+      return appendEntry(withMarker, { kind: 'action', seq: withMarker.nextSeq, timestamp: Date.now(), action: target.action, snapshot: state.present }, {
+        present: gameReducer(state.present, target.action),
+        undoStack: [...withMarker.undoStack, withMarker.nextSeq],
+      });
+    }
+    case 'JOURNAL_PLAYER_ACTION': {
+      const present = gameReducer(state.present, action.action);
+      if (present === state.present) return state;
+      return appendEntry(state, { kind: 'action', seq: state.nextSeq, timestamp: Date.now(), action: action.action, snapshot: state.present, fromPlayer: true }, { present });
+    }
+    case 'SET_GAME_DATA':
+      // Loading a whole game replaces history; there is nothing meaningful to undo back to.
+      return createJournal(gameReducer(state.present, action));
+    default: {
+      const present = gameReducer(state.present, action);
+      if (present === state.present) return state;
+      const seq = state.nextSeq;
+      const undoable = isUndoableAction(action);
+      return appendEntry(state, { kind: 'action', seq, timestamp: Date.now(), action, snapshot: state.present }, {
+        present,
+        undoStack: undoable ? [...state.undoStack, seq] : state.undoStack,
+        redoStack: undoable ? [] : state.redoStack,
+      });
+    }
+  }
+};
+
+/**
+ * A short, human readable label for a journaled action, used by the GM history list.
+ */
+export const describeAction = (action: Action, gameData: GameData): string => {
+  const charName = (id: string) => gameData.characters.find(c => c.id === id)?.name || 'a character';
+  switch (action.type) {
+    case 'UPDATE_TITLE': return `Renamed game to "${action.payload}"`;
+    case 'UPDATE_GM_RULES': return 'Edited GM rules';
+    case 'ADD_ASSET': return `Added asset "${action.payload.name}"`;
+    case 'DELETE_ASSET': return `Deleted asset "${gameData.assets.find(a => a.id === action.payload.id)?.name || action.payload.id}"`;
+    case 'SET_ASSET_PUBLISHED': return `${action.payload.isPublished ? 'Published' : 'Unpublished'} an asset`;
+    case 'ADD_CHARACTER': return `Added character "${action.payload.name}"`;
+    case 'UPDATE_CHARACTER': return `Edited ${action.payload.name}`;
+    case 'DELETE_CHARACTER': return `Deleted ${charName(action.payload.id)}`;
+    case 'ADD_LOG_ENTRY': return `Story: ${action.payload.type.replace('_', ' ')}`;
+    case 'SET_VOICE_CLIP': return action.payload.clip ? 'Attached a voice clip to a line' : 'Removed a voice clip';
+    case 'RESET_STORY_LOG': return 'Reset the story log';
+    case 'BATCH_ADD_DATA': return `Added ${action.payload.characters.length} characters and ${action.payload.assets.length} assets`;
+    case 'BATCH_ADD_ASSETS': return `Added ${action.payload.length} assets`;
+    case 'ADD_QUEST': return `Added quest "${action.payload.title}"`;
+    case 'UPDATE_QUEST': return `Marked "${gameData.quests.find(q => q.id === action.payload.id)?.title || 'a quest'}" as ${action.payload.status}`;
+    case 'ADD_CHAT_MESSAGE':
+    case 'ADD_LOBBY_CHAT_MESSAGE': return `Chat from ${action.payload.senderName}`;
+    case 'SET_LOBBY_MUSIC': return action.payload ? 'Set lobby music' : 'Removed lobby music';
+    case 'SET_GAME_DATA': return 'Loaded game data';
+    case 'ADD_PLAYER': return `${action.payload.name} joined`;
+    case 'UPDATE_PLAYER': return `Updated player ${action.payload.name}`;
+    case 'MARK_LOG_SEEN': return `${gameData.players.find(p => p.id === action.payload.playerId)?.name || 'A player'} caught up on the story`;
+    case 'REMOVE_PLAYER': return `Removed player ${gameData.players.find(p => p.id === action.payload.id)?.name || action.payload.id}`;
+    case 'SET_PLAYERS': return 'Set players';
+    case 'SUBMIT_ASSET_FOR_APPROVAL': return `Asset "${action.payload.asset.name}" submitted for approval`;
+    case 'APPROVE_ASSET': return 'Approved a submitted asset';
+    case 'REJECT_ASSET': return 'Rejected a submitted asset';
+    case 'DEFINE_VARIABLE': return `Defined variable "${action.payload.name}"`;
+    case 'DELETE_VARIABLE': return `Deleted variable "${action.payload.name}"`;
+    case 'SET_VARIABLE': return `Set "${action.payload.name}" to ${formatVariableValue(action.payload.value)}`;
+    case 'INCREMENT_VARIABLE': return `${action.payload.amount >= 0 ? 'Increased' : 'Decreased'} "${action.payload.name}" by ${Math.abs(action.payload.amount)}`;
+    case 'TOGGLE_VARIABLE': return `Toggled "${action.payload.name}"`;
+    case 'SET_AUTHORED_STORY': return `Replaced the authored story (${action.payload.scenes.length} scenes)`;
+    case 'ADD_STORY_SCENE': return `Added scene "${action.payload.title}"`;
+    case 'UPDATE_STORY_SCENE': return `Edited scene "${action.payload.title}"`;
+    case 'DELETE_STORY_SCENE': return `Deleted scene "${gameData.authoredStory.scenes.find(s => s.id === action.payload.id)?.title || action.payload.id}"`;
+    case 'SET_STORY_START': return 'Changed the starting scene';
+    case 'SET_STORY_PROTAGONIST': return action.payload.characterId ? `Made ${charName(action.payload.characterId)} the protagonist` : 'Cleared the protagonist';
+    case 'SET_PENDING_SKILL_CHECK': return action.payload ? `Called for a DC ${action.payload.dc} ${action.payload.stat} check` : 'Cancelled the skill check';
+    default: return 'Unknown action';
+  }
+};
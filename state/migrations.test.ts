@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { MIGRATIONS, migrateGameData, getSchemaVersion, SchemaVersionError } from './migrations';
+import { CURRENT_SCHEMA_VERSION } from '../constants';
+
+// One save as each version of the app wrote it, trimmed to the fields that version's step touches.
+const V0 = {
+    title: 'Old Story',
+    characters: [{ id: 'c1', name: 'Ann', stats: { strength: 14 } }],
+    players: [{ id: 'p1', name: 'Pat' }],
+    quests: [{ id: 'q1', title: 'Find the key' }],
+    storyLog: [{ type: 'dice_roll', playerId: 'p1', sides: 20, result: 17 }],
+};
+const V1 = {
+    schemaVersion: 1,
+    storyLog: [
+        { type: 'dice_roll', playerId: 'p1', sides: 6, result: 4, seed: 'abc' },
+        { type: 'dialogue', characterId: 'c1', text: 'Hi' },
+    ],
+};
+const V2 = { schemaVersion: 2, storyLog: [] };
+const V3 = { schemaVersion: 3, pendingSkillCheck: null };
+const V4 = {
+    schemaVersion: 4,
+    storyLog: [
+        { type: 'choice', choices: [{ text: 'Pay', effects: { coins: -5, hp: -2, targetCharacterId: 'c1', variables: [{ name: 'paid', op: 'set', value: true }] } }, { text: 'Leave' }] },
+        { type: 'choice_selection', playerId: 'p1', choice: { text: 'Pay', effects: { coins: -5 } } },
+    ],
+    pendingSkillCheck: { characterId: 'c1', stat: 'strength', dc: 12, successEffects: { coins: 3 }, failureEffects: null },
+};
+const V5 = { schemaVersion: 5, title: 'Five' };
+// What comes back from Firebase for a current game: empty lists and nulls are dropped.
+const V6 = {
+    schemaVersion: 6,
+    title: 'Current',
+    variables: [{ name: 'gold', type: 'number', value: 3 }, { name: 'seen', type: 'flag' }],
+    authoredStory: { scenes: [{ id: 's1', choices: [{ text: 'Go' }] }] },
+    pendingSkillCheck: { characterId: 'c1', stat: 'wisdom', dc: 10 },
+};
+
+describe('migrations', () => {
+    it('has a step from every version below the current one', () => {
+        for (let version = 0; version < CURRENT_SCHEMA_VERSION; version++) {
+            expect(MIGRATIONS[version], `migration from ${version}`).toBeTypeOf('function');
+        }
+    });
+
+    it('0 -> 1 fills in character stats and health, player coins and quest rewards', () => {
+        const data = MIGRATIONS[0](V0);
+        expect(data.schemaVersion).toBe(1);
+        expect(data.characters).toEqual([{
+            id: 'c1', name: 'Ann', spriteAssetIds: [], health: 100, maxHealth: 100, status: 'active',
+            stats: { strength: 14, dexterity: 10, constitution: 10, intelligence: 10, wisdom: 10, charisma: 10 },
+        }]);
+        expect(data.players).toEqual([{ id: 'p1', name: 'Pat', coins: 0, lastSeenLogIndex: 0 }]);
+        expect(data.quests).toEqual([{ id: 'q1', title: 'Find the key', assignedCharacterId: null, status: 'active', rewards: { coins: 0 } }]);
+    });
+
+    it('1 -> 2 turns single-die rolls into dice notation with the same result', () => {
+        const data = MIGRATIONS[1](V1);
+        expect(data.schemaVersion).toBe(2);
+        expect(data.storyLog).toEqual([
+            {
+                type: 'dice_roll', playerId: 'p1', result: 4, seed: 'abc', expression: '1d6',
+                terms: [{ kind: 'dice', sign: 1, notation: '1d6', sides: 6, rolls: [{ value: 4, kept: true }], total: 4 }],
+            },
+            { type: 'dialogue', characterId: 'c1', text: 'Hi' },
+        ]);
+    });
+
+    it('2 -> 3 adds an empty pending skill check', () => {
+        expect(MIGRATIONS[2](V2)).toEqual({ schemaVersion: 3, storyLog: [], pendingSkillCheck: null });
+    });
+
+    it('3 -> 4 adds story variables', () => {
+        expect(MIGRATIONS[3](V3)).toEqual({ schemaVersion: 4, pendingSkillCheck: null, variables: [] });
+    });
+
+    it('4 -> 5 turns effect objects into effect lists', () => {
+        const data = MIGRATIONS[4](V4);
+        expect(data.schemaVersion).toBe(5);
+        expect(data.storyLog).toEqual([
+            {
+                type: 'choice',
+                choices: [
+                    {
+                        text: 'Pay',
+                        effects: [
+                            { kind: 'coins', amount: -5 },
+                            { kind: 'hp', characterIds: ['c1'], amount: -2 },
+                            { kind: 'variable', change: { name: 'paid', op: 'set', value: true } },
+                        ],
+                    },
+                    { text: 'Leave' },
+                ],
+            },
+            { type: 'choice_selection', playerId: 'p1', choice: { text: 'Pay', effects: [{ kind: 'coins', amount: -5 }] } },
+        ]);
+        expect(data.pendingSkillCheck).toEqual({ characterId: 'c1', stat: 'strength', dc: 12, successEffects: [{ kind: 'coins', amount: 3 }], failureEffects: [] });
+    });
+
+    it('5 -> 6 adds an empty authored story', () => {
+        expect(MIGRATIONS[5](V5)).toEqual({ schemaVersion: 6, title: 'Five', authoredStory: { startSceneId: null, protagonistId: null, scenes: [] } });
+    });
+
+    it('restores what Firebase dropped from current data', () => {
+        const data = migrateGameData(V6);
+        expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+        expect(data.storyLog).toEqual([]);
+        expect(data.players).toEqual([]);
+        expect(data.lobbyMusicUrl).toBeNull();
+        expect(data.variables).toEqual([
+            { name: 'gold', type: 'number', value: 3, hidden: false },
+            { name: 'seen', type: 'flag', value: false, hidden: false },
+        ]);
+        expect(data.authoredStory).toEqual({
+            startSceneId: null,
+            protagonistId: null,
+            scenes: [{ id: 's1', title: '', entries: [], choices: [{ text: 'Go', targetSceneId: null }], nextSceneId: null }],
+        });
+        expect(data.pendingSkillCheck).toEqual({ characterId: 'c1', stat: 'wisdom', dc: 10, successEffects: [], failureEffects: [] });
+    });
+});
+
+describe('migrateGameData', () => {
+    it('upgrades unversioned data all the way to the current shape', () => {
+        const data = migrateGameData(V0);
+        expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+        expect(data.title).toBe('Old Story');
+        expect(data.storyLog[0]).toMatchObject({ type: 'dice_roll', expression: '1d20', result: 17 });
+        expect(data.players[0]).toMatchObject({ coins: 0, lastSeenLogIndex: 0 });
+        expect(data.variables).toEqual([]);
+        expect(data.pendingSkillCheck).toBeNull();
+        expect(data.authoredStory.scenes).toEqual([]);
+    });
+
+    it('starts every version from where it left off', () => {
+        for (const fixture of [V0, V1, V2, V3, V4, V5, V6]) {
+            expect(migrateGameData(fixture).schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+        }
+        expect(migrateGameData(V3).variables).toEqual([]);
+    });
+
+    it('treats missing or malformed data as unversioned', () => {
+        expect(getSchemaVersion(null)).toBe(0);
+        expect(getSchemaVersion({ schemaVersion: '3' })).toBe(0);
+        expect(getSchemaVersion({ schemaVersion: 2.5 })).toBe(0);
+        expect(migrateGameData(null).storyLog).toEqual([]);
+    });
+
+    it('refuses data from a newer version of the app', () => {
+        expect(() => migrateGameData({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(SchemaVersionError);
+    });
+});
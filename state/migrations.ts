@@ -0,0 +1,194 @@
+import { GameData } from '../types';
+import { CURRENT_SCHEMA_VERSION, INITIAL_GAME_DATA } from '../constants';
+
+// Saved games come back from Firebase, from old sessions and from files, in whatever shape the app
+// had when they were written. Each migration upgrades data from version N to N + 1; they always run
+// in order, so every old version follows the same path to the current shape.
+//
+// When GameData changes shape: bump CURRENT_SCHEMA_VERSION in constants.ts and add a migration
+// keyed by the previous version. Never edit a migration that has already shipped.
+
+// Old data is only trusted as far as it has been checked. Until normalizeGameData, every level is
+// an unknown record that each migration narrows before using.
+type RawRecord = Record<string, unknown>;
+type Migration = (data: RawRecord) => RawRecord;
+
+const isRecord = (value: unknown): value is RawRecord => typeof value === 'object' && value !== null && !Array.isArray(value);
+const asRecord = (value: unknown): RawRecord => isRecord(value) ? value : {};
+const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+// Firebase sends lists back as objects keyed by index when they have gaps.
+const asList = (value: unknown): unknown[] => isRecord(value) ? Object.values(value) : asArray(value);
+const asNumber = (value: unknown, fallback: number): number => typeof value === 'number' ? value : fallback;
+const asString = (value: unknown, fallback: string): string => typeof value === 'string' ? value : fallback;
+const asStringOrNull = (value: unknown): string | null => typeof value === 'string' && value ? value : null;
+
+const DEFAULT_STATS = { strength: 10, dexterity: 10, constitution: 10, intelligence: 10, wisdom: 10, charisma: 10 };
+
+// Version 5 effects were one object with optional coins, hp (for a single target) and variables.
+const toEffectList = (effects: unknown): unknown[] => {
+    if (Array.isArray(effects)) return effects;
+    if (!isRecord(effects)) return [];
+    const list: RawRecord[] = [];
+    if (effects.coins) list.push({ kind: 'coins', amount: effects.coins });
+    if (effects.hp && effects.targetCharacterId) list.push({ kind: 'hp', characterIds: [effects.targetCharacterId], amount: effects.hp });
+    asList(effects.variables).forEach(change => list.push({ kind: 'variable', change }));
+    return list;
+};
+
+const migrateChoiceEffects = (choice: unknown): unknown => isRecord(choice) && choice.effects ? { ...choice, effects: toEffectList(choice.effects) } : choice;
+
+export class SchemaVersionError extends Error {
+    constructor(public readonly version: number) {
+        super(`This game was saved by a newer version of Visual Novel Forge (save format ${version}, this app supports up to ${CURRENT_SCHEMA_VERSION}). Please refresh the page to update.`);
+        this.name = 'SchemaVersionError';
+    }
+}
+
+export const MIGRATIONS: Record<number, Migration> = {
+    // 0 -> 1: Unversioned data. Characters predate stats and health, players predate coins, and
+    // quests predate rewards.
+    0: (data) => ({
+        ...data,
+        characters: asList(data.characters).filter(isRecord).map(c => ({
+            ...c,
+            spriteAssetIds: c.spriteAssetIds || [],
+            health: c.health ?? 100,
+            maxHealth: c.maxHealth ?? 100,
+            status: c.status || 'active',
+            stats: { ...DEFAULT_STATS, ...asRecord(c.stats) },
+        })),
+        players: asList(data.players).filter(isRecord).map(p => ({ ...p, coins: p.coins || 0, lastSeenLogIndex: p.lastSeenLogIndex || 0 })),
+        quests: asList(data.quests).filter(isRecord).map(q => ({
+            ...q,
+            assignedCharacterId: q.assignedCharacterId ?? null,
+            status: q.status || 'active',
+            rewards: { coins: asRecord(q.rewards).coins || 0 },
+        })),
+        schemaVersion: 1,
+    }),
+    // 1 -> 2: Dice rolls used to be a single die with `sides`. They now store dice notation and a
+    // per-die breakdown. A single die keeps index 0, so seeded rolls still verify.
+    1: (data) => ({
+        ...data,
+        storyLog: asList(data.storyLog).map(entry => {
+            if (!isRecord(entry) || entry.type !== 'dice_roll' || entry.expression) return entry;
+            const { sides, ...rest } = entry;
+            const notation = `1d${sides}`;
+            return {
+                ...rest,
+                expression: notation,
+                terms: [{ kind: 'dice', sign: 1, notation, sides, rolls: [{ value: entry.result, kept: true }], total: entry.result }],
+            };
+        }),
+        schemaVersion: 2,
+    }),
+    // 2 -> 3: Adds the GM's pending skill check.
+    2: (data) => ({
+        ...data,
+        pendingSkillCheck: data.pendingSkillCheck || null,
+        schemaVersion: 3,
+    }),
+    // 3 -> 4: Adds typed story variables, which choice requirements can test.
+    3: (data) => ({
+        ...data,
+        variables: data.variables || [],
+        schemaVersion: 4,
+    }),
+    // 4 -> 5: Choice and skill check effects become a list of typed effects.
+    4: (data) => ({
+        ...data,
+        storyLog: asList(data.storyLog).map(entry => {
+            if (!isRecord(entry)) return entry;
+            if (entry.type === 'choice') return { ...entry, choices: asList(entry.choices).map(migrateChoiceEffects) };
+            if (entry.type === 'choice_selection') return { ...entry, choice: migrateChoiceEffects(entry.choice) };
+            return entry;
+        }),
+        pendingSkillCheck: isRecord(data.pendingSkillCheck) ? {
+            ...data.pendingSkillCheck,
+            successEffects: toEffectList(data.pendingSkillCheck.successEffects),
+            failureEffects: toEffectList(data.pendingSkillCheck.failureEffects),
+        } : null,
+        schemaVersion: 5,
+    }),
+    // 5 -> 6: Adds the authored story, an empty scene graph.
+    5: (data) => ({
+        ...data,
+        authoredStory: data.authoredStory || { startSceneId: null, protagonistId: null, scenes: [] },
+        schemaVersion: 6,
+    }),
+};
+
+export const getSchemaVersion = (data: unknown): number => {
+    const version = asRecord(data).schemaVersion;
+    return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : 0;
+};
+
+// The migrations have brought every record to the current shape, so from here on the lists are
+// taken as the types they hold.
+
+/**
+ * Fills in fields that are legitimately absent at the current version. Firebase drops empty arrays
+ * and null values, so even current data needs this on the way back in.
+ */
+const normalizeGameData = (data: RawRecord): GameData => {
+    const pendingSkillCheck = data.pendingSkillCheck;
+    const authoredStory = asRecord(data.authoredStory);
+    return {
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        title: asString(data.title, '') || INITIAL_GAME_DATA.title,
+        gmRules: asString(data.gmRules, INITIAL_GAME_DATA.gmRules),
+        assets: asList(data.assets) as GameData['assets'],
+        characters: asList(data.characters) as GameData['characters'],
+        storyLog: asList(data.storyLog) as GameData['storyLog'],
+        quests: asList(data.quests) as GameData['quests'],
+        chatLog: asList(data.chatLog) as GameData['chatLog'],
+        lobbyChatLog: asList(data.lobbyChatLog) as GameData['lobbyChatLog'],
+        lobbyMusicUrl: asStringOrNull(data.lobbyMusicUrl),
+        players: asList(data.players) as GameData['players'],
+        pendingAssetApprovals: asList(data.pendingAssetApprovals) as GameData['pendingAssetApprovals'],
+        pendingSkillCheck: isRecord(pendingSkillCheck) ? {
+            ...pendingSkillCheck,
+            successEffects: asList(pendingSkillCheck.successEffects),
+            failureEffects: asList(pendingSkillCheck.failureEffects),
+        } as GameData['pendingSkillCheck'] : null,
+        variables: asList(data.variables).filter(isRecord).map(v => ({
+            ...v,
+            value: v.value ?? (v.type === 'number' ? 0 : v.type === 'flag' ? false : ''),
+            hidden: !!v.hidden,
+        })) as GameData['variables'],
+        authoredStory: {
+            startSceneId: asStringOrNull(authoredStory.startSceneId),
+            protagonistId: asStringOrNull(authoredStory.protagonistId),
+            scenes: asList(authoredStory.scenes).filter(isRecord).map(scene => ({
+                ...scene,
+                title: asString(scene.title, ''),
+                entries: asList(scene.entries),
+                choices: asList(scene.choices).filter(isRecord).map(c => ({ ...c, targetSceneId: asStringOrNull(c.targetSceneId) })),
+                nextSceneId: asStringOrNull(scene.nextSceneId),
+            })) as GameData['authoredStory']['scenes'],
+        },
+    };
+};
+
+/**
+ * Upgrades raw game data of any known schema version to the current GameData shape.
+ * @param data Game data as loaded from Firebase, a saved session or a file.
+ * @throws SchemaVersionError if the data was written by a newer version of the app.
+ */
+export const migrateGameData = (data: unknown): GameData => {
+    let version = getSchemaVersion(data);
+    if (version > CURRENT_SCHEMA_VERSION) {
+        throw new SchemaVersionError(version);
+    }
+
+    let migrated: RawRecord = { ...asRecord(data) };
+    while (version < CURRENT_SCHEMA_VERSION) {
+        const migration = MIGRATIONS[version];
+        if (!migration) {
+            throw new Error(`No migration is defined from save format ${version}.`);
+        }
+        migrated = migration(migrated);
+        version++;
+    }
+    return normalizeGameData(migrated);
+};
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { authorizePlayerAction, PlayerActionContext } from './permissions';
+import { gameReducer } from './reducer';
+import { migrateGameData } from './migrations';
+import { resolveSkillCheck } from '../services/skillCheckService';
+import { ChoiceSelectionLogEntry, GameData, StoryEffect } from '../types';
+
+const offeredChoices = [
+    { text: 'Pay the toll', effects: [{ kind: 'coins' as const, amount: -5 }], requirements: [{ kind: 'coins' as const, min: 5 }] },
+    { text: 'Turn back', effects: [{ kind: 'background' as const, assetId: null }] },
+];
+
+const makeGame = (): GameData => migrateGameData({
+    schemaVersion: 6,
+    characters: [{ id: 'c1', name: 'Ann', status: 'active', health: 10, maxHealth: 10, spriteAssetIds: [] }],
+    players: [{ id: 'p1', name: 'Pat', coins: 10, lastSeenLogIndex: 0, authUid: 'uid-1' }],
+    storyLog: [{ type: 'choice', choices: offeredChoices }],
+});
+
+const contextFor = (gameData: GameData): PlayerActionContext => ({ senderId: 'p1', gameData, currentPlayerId: 'p1', gamePhase: 'play' });
+
+// A selection as it reaches the GM from Firebase: keys sorted and null values dropped.
+const selection = (choiceIndex: number | undefined, choice: ChoiceSelectionLogEntry['choice']): ChoiceSelectionLogEntry => ({
+    type: 'choice_selection', playerId: 'p1', characterId: 'c1', choice, ...(choiceIndex !== undefined ? { choiceIndex } : {}),
+});
+
+describe('choice selections from players', () => {
+    it('accepts an offered choice whatever shape its copy arrives in', () => {
+        const gameData = makeGame();
+        const entry = selection(1, { effects: [{ kind: 'background' } as StoryEffect], text: 'Turn back' });
+        expect(authorizePlayerAction({ type: 'ADD_LOG_ENTRY', payload: entry }, contextFor(gameData))).toEqual({ allowed: true });
+    });
+
+    it('applies the GM\'s copy of the choice, not the one sent', () => {
+        const gameData = makeGame();
+        const entry = selection(0, { text: 'Pay the toll', effects: [{ kind: 'coins', amount: 500 }] });
+        const next = gameReducer(gameData, { type: 'ADD_LOG_ENTRY', payload: entry });
+        expect(next.players[0].coins).toBe(5);
+        expect(next.storyLog[1]).toMatchObject({ type: 'choice_selection', choice: offeredChoices[0] });
+    });
+
+    it('rejects a choice that was not offered', () => {
+        const gameData = makeGame();
+        for (const choiceIndex of [undefined, 2, -1, 0.5]) {
+            const result = authorizePlayerAction({ type: 'ADD_LOG_ENTRY', payload: selection(choiceIndex, offeredChoices[0]) }, contextFor(gameData));
+            expect(result).toEqual({ allowed: false, reason: 'that choice was not offered' });
+        }
+    });
+
+    it('does not let a player write a choice with effects and pick it', () => {
+        const gameData = makeGame();
+        const rigged = { type: 'choice' as const, choices: [{ text: 'Get rich', effects: [{ kind: 'coins' as const, amount: 1000 }] }] };
+        expect(authorizePlayerAction({ type: 'ADD_LOG_ENTRY', payload: rigged }, contextFor(gameData))).toEqual({ allowed: false, reason: 'only the GM can give choices effects or requirements' });
+        const gated = { type: 'choice' as const, choices: [{ text: 'Members only', requirements: [{ kind: 'coins' as const, min: 1 }] }] };
+        expect(authorizePlayerAction({ type: 'ADD_LOG_ENTRY', payload: gated }, contextFor(gameData)).allowed).toBe(false);
+        const plain = { type: 'choice' as const, choices: [{ text: 'Go left' }, { text: 'Go right', effects: [] }] };
+        expect(authorizePlayerAction({ type: 'ADD_LOG_ENTRY', payload: plain }, contextFor(gameData))).toEqual({ allowed: true });
+    });
+
+    it('checks the requirements of the offered choice', () => {
+        const gameData = { ...makeGame(), players: [{ ...makeGame().players[0], coins: 1 }] };
+        const result = authorizePlayerAction({ type: 'ADD_LOG_ENTRY', payload: selection(0, { text: 'Pay the toll' }) }, contextFor(gameData));
+        expect(result.allowed).toBe(false);
+        expect(result.reason).toMatch(/locked/);
+    });
+});
+
+describe('skill checks from players', () => {
+    const check = { id: 'check-1', stat: 'strength' as const, dc: 1, description: 'Lift the gate', successEffects: [{ kind: 'coins' as const, amount: 2 }], failureEffects: [] };
+    const request = { type: 'REQUEST_SKILL_CHECK' as const, payload: { characterId: 'c1', playerId: 'p1' } };
+
+    it('lets the current player answer a check once the GM has called it', async () => {
+        const before = makeGame();
+        expect(authorizePlayerAction(request, contextFor(before))).toEqual({ allowed: false, reason: 'no skill check has been called for' });
+
+        // The host checks and resolves the request against the game as it is after the call.
+        const called = gameReducer(before, { type: 'SET_PENDING_SKILL_CHECK', payload: check });
+        expect(authorizePlayerAction(request, contextFor(called))).toEqual({ allowed: true });
+        const entry = await resolveSkillCheck(called.pendingSkillCheck!, called.characters[0], 'p1');
+        const answered = gameReducer(called, { type: 'ADD_LOG_ENTRY', payload: entry });
+        expect(answered.pendingSkillCheck).toBeNull();
+        expect(answered.storyLog).toContainEqual(entry);
+        expect(answered.players[0].coins).toBe(12);
+    });
+
+    it('does not let a player roll for someone else', () => {
+        const called = gameReducer(makeGame(), { type: 'SET_PENDING_SKILL_CHECK', payload: check });
+        const result = authorizePlayerAction({ ...request, payload: { ...request.payload, playerId: 'p2' } }, contextFor(called));
+        expect(result).toEqual({ allowed: false, reason: 'players can only roll checks for themselves' });
+    });
+});
+
+describe('voice clips from players', () => {
+    const line = { type: 'dialogue' as const, characterId: 'c1', text: 'Listen!', playerId: 'p1' };
+    const submission = (payload: Partial<{ line: typeof line; ownerId: string }> = {}) => ({
+        type: 'SUBMIT_ASSET_FOR_APPROVAL' as const,
+        payload: { asset: { type: 'voice' as const, url: 'data:audio/webm;base64,', name: 'listen.webm', ownerId: payload.ownerId ?? 'p1' }, characterIdToAssign: 'c1', submittingPlayerId: 'p1', line: payload.line ?? line },
+    });
+
+    it('attaches the clip to the line it was sent with, wherever that lands in the log', () => {
+        // Entries the player had not seen yet arrive at the host first.
+        const host = gameReducer(makeGame(), { type: 'ADD_LOG_ENTRY', payload: { type: 'dialogue', characterId: 'c1', text: 'Meanwhile...' } });
+        expect(authorizePlayerAction(submission(), contextFor(host))).toEqual({ allowed: true });
+        const submitted = gameReducer(host, submission());
+        const approval = submitted.pendingAssetApprovals[0];
+        const moreLines = gameReducer(submitted, { type: 'ADD_LOG_ENTRY', payload: { type: 'dialogue', characterId: 'c1', text: 'Later' } });
+
+        const approved = gameReducer(moreLines, { type: 'APPROVE_ASSET', payload: approval });
+        expect(approved.storyLog[2]).toEqual({ ...line, voiceAssetId: approval.assetId });
+        expect(approved.assets.find(a => a.id === approval.assetId)?.isPublished).toBe(true);
+        expect(approved.pendingAssetApprovals).toEqual([]);
+    });
+
+    it('keeps the line without the clip when the clip is rejected', () => {
+        const submitted = gameReducer(makeGame(), submission());
+        const rejected = gameReducer(submitted, { type: 'REJECT_ASSET', payload: submitted.pendingAssetApprovals[0] });
+        expect(rejected.storyLog[1]).toEqual(line);
+        expect(rejected.assets).toEqual([]);
+    });
+
+    it('checks the line as if it were added on its own', () => {
+        const gameData = makeGame();
+        expect(authorizePlayerAction(submission({ line: { ...line, playerId: 'p2' } }), contextFor(gameData)).reason).toBe('players can only voice their own lines');
+        expect(authorizePlayerAction(submission({ line: { ...line, characterId: 'nobody' } }), contextFor(gameData)).reason).toBe('that character is not available');
+        const { line: _, ...withoutLine } = submission().payload;
+        expect(authorizePlayerAction({ type: 'SUBMIT_ASSET_FOR_APPROVAL', payload: withoutLine }, contextFor(gameData)).reason).toBe('a voice clip must be sent with a line of dialogue');
+    });
+});
+
+describe('read progress from players', () => {
+    const markSeen = (playerId: string, count: number) => ({ type: 'MARK_LOG_SEEN' as const, payload: { playerId, count } });
+
+    it('keeps how far a player has watched, never past the log or backwards', () => {
+        const gameData = makeGame();
+        expect(authorizePlayerAction(markSeen('p1', 1), { ...contextFor(gameData), currentPlayerId: 'p2' })).toEqual({ allowed: true });
+        const seen = gameReducer(gameData, markSeen('p1', 5));
+        expect(seen.players[0].seenLogCount).toBe(1);
+        expect(gameReducer(seen, markSeen('p1', 0))).toBe(seen);
+        expect(gameReducer(seen, { type: 'RESET_STORY_LOG' }).players[0]).not.toHaveProperty('seenLogCount');
+    });
+
+    it('only lets players mark their own progress', () => {
+        expect(authorizePlayerAction(markSeen('p2', 1), contextFor(makeGame())).reason).toBe('players can only mark what they have seen themselves');
+    });
+});
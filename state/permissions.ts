@@ -0,0 +1,178 @@
+import { GameData, GamePhase, PlayerId, StoryLogEntry } from '../types';
+import { Action } from './reducer';
+import { NARRATOR_CHARACTER } from '../constants';
+import { getLockReason } from './choiceRequirements';
+import { isValidSpriteStaging } from './scene';
+import { isSceneTransition, isScreenEffect } from './transitions';
+import { MAX_DICE_SIDES } from '../services/diceService';
+import { parseDiceExpression } from '../services/diceNotation';
+
+// The GM host applies actions sent by player clients only after checking them here. Anything not
+// listed in PLAYER_ACTION_RULES is GM-only, including every journal control action.
+
+export interface PlayerActionContext {
+    senderId: PlayerId;
+    gameData: GameData;
+    currentPlayerId: PlayerId | null;
+    gamePhase: GamePhase;
+}
+
+export interface AuthorizationResult {
+    allowed: boolean;
+    reason?: string; // Set when the action is rejected. Phrased to follow "rejected because".
+}
+
+interface PlayerActionRule {
+    requiresTurn: boolean;
+    // Returns a reason to reject the action, or null if it is allowed.
+    check?: (action: Action, context: PlayerActionContext) => string | null;
+}
+
+const PLAYER_LOG_ENTRY_TYPES: ReadonlySet<StoryLogEntry['type']> = new Set<StoryLogEntry['type']>([
+    'dialogue',
+    'choice',
+    'choice_selection',
+    'background_change',
+    'sprite_change',
+    'cg_show',
+    'music_change',
+    'sound_effect',
+    'screen_effect',
+]);
+
+const isUsableCharacter = (gameData: GameData, characterId: string) =>
+    gameData.characters.some(c => c.id === characterId && c.status !== 'defeated');
+
+const checkLogEntry = (entry: StoryLogEntry, { senderId, gameData }: PlayerActionContext): string | null => {
+    if (!PLAYER_LOG_ENTRY_TYPES.has(entry.type)) {
+        return `players cannot add "${entry.type}" entries`;
+    }
+    switch (entry.type) {
+        case 'dialogue':
+            if (entry.playerId !== undefined && entry.playerId !== senderId) return 'players can only write lines as themselves';
+            // Clips are submitted for approval after the line, never attached by players directly.
+            if (entry.voiceAssetId !== undefined || entry.pendingVoiceAssetId !== undefined) return 'voice clips need the GM\'s approval';
+            return isUsableCharacter(gameData, entry.characterId) ? null : 'that character is not available';
+        case 'background_change':
+        case 'cg_show':
+            return entry.transition === undefined || isSceneTransition(entry.transition) ? null : 'that transition is not valid';
+        case 'screen_effect':
+            return isScreenEffect(entry.effect) ? null : 'that screen effect is not valid';
+        case 'sprite_change':
+            if (entry.staging && !isValidSpriteStaging(entry.staging)) return 'that sprite staging is not valid';
+            return isUsableCharacter(gameData, entry.characterId) ? null : 'that character is not available';
+        case 'choice':
+            // A choice with effects would let its writer pick it and change the story as only the GM may.
+            if (entry.choices.some(c => (c.effects || []).length > 0 || (c.requirements || []).length > 0)) return 'only the GM can give choices effects or requirements';
+            return null;
+        case 'choice_selection': {
+            if (entry.playerId !== senderId) return 'players can only choose for themselves';
+            const lastLog = gameData.storyLog[gameData.storyLog.length - 1];
+            if (lastLog?.type !== 'choice') return 'there is no choice to make';
+            // Players name the option by its place. The reducer applies the GM's own copy of it, so
+            // its effects and requirements are the ones that were offered, not ones the sender made up.
+            const offered = Number.isInteger(entry.choiceIndex) ? lastLog.choices[entry.choiceIndex!] : undefined;
+            if (!offered) return 'that choice was not offered';
+            if (entry.characterId !== NARRATOR_CHARACTER.id && !isUsableCharacter(gameData, entry.characterId)) return 'that character is not available';
+            const lockReason = getLockReason(offered, { gameData, playerId: senderId, characterId: entry.characterId });
+            return lockReason ? `that choice is locked (${lockReason})` : null;
+        }
+        default:
+            return null;
+    }
+};
+
+const PLAYER_ACTION_RULES: Partial<Record<Action['type'], PlayerActionRule>> = {
+    ADD_LOG_ENTRY: {
+        requiresTurn: true,
+        check: (action, context) => action.type === 'ADD_LOG_ENTRY' ? checkLogEntry(action.payload, context) : null,
+    },
+    REQUEST_DICE_ROLL: {
+        requiresTurn: true,
+        check: (action, { gameData }) => {
+            if (action.type !== 'REQUEST_DICE_ROLL') return null;
+            const { characterId, expression } = action.payload;
+            if (!isUsableCharacter(gameData, characterId)) return 'that character is not available';
+            try {
+                parseDiceExpression(String(expression), MAX_DICE_SIDES);
+                return null;
+            } catch (error) {
+                return 'the dice notation is invalid';
+            }
+        },
+    },
+    REQUEST_SKILL_CHECK: {
+        requiresTurn: true,
+        check: (action, { senderId, gameData }) => {
+            if (action.type !== 'REQUEST_SKILL_CHECK') return null;
+            if (action.payload.playerId !== senderId) return 'players can only roll checks for themselves';
+            if (!gameData.pendingSkillCheck) return 'no skill check has been called for';
+            if (action.payload.characterId === NARRATOR_CHARACTER.id) return 'the narrator cannot attempt checks';
+            return isUsableCharacter(gameData, action.payload.characterId) ? null : 'that character is not available';
+        },
+    },
+    SUBMIT_ASSET_FOR_APPROVAL: {
+        requiresTurn: true,
+        check: (action, context) => {
+            if (action.type !== 'SUBMIT_ASSET_FOR_APPROVAL') return null;
+            const { senderId, gameData } = context;
+            const { asset, submittingPlayerId, characterIdToAssign, line } = action.payload;
+            if (submittingPlayerId !== senderId || asset.ownerId !== senderId) return 'players can only submit assets as themselves';
+            if (asset.type === 'voice') {
+                // The clip comes with the line it reads, which is checked as if it were added on its own.
+                if (line?.type !== 'dialogue') return 'a voice clip must be sent with a line of dialogue';
+                if (line.playerId !== senderId) return 'players can only voice their own lines';
+                return checkLogEntry(line, context);
+            }
+            if (asset.type !== 'characterSprite' || line !== undefined) return 'players can only submit character sprites and voice clips';
+            if (!gameData.characters.some(c => c.id === characterIdToAssign)) return 'that character does not exist';
+            if (gameData.players.find(p => p.id === senderId)?.isWaitingForApproval) return 'an earlier submission is still waiting for approval';
+            return null;
+        },
+    },
+    ADD_CHAT_MESSAGE: {
+        requiresTurn: false,
+        check: (action, { senderId }) => action.type === 'ADD_CHAT_MESSAGE' && action.payload.senderId !== senderId ? 'players can only chat as themselves' : null,
+    },
+    MARK_LOG_SEEN: {
+        requiresTurn: false,
+        check: (action, { senderId }) => {
+            if (action.type !== 'MARK_LOG_SEEN') return null;
+            if (action.payload.playerId !== senderId) return 'players can only mark what they have seen themselves';
+            return Number.isInteger(action.payload.count) ? null : 'the count of seen entries is not valid';
+        },
+    },
+};
+
+/**
+ * Decides whether the GM should apply an action received from a player client.
+ * @param action The action the player sent.
+ * @param context Who sent it and the GM's current view of the game.
+ */
+export const authorizePlayerAction = (action: Action, context: PlayerActionContext): AuthorizationResult => {
+    const sender = context.gameData.players.find(p => p.id === context.senderId);
+    if (!sender) {
+        return { allowed: false, reason: 'the sender is not a player in this game' };
+    }
+
+    const rule = PLAYER_ACTION_RULES[action?.type];
+    if (!rule) {
+        return { allowed: false, reason: `players are not allowed to perform "${action?.type}"` };
+    }
+    if (rule.requiresTurn && (context.gamePhase !== 'play' || context.currentPlayerId !== context.senderId)) {
+        return { allowed: false, reason: "it is not their turn" };
+    }
+
+    const reason = rule.check ? rule.check(action, context) : null;
+    return reason ? { allowed: false, reason } : { allowed: true };
+};
+
+/**
+ * Checks that an END_TURN message came from the player whose turn it is.
+ */
+export const authorizeEndTurn = (context: PlayerActionContext): AuthorizationResult => {
+    if (context.gamePhase !== 'play' || context.currentPlayerId !== context.senderId) {
+        return { allowed: false, reason: "it is not their turn" };
+    }
+    return { allowed: true };
+};
@@ -0,0 +1,29 @@
+import { stripDialogueMarkup } from '../services/dialogueMarkup';
+
+// How a player likes catch-up playback to read. Kept in this browser for each player id, not in the story.
+export interface ReadingSettings {
+  textSpeed: number; // Characters per second as a line types out; 0 shows it whole.
+  autoAdvance: boolean; // Moves on from each line after a pause long enough to read it.
+}
+
+export const DEFAULT_READING_SETTINGS: ReadingSettings = { textSpeed: 40, autoAdvance: false };
+
+export const TEXT_SPEEDS: { label: string; charactersPerSecond: number }[] = [
+    { label: 'Slow', charactersPerSecond: 20 },
+    { label: 'Normal', charactersPerSecond: 40 },
+    { label: 'Fast', charactersPerSecond: 80 },
+    { label: 'Instant', charactersPerSecond: 0 },
+];
+
+export const SKIP_LINE_MS = 80; // How long each seen line stays up while skipping.
+
+const AUTO_ADVANCE_BASE_MS = 1200;
+const AUTO_ADVANCE_MS_PER_WORD = 250;
+
+/**
+ * How long auto mode waits on a line once it has fully typed out.
+ */
+export const getAutoAdvanceDelayMs = (text: string): number => {
+    const words = stripDialogueMarkup(text).split(/\s+/).filter(Boolean).length;
+    return AUTO_ADVANCE_BASE_MS + words * AUTO_ADVANCE_MS_PER_WORD;
+};
@@ -1,5 +1,9 @@
-import { GameData, StoryLogEntry, Asset, Character, Quest, ChatMessage, Player, Choice } from '../types';
-import { MAX_PLAYERS, INITIAL_GAME_DATA } from '../constants';
+import { GameData, DialogueLogEntry, StoryLogEntry, Asset, Character, Quest, ChatMessage, Player, PlayerId, SkillCheck, StoryVariable, StoryVariableValue, VariableEffect, StoryScene, AuthoredStory } from '../types';
+import { MAX_PLAYERS } from '../constants';
+import { getUnmetRequirements } from './choiceRequirements';
+import { applyVariableEffect } from './variables';
+import { applyStoryEffects, updateQuestStatus } from './effects';
+import { removeScene } from './authoredStory';
 
 export type Action =
   | { type: 'UPDATE_TITLE', payload: string }
@@ -11,6 +15,25 @@ export type Action =
   | { type: 'UPDATE_CHARACTER'; payload: Character }
   | { type: 'DELETE_CHARACTER'; payload: { id: string } }
   | { type: 'ADD_LOG_ENTRY'; payload: StoryLogEntry }
+  // Attaches a recorded reading to a line of dialogue, replacing any earlier one. A null clip removes it.
+  | { type: 'SET_VOICE_CLIP'; payload: { logIndex: number; clip: { url: string; name: string } | null } }
+  // An intent only: App resolves it on the GM host into a 'dice_roll' ADD_LOG_ENTRY before it reaches this reducer.
+  | { type: 'REQUEST_DICE_ROLL'; payload: { characterId: string; expression: string } }
+  // Also an intent: resolved on the GM host into a 'skill_check' ADD_LOG_ENTRY against the pending check.
+  | { type: 'REQUEST_SKILL_CHECK'; payload: { characterId: string; playerId: PlayerId } }
+  | { type: 'SET_PENDING_SKILL_CHECK'; payload: SkillCheck | null }
+  // Creates or replaces a variable, including its type and visibility, without logging it.
+  | { type: 'DEFINE_VARIABLE'; payload: StoryVariable }
+  | { type: 'DELETE_VARIABLE'; payload: { name: string } }
+  | { type: 'SET_VARIABLE'; payload: { name: string; value: StoryVariableValue } }
+  | { type: 'INCREMENT_VARIABLE'; payload: { name: string; amount: number } }
+  | { type: 'TOGGLE_VARIABLE'; payload: { name: string } }
+  | { type: 'SET_AUTHORED_STORY'; payload: AuthoredStory }
+  | { type: 'ADD_STORY_SCENE'; payload: { title: string } }
+  | { type: 'UPDATE_STORY_SCENE'; payload: StoryScene }
+  | { type: 'DELETE_STORY_SCENE'; payload: { id: string } }
+  | { type: 'SET_STORY_START'; payload: { sceneId: string | null } }
+  | { type: 'SET_STORY_PROTAGONIST'; payload: { characterId: string | null } }
   | { type: 'RESET_STORY_LOG' }
   | { type: 'BATCH_ADD_DATA'; payload: { characters: Character[], assets: Asset[] } }
   | { type: 'BATCH_ADD_ASSETS'; payload: Omit<Asset, 'id'>[] }
@@ -22,12 +45,18 @@ export type Action =
   | { type: 'SET_GAME_DATA'; payload: GameData }
   | { type: 'ADD_PLAYER'; payload: Player }
   | { type: 'UPDATE_PLAYER'; payload: Player }
+  // Records how far the player has watched, so lines they have already seen can be skipped later.
+  | { type: 'MARK_LOG_SEEN'; payload: { playerId: PlayerId; count: number } }
   | { type: 'REMOVE_PLAYER'; payload: { id: string } }
   | { type: 'SET_PLAYERS'; payload: Player[] }
-  | { type: 'SUBMIT_ASSET_FOR_APPROVAL', payload: { asset: Omit<Asset, 'id' | 'isPublished'>, characterIdToAssign: string, submittingPlayerId: string } }
+  // A sprite for a character, or, with a line, a voice clip sent in with one of the player's lines.
+  | { type: 'SUBMIT_ASSET_FOR_APPROVAL', payload: { asset: Omit<Asset, 'id' | 'isPublished'>, characterIdToAssign: string, submittingPlayerId: string, line?: DialogueLogEntry } }
   | { type: 'APPROVE_ASSET', payload: GameData['pendingAssetApprovals'][0] }
   | { type: 'REJECT_ASSET', payload: GameData['pendingAssetApprovals'][0] };
 
+// The line a voice clip waiting for approval was sent in with, or -1 once the line is gone.
+const findPendingVoiceLine = (state: GameData, assetId: string): number =>
+    state.storyLog.findIndex(e => e.type === 'dialogue' && e.pendingVoiceAssetId === assetId);
 
 export const gameReducer = (state: GameData, action: Action): GameData => {
   switch (action.type) {
@@ -103,69 +132,132 @@ export const gameReducer = (state: GameData, action: Action): GameData => {
             characters: state.characters.filter(c => c.id !== action.payload.id)
         }
     case 'ADD_LOG_ENTRY': {
-        if (action.payload.type !== 'choice_selection' || !action.payload.choice.effects) {
-             return {
-                ...state,
-                storyLog: [...state.storyLog, action.payload],
-             };
+        let entry = action.payload;
+        if (entry.type === 'skill_check') {
+            // The outcome's effects come from the GM's pending check, never from the entry itself.
+            const check = state.pendingSkillCheck;
+            if (!check || check.id !== entry.checkId) return state;
+            const { state: next, logEntries } = applyStoryEffects(state, entry.success ? check.successEffects : check.failureEffects, entry.playerId);
+            return {
+                ...next,
+                pendingSkillCheck: null,
+                storyLog: [...state.storyLog, entry, ...logEntries]
+            };
         }
 
-        const { choice, playerId } = action.payload;
-        const { effects } = choice;
-        
-        let newPlayers = [...state.players];
-        let newCharacters = [...state.characters];
-        const newLogEntries: StoryLogEntry[] = [action.payload];
-        
-        const playerIndex = newPlayers.findIndex(p => p.id === playerId);
-        if (playerIndex !== -1 && effects.coins) {
-            const player = { ...newPlayers[playerIndex] };
-            player.coins = (player.coins || 0) + effects.coins;
-            newPlayers[playerIndex] = player;
-            newLogEntries.push({
-                type: 'stat_change',
-                text: `${player.name} ${effects.coins > 0 ? 'gained' : 'lost'} ${Math.abs(effects.coins)} coins.`
-            });
+        if (entry.type === 'choice_selection' && entry.choiceIndex !== undefined) {
+            // The chosen option is taken from the choice entry it answers, which is the copy the
+            // requirements and effects were offered in.
+            const lastLog = state.storyLog[state.storyLog.length - 1];
+            const offered = lastLog?.type === 'choice' ? lastLog.choices[entry.choiceIndex] : undefined;
+            if (!offered) return state;
+            entry = { ...entry, choice: offered };
         }
-        
-        const targetCharIndex = newCharacters.findIndex(c => c.id === effects.targetCharacterId);
-        if (targetCharIndex !== -1) {
-            const targetChar = { ...newCharacters[targetCharIndex] };
-            let updated = false;
-
-            if (effects.hp) {
-                const oldHp = targetChar.health;
-                const oldStatus = targetChar.status;
-                targetChar.health = Math.max(0, oldHp + effects.hp);
-                 newLogEntries.push({
-                    type: 'stat_change',
-                    text: `${targetChar.name} ${effects.hp > 0 ? 'gained' : 'lost'} ${Math.abs(effects.hp)} HP. (${targetChar.health}/${targetChar.maxHealth})`
-                });
-                updated = true;
 
-                if (targetChar.health <= 0 && oldStatus === 'active') {
-                    targetChar.status = 'defeated';
-                    newLogEntries.push({ type: 'stat_change', text: `${targetChar.name} has been defeated!`});
-                    newLogEntries.push({ type: 'sprite_change', characterId: targetChar.id, assetId: null });
-                }
-            }
+        if (entry.type === 'choice_selection' && getUnmetRequirements(entry.choice, { gameData: state, playerId: entry.playerId, characterId: entry.characterId }).length > 0) {
+            return state;
+        }
 
-            if(updated) {
-                 newCharacters[targetCharIndex] = targetChar;
-            }
+        if (entry.type !== 'choice_selection' || !entry.choice.effects?.length) {
+             return {
+                ...state,
+                storyLog: [...state.storyLog, entry],
+             };
         }
-        
+
+        const { state: next, logEntries } = applyStoryEffects(state, entry.choice.effects, entry.playerId);
+        return {
+            ...next,
+            storyLog: [...state.storyLog, entry, ...logEntries]
+        };
+    }
+    case 'SET_PENDING_SKILL_CHECK':
         return {
             ...state,
-            players: newPlayers,
-            characters: newCharacters,
-            storyLog: [...state.storyLog, ...newLogEntries]
+            pendingSkillCheck: action.payload,
+        };
+    case 'DEFINE_VARIABLE': {
+        const variable = action.payload;
+        const variables = state.variables || [];
+        return {
+            ...state,
+            variables: variables.some(v => v.name === variable.name)
+                ? variables.map(v => v.name === variable.name ? variable : v)
+                : [...variables, variable],
+        };
+    }
+    case 'DELETE_VARIABLE':
+        return {
+            ...state,
+            variables: (state.variables || []).filter(v => v.name !== action.payload.name),
+        };
+    case 'SET_VARIABLE':
+    case 'INCREMENT_VARIABLE':
+    case 'TOGGLE_VARIABLE': {
+        const effect: VariableEffect = action.type === 'SET_VARIABLE' ? { op: 'set', ...action.payload }
+            : action.type === 'INCREMENT_VARIABLE' ? { op: 'increment', ...action.payload }
+            : { op: 'toggle', ...action.payload };
+        const result = applyVariableEffect(state.variables || [], effect);
+        if (!result) return state;
+        return {
+            ...state,
+            variables: result.variables,
+            storyLog: [...state.storyLog, result.logEntry],
+        };
+    }
+    case 'SET_AUTHORED_STORY':
+        return {
+            ...state,
+            authoredStory: action.payload,
+        };
+    case 'ADD_STORY_SCENE': {
+        const story = state.authoredStory;
+        const scene: StoryScene = { id: `scene-${Date.now()}`, title: action.payload.title, entries: [], choices: [], nextSceneId: null };
+        return {
+            ...state,
+            // The first scene written is where the story starts until the author picks another.
+            authoredStory: { ...story, startSceneId: story.startSceneId || scene.id, scenes: [...story.scenes, scene] },
+        };
+    }
+    case 'UPDATE_STORY_SCENE':
+        return {
+            ...state,
+            authoredStory: { ...state.authoredStory, scenes: state.authoredStory.scenes.map(s => s.id === action.payload.id ? action.payload : s) },
+        };
+    case 'DELETE_STORY_SCENE':
+        return {
+            ...state,
+            authoredStory: removeScene(state.authoredStory, action.payload.id),
+        };
+    case 'SET_STORY_START':
+        return {
+            ...state,
+            authoredStory: { ...state.authoredStory, startSceneId: action.payload.sceneId },
+        };
+    case 'SET_STORY_PROTAGONIST':
+        return {
+            ...state,
+            authoredStory: { ...state.authoredStory, protagonistId: action.payload.characterId },
+        };
+    case 'SET_VOICE_CLIP': {
+        const { logIndex, clip } = action.payload;
+        const entry = state.storyLog[logIndex];
+        if (entry?.type !== 'dialogue') return state;
+        const { voiceAssetId: previousAssetId, ...line } = entry;
+        const newAsset: Asset | null = clip ? { id: `asset-${Date.now()}`, type: 'voice', isPublished: true, ...clip } : null;
+        return {
+            ...state,
+            // A clip belongs to its one line, so the one it replaces goes too.
+            assets: [...state.assets.filter(a => a.id !== previousAssetId), ...(newAsset ? [newAsset] : [])],
+            storyLog: state.storyLog.map((e, i) => i === logIndex ? (newAsset ? { ...line, voiceAssetId: newAsset.id } : line) : e),
         };
     }
     case 'RESET_STORY_LOG':
         return {
             ...state,
-            storyLog: []
+            storyLog: [],
+            // Nothing in the new log has been seen yet.
+            players: state.players.map(({ seenLogCount, ...p }) => p),
         }
     case 'BATCH_ADD_DATA':
         return {
@@ -189,26 +281,14 @@ export const gameReducer = (state: GameData, action: Action): GameData => {
         quests: [...state.quests, { id: `quest-${Date.now()}`, status: 'active', ...action.payload }],
       };
     case 'UPDATE_QUEST': {
-        const questToUpdate = state.quests.find(q => q.id === action.payload.id);
-        if (!questToUpdate || questToUpdate.status === action.payload.status) {
+        const result = updateQuestStatus(state, action.payload.id, action.payload.status);
+        if (!result) {
             return state;
         }
-
-        const updatedQuests = state.quests.map(q => q.id === action.payload.id ? { ...q, status: action.payload.status } : q);
-        const logEntries: StoryLogEntry[] = [];
-
-        if (action.payload.status === 'completed') {
-            const { rewards, title } = questToUpdate;
-            logEntries.push({type: 'quest_status', text: `Quest Completed: ${title}`});
-            if (rewards.coins > 0) {
-                 logEntries.push({type: 'stat_change', text: `Party received a reward of ${rewards.coins} coins. The GM will distribute them.`});
-            }
-        }
-        
         return {
             ...state,
-            quests: updatedQuests,
-            storyLog: [...state.storyLog, ...logEntries]
+            quests: result.quests,
+            storyLog: [...state.storyLog, ...result.logEntries]
         };
     }
     case 'ADD_CHAT_MESSAGE':
@@ -234,6 +314,13 @@ export const gameReducer = (state: GameData, action: Action): GameData => {
     case 'UPDATE_PLAYER': {
         return { ...state, players: state.players.map(p => p.id === action.payload.id ? action.payload : p) };
     }
+    case 'MARK_LOG_SEEN': {
+        const { playerId, count } = action.payload;
+        const player = state.players.find(p => p.id === playerId);
+        const seenLogCount = Math.min(count, state.storyLog.length);
+        if (!player || seenLogCount <= (player.seenLogCount || 0)) return state;
+        return { ...state, players: state.players.map(p => p.id === playerId ? { ...p, seenLogCount } : p) };
+    }
     case 'REMOVE_PLAYER': {
         return { ...state, players: state.players.filter(p => p.id !== action.payload.id) };
     }
@@ -243,18 +330,37 @@ export const gameReducer = (state: GameData, action: Action): GameData => {
         return { ...state, players: playersWithCoins };
     }
     case 'SUBMIT_ASSET_FOR_APPROVAL': {
-        const { asset, characterIdToAssign, submittingPlayerId } = action.payload;
+        const { asset, characterIdToAssign, submittingPlayerId, line } = action.payload;
         const newAsset = { id: `asset-${Date.now()}`, isPublished: false, ...asset };
         const newApproval = { assetId: newAsset.id, characterIdToAssign, submittingPlayerId };
         return {
             ...state,
             assets: [...state.assets, newAsset],
             pendingAssetApprovals: [...state.pendingAssetApprovals, newApproval],
-            players: state.players.map(p => p.id === submittingPlayerId ? {...p, isWaitingForApproval: true} : p)
+            // A voice clip arrives with its line, which goes into the log now and carries the clip
+            // until it is approved, wherever the line ends up. Players wait on a new sprite before they go on.
+            storyLog: line ? [...state.storyLog, { ...line, pendingVoiceAssetId: newAsset.id }] : state.storyLog,
+            players: line ? state.players : state.players.map(p => p.id === submittingPlayerId ? {...p, isWaitingForApproval: true} : p)
         }
     }
     case 'APPROVE_ASSET': {
         const { assetId, characterIdToAssign, submittingPlayerId } = action.payload;
+
+        if (state.assets.find(a => a.id === assetId)?.type === 'voice') {
+            const withoutApproval = { ...state, pendingAssetApprovals: state.pendingAssetApprovals.filter(p => p.assetId !== assetId) };
+            const lineIndex = findPendingVoiceLine(state, assetId);
+            if (lineIndex === -1) {
+                return { ...withoutApproval, assets: state.assets.filter(a => a.id !== assetId) };
+            }
+            const { pendingVoiceAssetId, ...line } = state.storyLog[lineIndex] as DialogueLogEntry;
+            return {
+                ...withoutApproval,
+                assets: state.assets
+                    .filter(a => a.id !== line.voiceAssetId)
+                    .map(a => a.id === assetId ? {...a, isPublished: true} : a),
+                storyLog: state.storyLog.map((e, i) => i === lineIndex ? { ...line, voiceAssetId: assetId } : e),
+            };
+        }
         
         const characterIndex = state.characters.findIndex(c => c.id === characterIdToAssign);
         if (characterIndex === -1) return state;
@@ -274,30 +380,25 @@ export const gameReducer = (state: GameData, action: Action): GameData => {
     }
     case 'REJECT_ASSET': {
         const { assetId, submittingPlayerId } = action.payload;
+        const isVoiceClip = state.assets.find(a => a.id === assetId)?.type === 'voice';
+        const lineIndex = findPendingVoiceLine(state, assetId);
         return {
             ...state,
             assets: state.assets.filter(a => a.id !== assetId),
             pendingAssetApprovals: state.pendingAssetApprovals.filter(p => p.assetId !== assetId),
-            players: state.players.map(p => p.id === submittingPlayerId ? {...p, isWaitingForApproval: false} : p)
+            // The line stays, without the clip.
+            storyLog: lineIndex === -1 ? state.storyLog : state.storyLog.map((e, i) => {
+                if (i !== lineIndex) return e;
+                const { pendingVoiceAssetId, ...line } = e as DialogueLogEntry;
+                return line;
+            }),
+            players: isVoiceClip ? state.players : state.players.map(p => p.id === submittingPlayerId ? {...p, isWaitingForApproval: false} : p)
         }
     }
     case 'SET_GAME_DATA': {
-        const payload = action.payload;
         // This action replaces the entire game state, useful for rejoining or loading a game.
-        // It ensures all properties are present and correctly typed, falling back to defaults only if missing.
-        return {
-            title: payload.title || INITIAL_GAME_DATA.title,
-            gmRules: payload.gmRules ?? INITIAL_GAME_DATA.gmRules,
-            assets: payload.assets || [],
-            characters: payload.characters || [],
-            storyLog: payload.storyLog || [],
-            quests: payload.quests || [],
-            chatLog: payload.chatLog || [],
-            lobbyChatLog: payload.lobbyChatLog || [],
-            lobbyMusicUrl: payload.lobbyMusicUrl || null,
-            players: payload.players || [],
-            pendingAssetApprovals: payload.pendingAssetApprovals || [],
-        };
+        // Loaded data must already be upgraded with migrateGameData, where a failure can be shown.
+        return action.payload;
     }
     default:
       return state;
@@ -0,0 +1,94 @@
+import { StoryLogEntry, SpriteStaging, StagePosition, SceneTransition } from '../types';
+
+// What the Visuals show at a point in the story. GameView and the reader build it by replaying the
+// story log through reduceScene, and the exports that replay a story use the same rules.
+
+export interface StagedSprite {
+  assetId: string;
+  staging?: SpriteStaging; // Absent for sprites shown before staging existed.
+}
+
+export interface SceneState {
+  backgroundAssetId: string | null;
+  backgroundTransition: SceneTransition; // How the background came in.
+  cgAssetId: string | null;
+  cgTransition: SceneTransition;
+  sprites: { [characterId: string]: StagedSprite | null };
+  musicAssetId: string | null; // The background music playing. Sound effects are not part of the scene.
+  dialogue: { characterName: string; text: string } | null;
+}
+
+export const EMPTY_SCENE: SceneState = { backgroundAssetId: null, backgroundTransition: 'cut', cgAssetId: null, cgTransition: 'cut', sprites: {}, musicAssetId: null, dialogue: null };
+
+export const STAGE_POSITIONS: Record<StagePosition, number> = { left: 0.2, center: 0.5, right: 0.8 };
+export const DEFAULT_SPRITE_STAGING: SpriteStaging = { position: 'center', flipped: false, scale: 1, layer: 0 };
+export const SPRITE_SCALE_RANGE = { min: 0.5, max: 1.5 };
+export const MAX_SPRITE_LAYER = 9; // CGs are drawn over every layer.
+const SPRITE_HEIGHT = 0.8; // Of the stage, at scale 1.
+
+export const getStageX = (position: SpriteStaging['position']): number =>
+    typeof position === 'number' ? position : STAGE_POSITIONS[position];
+
+export const isValidSpriteStaging = (staging: SpriteStaging): boolean => {
+    const { position, flipped, scale, layer } = staging;
+    const isValidPosition = typeof position === 'number'
+        ? position >= 0 && position <= 1
+        : Object.hasOwn(STAGE_POSITIONS, position);
+    return isValidPosition
+        && typeof flipped === 'boolean'
+        && typeof scale === 'number' && scale >= SPRITE_SCALE_RANGE.min && scale <= SPRITE_SCALE_RANGE.max
+        && Number.isInteger(layer) && layer >= 0 && layer <= MAX_SPRITE_LAYER;
+};
+
+// A sprite as drawn: x is its centre and height its size, both as fractions of the stage. Sprites
+// stand on the bottom edge.
+export interface SpriteLayout {
+  characterId: string;
+  assetId: string;
+  x: number;
+  height: number;
+  flipped: boolean;
+}
+
+/**
+ * Places the sprites on stage, back to front. Sprites without staging are spaced evenly across
+ * the stage, the way they were lined up before staging existed.
+ */
+export const layoutSprites = (sprites: SceneState['sprites']): SpriteLayout[] => {
+    const onStage = Object.entries(sprites).filter((entry): entry is [string, StagedSprite] => !!entry[1]);
+    const unstaged = onStage.filter(([, sprite]) => !sprite.staging).map(([characterId]) => characterId);
+    return onStage
+        .map(([characterId, sprite], order) => {
+            const staging = sprite.staging
+                || { ...DEFAULT_SPRITE_STAGING, position: (unstaged.indexOf(characterId) + 1) / (unstaged.length + 1) };
+            return {
+                layout: { characterId, assetId: sprite.assetId, x: getStageX(staging.position), height: SPRITE_HEIGHT * staging.scale, flipped: staging.flipped },
+                layer: staging.layer,
+                order,
+            };
+        })
+        .sort((a, b) => a.layer - b.layer || a.order - b.order)
+        .map(({ layout }) => layout);
+};
+
+// Applies a log entry's scene change. Dialogue is handled by playback, which decides what to show.
+export const reduceScene = (log: StoryLogEntry, currentScene: SceneState): SceneState => {
+    const newScene: SceneState = { ...currentScene, sprites: {...currentScene.sprites} };
+    switch (log.type) {
+        case 'background_change':
+            newScene.backgroundAssetId = log.assetId;
+            newScene.backgroundTransition = log.transition || 'cut';
+            break;
+        case 'sprite_change':
+            newScene.sprites[log.characterId] = log.assetId
+                ? { assetId: log.assetId, ...(log.staging ? { staging: log.staging } : {}) }
+                : null;
+            break;
+        case 'cg_show':
+            newScene.cgAssetId = log.assetId;
+            newScene.cgTransition = log.transition || 'cut';
+            break;
+        case 'music_change': newScene.musicAssetId = log.assetId; break;
+    }
+    return newScene;
+};
@@ -0,0 +1,103 @@
+import { SceneTransition, ScreenEffect } from '../types';
+
+// The timing of scene transitions and screen effects. The Visuals and the video export both draw
+// them from these frames, so a video shows each one exactly as it played in the game.
+
+export const TRANSITION_MS: Record<SceneTransition, number> = { cut: 0, fade: 800, dissolve: 800, wipe: 800, fade_to_black: 1200 };
+export const SCREEN_EFFECT_MS: Record<ScreenEffect, number> = { shake: 500, flash: 400, zoom_punch: 400 };
+
+export const TRANSITION_LABELS: Record<SceneTransition, string> = {
+    cut: 'Cut',
+    fade: 'Fade',
+    dissolve: 'Dissolve',
+    wipe: 'Wipe',
+    fade_to_black: 'Fade to Black',
+};
+
+export const SCREEN_EFFECT_LABELS: Record<ScreenEffect, string> = {
+    shake: 'Screen Shake',
+    flash: 'Flash',
+    zoom_punch: 'Zoom Punch',
+};
+
+export const isSceneTransition = (value: unknown): value is SceneTransition =>
+    typeof value === 'string' && Object.hasOwn(TRANSITION_MS, value);
+
+export const isScreenEffect = (value: unknown): value is ScreenEffect =>
+    typeof value === 'string' && Object.hasOwn(SCREEN_EFFECT_MS, value);
+
+// A background or CG partway through replacing the one before it.
+export interface TransitionFrame {
+    outgoingOpacity: number;
+    incomingOpacity: number;
+    incomingReveal: number; // How much of the incoming image is shown, from the left edge.
+    blackOpacity: number; // A black screen over the whole scene.
+}
+
+/**
+ * How a transition looks some time after it started, or null once it has finished.
+ */
+export const getTransitionFrame = (transition: SceneTransition, elapsedMs: number): TransitionFrame | null => {
+    const durationMs = TRANSITION_MS[transition] || 0;
+    if (elapsedMs >= durationMs) return null;
+    const progress = Math.max(0, elapsedMs) / durationMs;
+    switch (transition) {
+        case 'fade': // Out through whatever is behind, then in.
+            return { outgoingOpacity: Math.max(0, 1 - progress * 2), incomingOpacity: Math.max(0, progress * 2 - 1), incomingReveal: 1, blackOpacity: 0 };
+        case 'dissolve':
+            return { outgoingOpacity: 1, incomingOpacity: progress, incomingReveal: 1, blackOpacity: 0 };
+        case 'wipe':
+            return { outgoingOpacity: 1, incomingOpacity: 1, incomingReveal: progress, blackOpacity: 0 };
+        case 'fade_to_black': // The image swaps while the screen is black.
+            return progress < 0.5
+                ? { outgoingOpacity: 1, incomingOpacity: 0, incomingReveal: 1, blackOpacity: progress * 2 }
+                : { outgoingOpacity: 0, incomingOpacity: 1, incomingReveal: 1, blackOpacity: 2 - progress * 2 };
+        default:
+            return null;
+    }
+};
+
+// The camera partway through screen effects. Offsets are fractions of the stage's width and height.
+export interface ScreenEffectFrame {
+    offsetX: number;
+    offsetY: number;
+    zoom: number;
+    flashOpacity: number; // A white screen over the whole scene.
+}
+
+export const NO_SCREEN_EFFECT: ScreenEffectFrame = { offsetX: 0, offsetY: 0, zoom: 1, flashOpacity: 0 };
+
+const SHAKE_AMPLITUDE = 0.02;
+const ZOOM_PUNCH_AMOUNT = 0.12;
+const ZOOM_PUNCH_ATTACK = 0.25; // The share of the effect spent zooming in; the rest eases back out.
+
+/**
+ * The camera some time after a set of screen effects started together, or null once they have all
+ * finished.
+ */
+export const getScreenEffectFrame = (effects: ScreenEffect[], elapsedMs: number): ScreenEffectFrame | null => {
+    let frame: ScreenEffectFrame | null = null;
+    for (const effect of effects) {
+        const durationMs = SCREEN_EFFECT_MS[effect];
+        if (!durationMs || elapsedMs >= durationMs) continue;
+        const progress = Math.max(0, elapsedMs) / durationMs;
+        frame = frame || { ...NO_SCREEN_EFFECT };
+        switch (effect) {
+            case 'shake': {
+                const amplitude = SHAKE_AMPLITUDE * (1 - progress);
+                frame.offsetX += amplitude * Math.sin(progress * Math.PI * 12);
+                frame.offsetY += amplitude * 0.5 * Math.cos(progress * Math.PI * 10);
+                break;
+            }
+            case 'flash':
+                frame.flashOpacity = Math.max(frame.flashOpacity, (1 - progress) ** 2);
+                break;
+            case 'zoom_punch':
+                frame.zoom *= 1 + ZOOM_PUNCH_AMOUNT * (progress < ZOOM_PUNCH_ATTACK
+                    ? progress / ZOOM_PUNCH_ATTACK
+                    : 1 - (progress - ZOOM_PUNCH_ATTACK) / (1 - ZOOM_PUNCH_ATTACK));
+                break;
+        }
+    }
+    return frame;
+};
@@ -0,0 +1,85 @@
+import { StatChangeLogEntry, StoryVariable, StoryVariableValue, VariableEffect } from '../types';
+
+// Story variables are written by GM actions and by choice and skill check effects. All of them go
+// through applyVariableEffect, so every change is recorded the same way in a 'stat_change' entry.
+
+export const VARIABLE_TYPE_LABELS: Record<StoryVariable['type'], string> = {
+    flag: 'Flag',
+    number: 'Number',
+    text: 'Text',
+};
+
+export const variableTypeOf = (value: StoryVariableValue): StoryVariable['type'] =>
+    typeof value === 'boolean' ? 'flag' : typeof value === 'number' ? 'number' : 'text';
+
+export const formatVariableValue = (value: StoryVariableValue): string =>
+    typeof value === 'string' ? `"${value}"` : String(value);
+
+/**
+ * Reads a value typed into a text box. Uses the type of the existing variable when there is one,
+ * otherwise "true"/"false" become flags and numerals become numbers.
+ */
+export const parseVariableValue = (text: string, type?: StoryVariable['type']): StoryVariableValue => {
+    const trimmed = text.trim();
+    const asType = type || (/^(true|false)$/i.test(trimmed) ? 'flag' : trimmed !== '' && !isNaN(Number(trimmed)) ? 'number' : 'text');
+    if (asType === 'flag') return /^(true|yes|1)$/i.test(trimmed);
+    if (asType === 'number') return Number(trimmed) || 0;
+    return text;
+};
+
+/**
+ * Whether a variable counts as set for flag requirements: a true flag, a non-zero number or
+ * non-empty text.
+ */
+export const isVariableSet = (variables: StoryVariable[], name: string): boolean =>
+    Boolean(variables.find(v => v.name === name)?.value);
+
+const describeChange = (name: string, from: StoryVariableValue | undefined, to: StoryVariableValue): string => {
+    if (typeof from === 'number' && typeof to === 'number') {
+        return `"${name}" ${to >= from ? 'increased' : 'decreased'} by ${Math.abs(to - from)} (now ${to}).`;
+    }
+    return `"${name}" is now ${formatVariableValue(to)}.`;
+};
+
+/**
+ * Applies one set, increment or toggle to the variable store. A variable that does not exist yet
+ * is created, visible, with the type of its first value. Effects that do not fit the variable's
+ * type, like incrementing a flag, are ignored.
+ * @returns The new variables and the log entry recording the change, or null if nothing changed.
+ */
+export const applyVariableEffect = (variables: StoryVariable[], effect: VariableEffect): { variables: StoryVariable[]; logEntry: StatChangeLogEntry } | null => {
+    const name = effect.name?.trim();
+    if (!name) return null;
+    const existing = variables.find(v => v.name === name);
+
+    let to: StoryVariableValue;
+    switch (effect.op) {
+        case 'set':
+            if (existing && existing.type !== variableTypeOf(effect.value)) return null;
+            to = effect.value;
+            break;
+        case 'increment':
+            if (existing && existing.type !== 'number') return null;
+            to = ((existing?.value as number) || 0) + effect.amount;
+            break;
+        case 'toggle':
+            if (existing && existing.type !== 'flag') return null;
+            to = !existing?.value;
+            break;
+        default:
+            return null;
+    }
+    if (existing && existing.value === to) return null;
+
+    const hidden = existing?.hidden ?? false;
+    const updated = { name, type: variableTypeOf(to), value: to, hidden } as StoryVariable;
+    // Firebase rejects undefined values, so `from` is only set when the variable existed.
+    return {
+        variables: existing ? variables.map(v => v.name === name ? updated : v) : [...variables, updated],
+        logEntry: {
+            type: 'stat_change',
+            text: describeChange(name, existing?.value, to),
+            variableChange: { name, ...(existing ? { from: existing.value } : {}), to, hidden },
+        },
+    };
+};
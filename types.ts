@@ -6,11 +6,19 @@ export interface Player {
   id: PlayerId;
   name: string;
   lastSeenLogIndex: number;
+  seenLogCount?: number; // Story log entries before this have been played back to the player. Absent until they have watched any.
   isWaitingForApproval?: boolean;
   coins: number;
+  inventory?: InventoryItem[]; // Absent until the player is given an item.
+  authUid?: string; // The Firebase account an online player joined from. The GM only accepts their messages from it.
 }
 
-export type AssetType = 'background' | 'characterSprite' | 'cg';
+export interface InventoryItem {
+  name: string;
+  quantity: number;
+}
+
+export type AssetType = 'background' | 'characterSprite' | 'cg' | 'music' | 'sfx' | 'voice';
 
 export interface Asset {
   id: string;
@@ -21,7 +29,7 @@ export interface Asset {
   ownerId?: PlayerId;
 }
 
-export type QuestStatus = 'active' | 'completed';
+export type QuestStatus = 'active' | 'completed' | 'failed';
 
 export interface Quest {
   id:string;
@@ -43,6 +51,16 @@ export interface CharacterStats {
     charisma: number;
 }
 
+export type StatName = keyof CharacterStats;
+
+// How text-to-speech reads a character's lines. Voices are the browser's, matched by name; where
+// the named voice is missing, the browser's default voice is used.
+export interface CharacterVoice {
+    voiceName?: string; // Absent for the default voice.
+    rate: number; // 0.5 to 2, 1 is normal speed.
+    pitch: number; // 0 to 2, 1 is normal pitch.
+}
+
 export interface Character {
   id: string;
   name: string;
@@ -52,21 +70,55 @@ export interface Character {
   maxHealth: number;
   status: 'active' | 'defeated';
   stats: CharacterStats;
+  ttsVoice?: CharacterVoice; // Absent until a voice is picked.
 }
 
 export interface DialogueLogEntry {
   type: 'dialogue';
   characterId: string;
   text: string;
+  playerId?: PlayerId; // The player who wrote the line. Absent for the GM's lines and older logs.
+  voiceAssetId?: string; // A recorded reading of the line.
+  pendingVoiceAssetId?: string; // A reading sent in with the line, waiting on the GM's approval.
 }
 
+export type StoryVariableValue = boolean | number | string;
+
+// A narrative fact the story remembers, e.g. "met_the_king" or "trust". Hidden variables are only
+// shown to the GM.
+export type StoryVariable =
+  | { name: string; type: 'flag'; value: boolean; hidden: boolean }
+  | { name: string; type: 'number'; value: number; hidden: boolean }
+  | { name: string; type: 'text'; value: string; hidden: boolean };
+
+export type VariableEffect =
+  | { op: 'set'; name: string; value: StoryVariableValue }
+  | { op: 'increment'; name: string; amount: number }
+  | { op: 'toggle'; name: string };
+
+// One consequence of a choice or a skill check outcome. Coins and items go to the player who made
+// the choice or rolled the check. Positive amounts heal or raise, negative ones damage or lower.
+export type StoryEffect =
+  | { kind: 'coins'; amount: number }
+  | { kind: 'hp'; characterIds: string[]; amount: number }
+  | { kind: 'stat'; characterIds: string[]; stat: StatName; amount: number }
+  | { kind: 'item'; name: string; quantity: number } // A negative quantity removes the item.
+  | { kind: 'quest'; questId: string; status: QuestStatus }
+  | { kind: 'background'; assetId: string | null }
+  | { kind: 'variable'; change: VariableEffect };
+
+// A condition a choice needs before it can be picked. Stat requirements apply to the character the
+// choosing player is acting as; coin requirements to the player.
+export type ChoiceRequirement =
+  | { kind: 'coins'; min: number }
+  | { kind: 'stat'; stat: StatName; min: number }
+  | { kind: 'quest'; questId: string; status: QuestStatus }
+  | { kind: 'flag'; flag: string; isSet: boolean };
+
 export interface Choice {
   text: string;
-  effects?: {
-    coins?: number;
-    hp?: number;
-    targetCharacterId?: string;
-  };
+  effects?: StoryEffect[];
+  requirements?: ChoiceRequirement[];
 }
 
 export interface ChoiceLogEntry {
@@ -79,29 +131,102 @@ export interface ChoiceSelectionLogEntry {
   playerId: PlayerId;
   characterId: string;
   choice: Choice;
+  choiceIndex?: number; // The option's place in the choice entry just before. Absent from the reader's entries and older ones.
 }
 
+// How a new background or CG replaces the old one. Entries without one cut straight to it.
+export type SceneTransition = 'cut' | 'fade' | 'dissolve' | 'wipe' | 'fade_to_black';
+
 export interface BackgroundChangeLogEntry {
   type: 'background_change';
   assetId: string | null;
+  transition?: SceneTransition;
+}
+
+export type StagePosition = 'left' | 'center' | 'right';
+
+// Where and how a sprite stands on stage.
+export interface SpriteStaging {
+  position: StagePosition | number; // A number is a custom x: the sprite's centre, from 0 (left edge) to 1 (right edge).
+  flipped: boolean; // Mirrored to face the other way.
+  scale: number; // 1 is the usual sprite height.
+  layer: number; // 0 to 9. Higher layers are drawn in front; ties keep the order the sprites came on.
 }
 
 export interface SpriteChangeLogEntry {
   type: 'sprite_change';
   characterId: string;
   assetId: string | null;
+  staging?: SpriteStaging; // Absent when hiding a sprite, and on changes logged before staging existed.
 }
 
 export interface CgShowLogEntry {
   type: 'cg_show';
   assetId: string | null;
+  transition?: SceneTransition;
+}
+
+export type ScreenEffect = 'shake' | 'flash' | 'zoom_punch';
+
+// Plays a camera effect over the scene once.
+export interface ScreenEffectLogEntry {
+  type: 'screen_effect';
+  effect: ScreenEffect;
+}
+
+// Changes the background music. A null asset stops it.
+export interface MusicChangeLogEntry {
+  type: 'music_change';
+  assetId: string | null;
+}
+
+// Plays a sound effect once.
+export interface SoundEffectLogEntry {
+  type: 'sound_effect';
+  assetId: string;
+}
+
+export interface DieResult {
+  value: number;
+  kept: boolean; // False for dice removed by a keep or drop rule.
+  exploded?: boolean; // True if this die rolled its maximum and added another die.
 }
 
+export type DiceTermResult =
+  | { kind: 'dice'; sign: 1 | -1; notation: string; sides: number; rolls: DieResult[]; successes?: number; total: number }
+  | { kind: 'constant'; sign: 1 | -1; value: number };
+
 export interface DiceRollLogEntry {
   type: 'dice_roll';
   characterId: string;
-  sides: number;
-  result: number;
+  expression: string; // Dice notation as entered, e.g. "2d6+3". See services/diceNotation.ts.
+  terms: DiceTermResult[];
+  result: number; // The total, or the number of successes for a dice pool.
+  seed?: string; // Rolls resolved by the GM host record the seed they were derived from, for auditing.
+}
+
+// A check the GM has called for. The current player rolls it for their speaking character.
+export interface SkillCheck {
+  id: string;
+  stat: StatName;
+  dc: number;
+  description: string;
+  successEffects: StoryEffect[];
+  failureEffects: StoryEffect[];
+}
+
+export interface SkillCheckLogEntry {
+  type: 'skill_check';
+  checkId: string;
+  playerId: PlayerId;
+  characterId: string;
+  stat: StatName;
+  dc: number;
+  roll: number; // The natural d20.
+  modifier: number;
+  total: number;
+  success: boolean;
+  seed: string; // Seed of the d20, derived as die 0 of "1d20". See services/diceService.ts.
 }
 
 export interface QuestStatusLogEntry {
@@ -109,9 +234,17 @@ export interface QuestStatusLogEntry {
   text: string;
 }
 
+export interface VariableChange {
+    name: string;
+    from?: StoryVariableValue; // Absent when the change created the variable.
+    to: StoryVariableValue;
+    hidden: boolean;
+}
+
 export interface StatChangeLogEntry {
     type: 'stat_change';
     text: string;
+    variableChange?: VariableChange;
 }
 
 export type StoryLogEntry =
@@ -121,10 +254,42 @@ export type StoryLogEntry =
   | BackgroundChangeLogEntry
   | SpriteChangeLogEntry
   | CgShowLogEntry
+  | MusicChangeLogEntry
+  | SoundEffectLogEntry
+  | ScreenEffectLogEntry
   | DiceRollLogEntry
+  | SkillCheckLogEntry
   | QuestStatusLogEntry
   | StatChangeLogEntry;
 
+// Entries an author can place in a scene of an authored story. They are copied into the story
+// log as the reader reaches them.
+export type AuthoredStoryEntry =
+  | DialogueLogEntry
+  | BackgroundChangeLogEntry
+  | SpriteChangeLogEntry
+  | CgShowLogEntry;
+
+// A choice at the end of a scene that jumps to another scene. A null target ends the story.
+export interface StoryBranch extends Choice {
+  targetSceneId: string | null;
+}
+
+export interface StoryScene {
+  id: string;
+  title: string;
+  entries: AuthoredStoryEntry[];
+  choices: StoryBranch[];
+  nextSceneId: string | null; // Followed when the scene has no choices, or every choice is locked. Null ends the story.
+}
+
+// A visual novel written ahead of time as a graph of scenes, read by one reader without a GM.
+export interface AuthoredStory {
+  startSceneId: string | null;
+  protagonistId: string | null; // The character the reader chooses as. Defaults to the narrator.
+  scenes: StoryScene[];
+}
+
 export interface ChatMessage {
     senderId: PlayerId;
     senderName: string;
@@ -133,6 +298,7 @@ export interface ChatMessage {
 }
 
 export interface GameData {
+  schemaVersion: number;
   title: string;
   gmRules: string;
   assets: Asset[];
@@ -148,9 +314,12 @@ export interface GameData {
       characterIdToAssign: string;
       submittingPlayerId: PlayerId;
   }[];
+  pendingSkillCheck: SkillCheck | null;
+  variables: StoryVariable[];
+  authoredStory: AuthoredStory;
 }
 
-export type GameMode = 'local' | 'online-gm' | 'online-player';
+export type GameMode = 'local' | 'online-gm' | 'online-player' | 'reader';
 
 export interface SavedSession {
     gameId: string;